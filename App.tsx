@@ -1,6 +1,17 @@
-import React, { useState, useEffect, createContext, useContext, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, createContext, useContext, useCallback, useMemo, useRef } from 'react';
 import { api } from './services/mockApi';
-import { User, Product, Notification, Role, RequestStatus, PurchasedProduct, Transaction, Review, NotificationSettings } from './types';
+import { MIN_WITHDRAWAL, PLATFORM_UPI_ID, DISPUTE_WINDOW } from './services/settlement';
+import { slaStatus } from './services/ranking';
+import { FacetCounts, hasFacets } from './services/facets';
+import { CartQuote, MAX_BUNDLE_DISCOUNT, MIN_BUNDLE_SIZE } from './services/bundles';
+import { CouponInput, CouponReport, normalizeCouponCode } from './services/coupons';
+import { bumpVersion, currentVersion, initialChangelog } from './services/versioning';
+import { ANALYTICS_RANGES, AnalyticsMetric, DailyPoint, ListingState, SellerAnalytics, analyticsToCsv, dayKey } from './services/sellerAnalytics';
+import { PRO_PRICE, GRACE_PERIOD, DEFAULT_PRO_METRICS, ProMetrics, proState, isProActive } from './services/subscription';
+import { paymentProvider } from './services/payments';
+import { SANDBOX_METHODS } from './services/sandboxPaymentProvider';
+import { LedgerEntry, Statement, filterLedger, statementMonths, buildStatement, statementToCsv } from './services/ledger';
+import { User, Product, Notification, Role, RequestStatus, PurchasedProduct, Transaction, Review, NotificationSettings, Withdrawal, Request, DownloadEvent, PaymentOrder, Dispute, DisputeStatus, ProductFacets, ProductQuery, SavedFilter, Bundle, Coupon, ProductRevision, VersionBump } from './types';
 import { 
     SunIcon, MoonIcon, BellIcon, UserCircleIcon, 
     CodeBracketIcon, 
@@ -11,8 +22,6 @@ import {
     EyeIcon, ArrowDownTrayIcon, ShoppingBagIcon, TrashIcon, ClockIcon
 } from './components/icons';
 import { motion, AnimatePresence, LayoutGroup } from 'framer-motion';
-import { auth, googleProvider } from './services/firebase';
-import { signInWithPopup, onAuthStateChanged, signOut } from 'firebase/auth';
 
 // --- CURRENCY UTILITY ---
 const formatINR = (amount: number) => {
@@ -23,6 +32,62 @@ const formatINR = (amount: number) => {
     }).format(amount);
 };
 
+// Payment proof screenshots are stored inline on the request document
+const MAX_PROOF_BYTES = 500 * 1024;
+
+// --- ROUTING ---
+type View = { page: string; id?: string; redirect?: View; query?: Record<string, string> };
+type NavigateOptions = { replace?: boolean };
+
+const PAGE_PATHS: Record<string, string> = {
+    'home': '/',
+    'explore': '/explore',
+    'sell': '/sell',
+    'login': '/login',
+    'profile': '/dashboard',
+    'admin-dashboard': '/admin',
+    'settings': '/settings',
+    'wallet': '/wallet',
+    'wishlist': '/wishlist',
+    'cart': '/cart',
+    'workspace': '/workspace'
+};
+
+const ID_PATHS: Record<string, string> = {
+    'product': '/product',
+    'seller-profile': '/seller'
+};
+
+const viewToPath = (view: View): string => {
+    const base = ID_PATHS[view.page] && view.id
+        ? `${ID_PATHS[view.page]}/${encodeURIComponent(view.id)}`
+        : PAGE_PATHS[view.page] || `/${view.page}`;
+    const params = new URLSearchParams(view.query);
+    // The login target rides in the URL so it survives a reload
+    if (view.redirect) params.set('redirect', viewToPath(view.redirect));
+    const search = params.toString();
+    return search ? `${base}?${search}` : base;
+};
+
+const pathToView = (path: string): View => {
+    const url = new URL(path, window.location.origin);
+    const [, section = '', id] = url.pathname.split('/');
+    const idPage = Object.keys(ID_PATHS).find(page => ID_PATHS[page] === `/${section}`);
+    if (idPage) return id ? { page: idPage, id: decodeURIComponent(id) } : { page: 'home' };
+
+    const page = Object.keys(PAGE_PATHS).find(p => PAGE_PATHS[p] === `/${section}`) || section || 'home';
+    const redirect = url.searchParams.get('redirect');
+    url.searchParams.delete('redirect');
+    const query = Object.fromEntries(url.searchParams);
+    return {
+        page,
+        ...(redirect?.startsWith('/') ? { redirect: pathToView(redirect) } : {}),
+        ...(Object.keys(query).length ? { query } : {})
+    };
+};
+
+const currentPath = () => window.location.pathname + window.location.search;
+
 // --- CONTEXTS ---
 
 interface ToastContextType {
@@ -51,10 +116,14 @@ interface AuthContextType {
     logout: () => Promise<void>;
     isLoading: boolean;
     updateWishlist: (productId: string) => Promise<void>;
+    addToCart: (productIds: string[]) => Promise<void>;
+    removeFromCart: (productId: string) => Promise<void>;
     refreshUser: () => Promise<void>;
-    saveFilter: (label: string, searchTerm: string, category: string) => Promise<void>;
+    saveFilter: (label: string, filter: Omit<SavedFilter, 'id' | 'label'>) => Promise<void>;
     deleteFilter: (id: string) => Promise<void>;
+    updateFilter: (id: string, changes: Partial<Pick<SavedFilter, 'label' | 'alertsEnabled'>>) => Promise<void>;
     upgradeToPro: () => Promise<void>;
+    setProAutoRenew: (enabled: boolean) => Promise<void>;
     updateNotificationSettings: (settings: NotificationSettings) => Promise<void>;
 }
 const AuthContext = createContext<AuthContextType | null>(null);
@@ -128,9 +197,9 @@ const AuthProvider = ({ children }: React.PropsWithChildren) => {
     }, [user]);
 
     useEffect(() => {
-        const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
-            if (firebaseUser) {
-                const syncedUser = await api.syncExternalUser(firebaseUser);
+        const unsubscribe = api.onAuthChange(async (identity) => {
+            if (identity) {
+                const syncedUser = await api.syncExternalUser(identity);
                 setUser(syncedUser);
             } else {
                 setUser(null);
@@ -158,8 +227,7 @@ const AuthProvider = ({ children }: React.PropsWithChildren) => {
     const loginWithGoogle = async () => {
         setIsLoading(true);
         try {
-            const result = await signInWithPopup(auth, googleProvider);
-            const syncedUser = await api.syncExternalUser(result.user);
+            const syncedUser = await api.loginWithGoogle();
             setUser(syncedUser);
             show(`Link Established: ${syncedUser.name}`, 'success');
         } catch (error: any) {
@@ -185,20 +253,46 @@ const AuthProvider = ({ children }: React.PropsWithChildren) => {
     };
     
     const logout = async () => {
-        await signOut(auth);
+        await api.logout();
         setUser(null);
         show("Session Terminated.");
     };
 
     const updateWishlist = async (productId: string) => {
-        if (!user) return;
-        const newWishlist = await api.toggleWishlist(user.uid, productId);
-        setUser(prev => prev ? { ...prev, wishlist: newWishlist } : null);
+        if (!user) return show("Authorize to build a wishlist.", "error");
+        try {
+            const newWishlist = await api.toggleWishlist(user.uid, productId);
+            setUser(prev => prev ? { ...prev, wishlist: newWishlist } : null);
+            show(newWishlist.includes(productId) ? "Node wishlisted. You'll be signalled on price drops and new versions." : "Removed from wishlist.", "success");
+        } catch (e: any) {
+            show(e.message || "Wishlist sync failed.", "error");
+        }
+    };
+
+    const addToCart = async (productIds: string[]) => {
+      if (!user) return show("Authorize to build a cart.", "error");
+      try {
+        let cart = user.cart || [];
+        for (const productId of productIds.filter(id => !cart.includes(id))) {
+          cart = await api.addToCart(user.uid, productId);
+        }
+        setUser(prev => prev ? { ...prev, cart } : null);
+        show(productIds.length > 1 ? "Bundle added to cart." : "Added to cart.", "success");
+      } catch (e: any) {
+        show(e.message || "Cart sync failed.", "error");
+        refreshUser();
+      }
     };
 
-    const saveFilter = async (label: string, searchTerm: string, category: string) => {
+    const removeFromCart = async (productId: string) => {
       if (!user) return;
-      const newFilters = await api.saveUserFilter(user.uid, { label, searchTerm, category });
+      const cart = await api.removeFromCart(user.uid, productId);
+      setUser(prev => prev ? { ...prev, cart } : null);
+    };
+
+    const saveFilter = async (label: string, filter: Omit<SavedFilter, 'id' | 'label'>) => {
+      if (!user) return;
+      const newFilters = await api.saveUserFilter(user.uid, { ...filter, label });
       setUser(prev => prev ? { ...prev, savedFilters: newFilters } : null);
       show("Macro saved.", "success");
     };
@@ -210,6 +304,18 @@ const AuthProvider = ({ children }: React.PropsWithChildren) => {
       show("Macro deleted.");
     };
 
+    const updateFilter = async (id: string, changes: Partial<Pick<SavedFilter, 'label' | 'alertsEnabled'>>) => {
+      if (!user) return;
+      try {
+        const newFilters = await api.updateUserFilter(user.uid, id, changes);
+        setUser(prev => prev ? { ...prev, savedFilters: newFilters } : null);
+        if (changes.alertsEnabled !== undefined) show(changes.alertsEnabled ? "Match alerts armed." : "Match alerts disarmed.", "success");
+        else show("Macro renamed.", "success");
+      } catch (e: any) {
+        show(e.message || "Macro update failed.", "error");
+      }
+    };
+
     const upgradeToPro = async () => {
       if (!user) return;
       try {
@@ -223,6 +329,19 @@ const AuthProvider = ({ children }: React.PropsWithChildren) => {
       }
     };
 
+    const setProAutoRenew = async (enabled: boolean) => {
+      if (!user) return;
+      try {
+        const updatedUser = enabled ? await api.resumeProSubscription(user.uid) : await api.cancelProSubscription(user.uid);
+        if (updatedUser) {
+          setUser(updatedUser);
+          show(enabled ? "Auto-Renew Resumed." : "Auto-Renew Cancelled. Elite stays active until expiry.", "success");
+        }
+      } catch (e: any) {
+        show(e.message || "Subscription update failed.", "error");
+      }
+    };
+
     const updateNotificationSettings = async (settings: NotificationSettings) => {
         if (!user) return;
         try {
@@ -237,7 +356,7 @@ const AuthProvider = ({ children }: React.PropsWithChildren) => {
     };
 
     return (
-        <AuthContext.Provider value={{ user, login, loginWithGoogle, register, logout, isLoading, updateWishlist, refreshUser, saveFilter, deleteFilter, upgradeToPro, updateNotificationSettings }}>
+        <AuthContext.Provider value={{ user, login, loginWithGoogle, register, logout, isLoading, updateWishlist, addToCart, removeFromCart, refreshUser, saveFilter, deleteFilter, updateFilter, upgradeToPro, setProAutoRenew, updateNotificationSettings }}>
             {children}
         </AuthContext.Provider>
     );
@@ -253,7 +372,7 @@ const SkeletonLoader = ({ count = 3, gridClass = "grid grid-cols-1 md:grid-cols-
     </div>
 );
 
-const Header = ({ setView, onNotifOpen, currentView }: { setView: (v: any) => void; onNotifOpen: () => void; currentView: string }) => {
+const Header = ({ setView, onNotifOpen, unreadCount, currentView }: { setView: (v: any) => void; onNotifOpen: () => void; unreadCount: number; currentView: string }) => {
     const { user, logout } = useAuth();
     const { theme, toggleTheme } = useTheme();
     const [showUserMenu, setShowUserMenu] = useState(false);
@@ -279,9 +398,19 @@ const Header = ({ setView, onNotifOpen, currentView }: { setView: (v: any) => vo
                         <button onClick={toggleTheme} className="p-3 bg-gray-100/50 dark:bg-white/5 rounded-xl text-gray-500 hover:text-indigo-500 transition-all border dark:border-white/5">
                             {theme === 'dark' ? <SunIcon className="w-5 h-5"/> : <MoonIcon className="w-5 h-5"/>}
                         </button>
+                        {user && (
+                            <button onClick={() => setView({ page: 'cart' })} title="Cart" className="p-3 bg-gray-100/50 dark:bg-white/5 rounded-xl text-gray-500 hover:text-indigo-500 transition-all border dark:border-white/5 relative">
+                                <ShoppingBagIcon className="w-5 h-5"/>
+                                {(user.cart?.length || 0) > 0 && (
+                                    <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 bg-indigo-600 border-2 border-white dark:border-[#0a0a0a] rounded-full text-[9px] font-black text-white flex items-center justify-center">{user.cart!.length}</span>
+                                )}
+                            </button>
+                        )}
                         <button onClick={onNotifOpen} className="p-3 bg-gray-100/50 dark:bg-white/5 rounded-xl text-gray-500 hover:text-indigo-500 transition-all border dark:border-white/5 relative">
                             <BellIcon className="w-5 h-5"/>
-                            {user && <span className="absolute top-2.5 right-2.5 w-2 h-2 bg-red-500 border-2 border-white dark:border-[#0a0a0a] rounded-full" />}
+                            {user && unreadCount > 0 && (
+                                <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 bg-red-500 border-2 border-white dark:border-[#0a0a0a] rounded-full text-[9px] font-black text-white flex items-center justify-center">{unreadCount > 99 ? '99+' : unreadCount}</span>
+                            )}
                         </button>
                         <div className="relative">
                             <button onClick={() => setShowUserMenu(!showUserMenu)} className="w-10 h-10 md:w-12 md:h-12 bg-indigo-600 rounded-full flex items-center justify-center text-white text-lg font-black shadow-xl overflow-hidden">
@@ -298,6 +427,9 @@ const Header = ({ setView, onNotifOpen, currentView }: { setView: (v: any) => vo
                                                 </div>
                                                 <div className="space-y-1">
                                                     <button onClick={() => { setView({ page: 'profile' }); setShowUserMenu(false); }} className="w-full text-left px-6 py-4 text-[10px] font-black uppercase tracking-widest dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-white/5 rounded-2xl italic border dark:border-white/5">Terminal</button>
+                                                    <button onClick={() => { setView({ page: 'workspace' }); setShowUserMenu(false); }} className="w-full text-left px-6 py-4 text-[10px] font-black uppercase tracking-widest dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-white/5 rounded-2xl italic border dark:border-white/5">Seller Workspace</button>
+                                                    <button onClick={() => { setView({ page: 'wishlist' }); setShowUserMenu(false); }} className="w-full text-left px-6 py-4 text-[10px] font-black uppercase tracking-widest dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-white/5 rounded-2xl italic border dark:border-white/5">Wishlist ({user.wishlist.length})</button>
+                                                    <button onClick={() => { setView({ page: 'settings' }); setShowUserMenu(false); }} className="w-full text-left px-6 py-4 text-[10px] font-black uppercase tracking-widest dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-white/5 rounded-2xl italic border dark:border-white/5">Signal Prefs</button>
                                                     <button onClick={() => { setView({ page: 'wallet' }); setShowUserMenu(false); }} className="w-full text-left px-6 py-4 text-[10px] font-black uppercase tracking-widest dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-white/5 rounded-2xl italic border dark:border-white/5">Vault ({formatINR(user.walletBalance)})</button>
                                                     
                                                     {user.role === Role.ADMIN && (
@@ -324,6 +456,68 @@ const Header = ({ setView, onNotifOpen, currentView }: { setView: (v: any) => vo
     );
 };
 
+const NotificationDrawer = ({ open, onClose, notifications, unreadCount, setView }: { open: boolean; onClose: () => void; notifications: Notification[]; unreadCount: number; setView: (v: any) => void }) => {
+    const { user } = useAuth();
+    const { show } = useToast();
+
+    const handleOpen = async (n: Notification) => {
+        if (!user) return;
+        if (!n.read) api.markNotificationRead(user.uid, n.id).catch(() => show("Sync failed.", "error"));
+        if (n.productId) {
+            setView({ page: 'product', id: n.productId });
+            onClose();
+        }
+    };
+
+    const handleMarkAll = async () => {
+        if (!user) return;
+        try {
+            await api.markAllNotificationsRead(user.uid);
+        } catch (e: any) {
+            show(e.message || "Sync failed.", "error");
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {open && (
+                <>
+                    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={onClose} className="fixed inset-0 z-[60] bg-black/40 backdrop-blur-sm" />
+                    <motion.aside initial={{ x: '100%' }} animate={{ x: 0 }} exit={{ x: '100%' }} transition={{ type: 'spring', bounce: 0, duration: 0.4 }} className="fixed top-0 right-0 bottom-0 z-[70] w-full max-w-md bg-white dark:bg-[#0a0a0a] border-l dark:border-gray-800 shadow-2xl flex flex-col">
+                        <div className="p-8 border-b dark:border-white/5 flex items-center justify-between">
+                            <div>
+                                <h2 className="text-2xl font-black dark:text-white italic uppercase tracking-tighter">Signals.</h2>
+                                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest italic">{unreadCount} unread</p>
+                            </div>
+                            <div className="flex items-center space-x-3">
+                                {user && unreadCount > 0 && (
+                                    <button onClick={handleMarkAll} className="px-4 py-2 text-[9px] font-black uppercase tracking-widest text-indigo-600 border border-indigo-600/20 rounded-xl hover:bg-indigo-600 hover:text-white transition-all">Mark All Read</button>
+                                )}
+                                <button onClick={onClose} className="p-2 text-gray-400 hover:text-indigo-500" aria-label="Close"><XIcon className="w-5 h-5" /></button>
+                            </div>
+                        </div>
+                        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+                            {!user ? (
+                                <p className="text-center py-20 text-xs font-bold text-gray-400 uppercase italic">Authenticate to receive signals.</p>
+                            ) : notifications.length === 0 ? (
+                                <p className="text-center py-20 text-xs font-bold text-gray-400 uppercase italic">No signals yet.</p>
+                            ) : notifications.map(n => (
+                                <button key={n.id} onClick={() => handleOpen(n)} className={`w-full text-left p-5 rounded-2xl border transition-all flex items-start space-x-4 ${n.read ? 'border-transparent hover:bg-gray-50 dark:hover:bg-white/5' : 'bg-indigo-50/60 dark:bg-indigo-600/10 border-indigo-100 dark:border-indigo-600/20'}`}>
+                                    <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${n.read ? 'bg-transparent' : 'bg-indigo-600'}`} />
+                                    <div className="min-w-0">
+                                        <p className={`text-sm leading-snug ${n.read ? 'text-gray-500 dark:text-gray-400 font-medium' : 'dark:text-white font-bold'}`}>{n.message}</p>
+                                        <span className="text-[9px] font-bold text-gray-400 uppercase italic">{new Date(n.createdAt).toLocaleString()}</span>
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+                    </motion.aside>
+                </>
+            )}
+        </AnimatePresence>
+    );
+};
+
 const BottomNav = ({ currentView, setView }: { currentView: string; setView: (v: any) => void }) => {
     const navItems = [
         { id: 'home', icon: HomeIcon, label: 'Home' },
@@ -361,8 +555,8 @@ const HomePage = ({ setView }: { setView: (v: any) => void }) => {
     const [isLoading, setIsLoading] = useState(true);
 
     useEffect(() => {
-        api.getPublicProducts({ sortBy: 'Popular' }).then(data => {
-            setFeatured(data.slice(0, 3));
+        api.getPublicProducts({ sortBy: 'Popular' }, null, 3).then(page => {
+            setFeatured(page.items);
             setIsLoading(false);
         });
     }, []);
@@ -435,7 +629,7 @@ const SellerProfilePage = ({ sellerId, setView }: { sellerId: string; setView: (
                 <div className="flex flex-col items-center text-center space-y-8">
                     <div className="w-40 h-40 bg-indigo-600 rounded-[3rem] flex items-center justify-center text-6xl font-black text-white shadow-2xl relative">
                         {seller.avatar ? <img src={seller.avatar} className="w-full h-full object-cover rounded-[3rem]" alt={seller.name} /> : seller.name[0]}
-                        {seller.isPro && (
+                        {isProActive(seller) && (
                             <div className="absolute -bottom-4 -right-4 bg-yellow-500 text-black px-4 py-2 rounded-2xl text-[10px] font-black uppercase italic shadow-xl border-4 border-white dark:border-[#0a0a0a]">Elite</div>
                         )}
                     </div>
@@ -472,6 +666,155 @@ const SellerProfilePage = ({ sellerId, setView }: { sellerId: string; setView: (
     );
 };
 
+const WishlistPage = ({ setView }: { setView: (v: any) => void }) => {
+    const { user } = useAuth();
+    const [products, setProducts] = useState<Product[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const wishlist = user?.wishlist || [];
+
+    useEffect(() => {
+        if (!user) return;
+        api.getProductsByIds(wishlist).then(index => {
+            // Newest saves first; listings that were pulled or never approved drop out
+            setProducts(wishlist.map(id => index[id]).filter(p => p?.approved).reverse());
+            setIsLoading(false);
+        });
+    }, [wishlist.join(',')]);
+
+    if (!user) return <LoginPage setView={setView} redirect={{ page: 'wishlist' }} />;
+
+    return (
+        <div className="container mx-auto px-4 py-32 md:py-48">
+            <h1 className="text-5xl md:text-7xl font-black dark:text-white italic uppercase tracking-tighter mb-4">Wishlist.</h1>
+            <p className="text-xs font-bold text-gray-400 uppercase tracking-widest italic mb-12">You're signalled when a saved node drops its price or ships a new version.</p>
+            {isLoading ? <SkeletonLoader count={3} /> : products.length === 0 ? (
+                <div className="text-center py-20 space-y-6">
+                    <p className="text-xs font-bold text-gray-400 uppercase italic">No nodes wishlisted yet.</p>
+                    <button onClick={() => setView({ page: 'explore' })} className="px-10 py-5 bg-indigo-600 text-white rounded-full font-black text-xs uppercase tracking-widest italic shadow-2xl hover:scale-105 transition-transform">Browse the Vault</button>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-10">
+                    {products.map(p => (
+                        <ProductCard key={p.id} product={p} onSelect={(id) => setView({ page: 'product', id })} onSellerClick={(id) => setView({ page: 'seller-profile', id })} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const CartPage = ({ setView }: { setView: (v: any) => void }) => {
+    const { user, removeFromCart, refreshUser } = useAuth();
+    const { show } = useToast();
+    const [quote, setQuote] = useState<CartQuote | null>(null);
+    const [couponCode, setCouponCode] = useState<string | null>(null);
+    const [isCheckingOut, setIsCheckingOut] = useState(false);
+    const cart = user?.cart || [];
+
+    useEffect(() => {
+        if (!user) return;
+        // A code can stop applying when the cart changes under it; drop it rather than block checkout
+        api.getCartQuote(user.uid, couponCode || undefined).then(setQuote).catch((e: any) => {
+            show(e.message || "Code no longer applies.", "error");
+            setCouponCode(null);
+        });
+    }, [user?.uid, cart.join(','), couponCode]);
+
+    if (!user) return <LoginPage setView={setView} redirect={{ page: 'cart' }} />;
+
+    const handleCheckout = async () => {
+        setIsCheckingOut(true);
+        try {
+            const { requests, total } = await api.checkoutCart(user.uid, couponCode || undefined);
+            show(`Acquired ${requests.length} node${requests.length === 1 ? '' : 's'} for ${formatINR(total)}.`, "success");
+            await refreshUser();
+            setView({ page: 'profile' });
+        } catch (e: any) {
+            show(e.message || "Checkout failed.", "error");
+        } finally {
+            setIsCheckingOut(false);
+        }
+    };
+
+    const handleApplyCoupon = async (code: string): Promise<boolean> => {
+        try {
+            const priced = await api.getCartQuote(user.uid, code);
+            show(`Code applied: ${formatINR(priced.couponDiscount)} off.`, "success");
+            setCouponCode(code);
+            return true;
+        } catch (e: any) {
+            show(e.message || "Code rejected.", "error");
+            return false;
+        }
+    };
+
+    const unavailable = quote ? cart.length - quote.lines.length : 0;
+    const shortfall = quote ? quote.total - user.walletBalance : 0;
+
+    return (
+        <div className="container mx-auto px-4 py-32 md:py-48">
+            <h1 className="text-5xl md:text-7xl font-black dark:text-white italic uppercase tracking-tighter mb-4">Cart.</h1>
+            <p className="text-xs font-bold text-gray-400 uppercase tracking-widest italic mb-12">One vault debit for everything below. Bundle deals apply automatically.</p>
+            {!quote ? <SkeletonLoader count={1} /> : quote.lines.length === 0 ? (
+                <div className="text-center py-20 space-y-6">
+                    <p className="text-xs font-bold text-gray-400 uppercase italic">Your cart is empty.</p>
+                    <button onClick={() => setView({ page: 'explore' })} className="px-10 py-5 bg-indigo-600 text-white rounded-full font-black text-xs uppercase tracking-widest italic shadow-2xl hover:scale-105 transition-transform">Browse the Vault</button>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-12 gap-12">
+                    <div className="lg:col-span-8 space-y-6">
+                        {quote.lines.map(({ product, price, discount, couponDiscount, bundle }) => (
+                            <div key={product.id} className="bg-white dark:bg-[#0a0a0a] p-8 rounded-[2.5rem] border dark:border-gray-800 shadow-xl flex items-center justify-between gap-6">
+                                <div onClick={() => setView({ page: 'product', id: product.id })} className="flex items-center space-x-6 cursor-pointer min-w-0">
+                                    <div className="w-16 h-16 rounded-2xl overflow-hidden shadow-lg border dark:border-white/10 shrink-0">
+                                        <img src={product.previewImage} className="w-full h-full object-cover" />
+                                    </div>
+                                    <div className="min-w-0">
+                                        <h4 className="text-xl font-black dark:text-white italic uppercase tracking-tighter truncate">{product.title}</h4>
+                                        <span className="text-[10px] font-bold text-gray-400 uppercase italic">{product.sellerName}</span>
+                                        {bundle && <span className="ml-3 text-[8px] font-black text-indigo-500 uppercase tracking-widest italic">{bundle.title} · −{bundle.discountPercent}%</span>}
+                                    </div>
+                                </div>
+                                <div className="flex items-center space-x-6 shrink-0">
+                                    <div className="text-right">
+                                        {discount + couponDiscount > 0 && <span className="block text-[10px] font-bold text-gray-400 line-through italic">{formatINR(product.price)}</span>}
+                                        <span className="text-xl font-black dark:text-white italic">{formatINR(price)}</span>
+                                    </div>
+                                    <button onClick={() => removeFromCart(product.id)} title="Remove" className="p-3 text-gray-400 hover:text-red-500 transition-colors"><TrashIcon className="w-5 h-5" /></button>
+                                </div>
+                            </div>
+                        ))}
+                        {unavailable > 0 && (
+                            <p className="text-[10px] font-black text-yellow-500 uppercase italic">{unavailable} node{unavailable === 1 ? ' is' : 's are'} no longer available or already owned, and will be dropped at checkout.</p>
+                        )}
+                    </div>
+                    <div className="lg:col-span-4">
+                        <div className="bg-white dark:bg-[#0a0a0a] p-10 rounded-[3rem] border dark:border-gray-800 shadow-2xl sticky top-32 space-y-4">
+                            <div className="flex items-center justify-between text-xs font-black uppercase italic text-gray-400"><span>Subtotal</span><span>{formatINR(quote.subtotal)}</span></div>
+                            {quote.discount > 0 && <div className="flex items-center justify-between text-xs font-black uppercase italic text-green-500"><span>Bundle Savings</span><span>−{formatINR(quote.discount)}</span></div>}
+                            {quote.coupon && <div className="flex items-center justify-between text-xs font-black uppercase italic text-green-500"><span>Code {quote.coupon.code}</span><span>−{formatINR(quote.couponDiscount)}</span></div>}
+                            <div className="flex items-center justify-between pt-4 border-t dark:border-white/5">
+                                <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Total</span>
+                                <span className="text-4xl font-black dark:text-white italic tracking-tighter">{formatINR(quote.total)}</span>
+                            </div>
+                            <p className="text-[10px] font-bold text-gray-400 uppercase italic">Vault balance: {formatINR(user.walletBalance)}</p>
+                            <CouponField applied={couponCode} onApply={handleApplyCoupon} onClear={() => setCouponCode(null)} />
+                            {shortfall > 0 ? (
+                                <button onClick={() => setView({ page: 'wallet' })} className="w-full py-6 bg-yellow-500/10 border border-yellow-500/20 text-yellow-500 rounded-[2rem] font-black text-sm uppercase italic">Top Up {formatINR(shortfall)} to Checkout</button>
+                            ) : (
+                                <button onClick={handleCheckout} disabled={isCheckingOut} className="w-full py-6 bg-indigo-600 text-white rounded-[2rem] font-black text-xl uppercase italic shadow-2xl hover:bg-indigo-700 disabled:opacity-60 transition-all flex items-center justify-center space-x-3">
+                                    <span>Checkout</span>
+                                    <BoltIcon className="w-6 h-6" />
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
 const SellPage = ({ setView }: { setView: (v: any) => void }) => {
     const { user } = useAuth();
     const { show } = useToast();
@@ -540,28 +883,253 @@ const SellPage = ({ setView }: { setView: (v: any) => void }) => {
     );
 };
 
-const ExplorePage = ({ setView }: { setView: (v: any) => void }) => {
+// Facets travel in the Explore URL as min, max, rating, tags (comma separated), updated and elite
+const facetsFromQuery = (query: Record<string, string>): ProductFacets => {
+    const number = (value?: string) => value && !isNaN(Number(value)) ? Number(value) : undefined;
+    return {
+        minPrice: number(query.min),
+        maxPrice: number(query.max),
+        minRating: number(query.rating),
+        tags: query.tags ? query.tags.split(',').filter(Boolean) : undefined,
+        updatedWithinDays: number(query.updated),
+        eliteOnly: query.elite === '1' || undefined
+    };
+};
+
+const facetsToQuery = (facets: ProductFacets): Record<string, string> => ({
+    ...(facets.minPrice !== undefined ? { min: String(facets.minPrice) } : {}),
+    ...(facets.maxPrice !== undefined ? { max: String(facets.maxPrice) } : {}),
+    ...(facets.minRating ? { rating: String(facets.minRating) } : {}),
+    ...(facets.tags?.length ? { tags: facets.tags.join(',') } : {}),
+    ...(facets.updatedWithinDays ? { updated: String(facets.updatedWithinDays) } : {}),
+    ...(facets.eliteOnly ? { elite: '1' } : {})
+});
+
+const FacetChip: React.FC<{ active: boolean; label: string; count: number; onClick: () => void }> = ({ active, label, count, onClick }) => (
+    <button onClick={onClick} disabled={!active && count === 0} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest italic transition-all border disabled:opacity-30 ${active ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg' : 'bg-white dark:bg-white/5 dark:text-white border-black/5 dark:border-white/5 hover:border-indigo-600'}`}>
+        {label} <span className={active ? 'text-white/70' : 'text-gray-400'}>({count})</span>
+    </button>
+);
+
+const FacetPanel = ({ facets, counts, onChange }: { facets: ProductFacets; counts: FacetCounts | null; onChange: (next: ProductFacets) => void }) => {
+    const set = (patch: ProductFacets) => onChange({ ...facets, ...patch });
+    const priceInput = (value: number | undefined, key: 'minPrice' | 'maxPrice', placeholder: string) => (
+        <input type="number" min={0} placeholder={placeholder} value={value ?? ''} onChange={e => set({ [key]: e.target.value === '' ? undefined : Number(e.target.value) })} className="w-28 px-4 py-2 rounded-xl bg-gray-50 dark:bg-white/5 dark:text-white text-[10px] font-black uppercase italic outline-none focus:ring-2 focus:ring-indigo-600" />
+    );
+    const section = (title: string, children: React.ReactNode) => (
+        <div className="space-y-3">
+            <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest italic block">{title}</span>
+            <div className="flex flex-wrap items-center gap-2">{children}</div>
+        </div>
+    );
+
+    if (!counts) return <SkeletonLoader count={1} />;
+
+    return (
+        <div className="bg-white dark:bg-[#121212] p-8 rounded-[2.5rem] border dark:border-gray-800 shadow-xl space-y-6">
+            {section('Valuation', <>
+                {counts.priceRanges.map(range => {
+                    const active = facets.minPrice === range.min && facets.maxPrice === range.max;
+                    const label = range.min === undefined ? `Under ${formatINR(range.max! + 1)}` : range.max === undefined ? `${formatINR(range.min)}+` : `${formatINR(range.min)}–${formatINR(range.max)}`;
+                    return <FacetChip key={label} active={active} label={label} count={range.count} onClick={() => set(active ? { minPrice: undefined, maxPrice: undefined } : { minPrice: range.min, maxPrice: range.max })} />;
+                })}
+                {priceInput(facets.minPrice, 'minPrice', 'Min ₹')}
+                {priceInput(facets.maxPrice, 'maxPrice', 'Max ₹')}
+            </>)}
+            {section('Rating', counts.ratings.map(({ min, count }) => (
+                <FacetChip key={min} active={facets.minRating === min} label={`${min}★ & up`} count={count} onClick={() => set({ minRating: facets.minRating === min ? undefined : min })} />
+            )))}
+            {section('Updated', counts.updatedWithin.map(({ days, count }) => (
+                <FacetChip key={days} active={facets.updatedWithinDays === days} label={`Last ${days} days`} count={count} onClick={() => set({ updatedWithinDays: facets.updatedWithinDays === days ? undefined : days })} />
+            )))}
+            {section('Seller', (
+                <FacetChip active={!!facets.eliteOnly} label="Elite only" count={counts.elite} onClick={() => set({ eliteOnly: facets.eliteOnly ? undefined : true })} />
+            ))}
+            {counts.tags.length > 0 && section('Tags', counts.tags.map(({ tag, count }) => {
+                const active = !!facets.tags?.includes(tag);
+                const toggle = () => {
+                    const tags = active ? facets.tags!.filter(t => t !== tag) : [...(facets.tags || []), tag];
+                    set({ tags: tags.length ? tags : undefined });
+                };
+                return <FacetChip key={tag} active={active} label={`#${tag}`} count={count} onClick={toggle} />;
+            }))}
+            <div className="flex items-center justify-between pt-2">
+                <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest italic">{counts.total}{counts.sampled ? '+' : ''} matching node{counts.total === 1 && !counts.sampled ? '' : 's'}</span>
+                <button onClick={() => onChange({})} className="text-[10px] font-black text-indigo-500 uppercase tracking-widest italic">Clear Filters</button>
+            </div>
+        </div>
+    );
+};
+
+// Saved searches for signed-in agents: apply in one click, rename in place, arm new-match alerts
+const MacroBar = ({ current, onApply }: { current: Omit<SavedFilter, 'id' | 'label'>; onApply: (filter: SavedFilter) => void }) => {
+    const { user, saveFilter, deleteFilter, updateFilter } = useAuth();
+    const [label, setLabel] = useState('');
+    const [renaming, setRenaming] = useState<string | null>(null);
+    const [draft, setDraft] = useState('');
+
+    if (!user) return null;
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!label.trim()) return;
+        await saveFilter(label.trim(), current);
+        setLabel('');
+    };
+
+    const handleRename = async (e: React.FormEvent, id: string) => {
+        e.preventDefault();
+        await updateFilter(id, { label: draft });
+        setRenaming(null);
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-3">
+            <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Macros:</span>
+            {user.savedFilters.map(f => renaming === f.id ? (
+                <form key={f.id} onSubmit={e => handleRename(e, f.id)} className="flex items-center gap-2">
+                    <input autoFocus value={draft} onChange={e => setDraft(e.target.value)} onKeyDown={e => e.key === 'Escape' && setRenaming(null)} className="w-40 px-4 py-2 rounded-xl bg-gray-50 dark:bg-white/5 dark:text-white text-[10px] font-black uppercase italic outline-none focus:ring-2 focus:ring-indigo-600" />
+                    <button type="submit" className="text-[10px] font-black text-indigo-500 uppercase tracking-widest italic">Save</button>
+                    <button type="button" onClick={() => setRenaming(null)} className="text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Cancel</button>
+                </form>
+            ) : (
+                <div key={f.id} className="flex items-center bg-white dark:bg-white/5 rounded-xl border border-black/5 dark:border-white/5 overflow-hidden">
+                    <button onClick={() => onApply(f)} className="px-4 py-2 text-[10px] font-black dark:text-white uppercase tracking-widest italic hover:text-indigo-500 transition-colors">{f.label}</button>
+                    <button onClick={() => { setRenaming(f.id); setDraft(f.label); }} className="px-2 py-2 text-[8px] font-black text-gray-400 uppercase italic hover:text-indigo-500">Rename</button>
+                    <button onClick={() => updateFilter(f.id, { alertsEnabled: !f.alertsEnabled })} title={f.alertsEnabled ? 'Alerts on: you are notified of new matches' : 'Notify me of new matches'} className={`p-2 transition-colors ${f.alertsEnabled ? 'text-indigo-500' : 'text-gray-400 hover:text-indigo-500'}`}>
+                        <BellIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => deleteFilter(f.id)} className="p-2 text-gray-400 hover:text-red-500 transition-colors"><TrashIcon className="w-4 h-4" /></button>
+                </div>
+            ))}
+            <form onSubmit={handleSave} className="flex items-center gap-2">
+                <input value={label} onChange={e => setLabel(e.target.value)} placeholder="Name this search" className="w-44 px-4 py-2 rounded-xl bg-white dark:bg-white/5 dark:text-white text-[10px] font-black uppercase italic outline-none border border-black/5 dark:border-white/5 focus:ring-2 focus:ring-indigo-600" />
+                <button type="submit" disabled={!label.trim()} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest italic disabled:opacity-40">Save Macro</button>
+            </form>
+        </div>
+    );
+};
+
+const ExplorePage = ({ setView, query = {} }: { setView: (v: View, options?: NavigateOptions) => void; query?: Record<string, string> }) => {
+    const { user } = useAuth();
+    const { show } = useToast();
     const [products, setProducts] = useState<Product[]>([]);
-    const [searchTerm, setSearchTerm] = useState('');
-    const [category, setCategory] = useState('All');
-    const [sortBy, setSortBy] = useState('Popular');
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const [searchTerm, setSearchTerm] = useState(query.q || '');
+    // What the grid and counts are fetched for: the term once typing pauses
+    const [settledTerm, setSettledTerm] = useState(searchTerm);
+    const [category, setCategory] = useState(query.category || 'All');
+    const [sortBy, setSortBy] = useState(query.sort || 'Popular');
+    const [facets, setFacets] = useState<ProductFacets>(() => facetsFromQuery(query));
+    const [facetCounts, setFacetCounts] = useState<FacetCounts | null>(null);
+    const [showFilters, setShowFilters] = useState(() => hasFacets(facetsFromQuery(query)));
     const [isLoading, setIsLoading] = useState(true);
 
     const categories = ['All', 'Entertainment', 'Finance', 'Education', 'Tools', 'Gaming'];
     const sortOptions = [
         { label: 'Popularity', value: 'Popular' },
+        { label: 'Relevance', value: 'Relevance' },
         { label: 'Newest', value: 'Newest' },
         { label: 'Price: Low-High', value: 'PriceLow' },
         { label: 'Price: High-Low', value: 'PriceHigh' },
     ];
 
+    const filters = useMemo<ProductQuery>(() => ({ searchTerm: settledTerm, category, sortBy, ...facets }), [settledTerm, category, sortBy, facets]);
+    const activeFacets = Object.keys(facetsToQuery(facets)).length;
+
+    const applyMacro = ({ id, label, searchTerm, category, sortBy, alertsEnabled, ...saved }: SavedFilter) => {
+        setSearchTerm(searchTerm);
+        setSettledTerm(searchTerm);
+        setCategory(category || 'All');
+        setSortBy(sortBy || 'Popular');
+        setFacets(saved);
+        if (hasFacets(saved)) setShowFilters(true);
+    };
+
+    // Bumped on every filter change so pages still in flight for the old filters are dropped
+    const generation = useRef(0);
+    const sentinel = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (searchTerm === settledTerm) return;
+        const timer = setTimeout(() => setSettledTerm(searchTerm), 250);
+        return () => clearTimeout(timer);
+    }, [searchTerm]);
+
     useEffect(() => {
+        const current = ++generation.current;
         setIsLoading(true);
-        api.getPublicProducts({ searchTerm, category, sortBy }).then(data => {
-            setProducts(data);
-            setIsLoading(false);
+        api.getPublicProducts(filters).then(page => {
+            if (current !== generation.current) return;
+            setProducts(page.items);
+            setNextCursor(page.nextCursor);
+        }).catch(() => {
+            if (current === generation.current) show("Vault query failed.", "error");
+        }).finally(() => {
+            if (current === generation.current) setIsLoading(false);
+        });
+    }, [filters]);
+
+    // A search is reported once the term has settled, not on every keystroke
+    useEffect(() => {
+        if (!searchTerm.trim()) return;
+        const timer = setTimeout(() => api.trackSearch(user?.uid ?? null, searchTerm), 1500);
+        return () => clearTimeout(timer);
+    }, [searchTerm]);
+
+    // Counts ignore the sort, so re-sorting does not refetch them
+    useEffect(() => {
+        if (!showFilters) return;
+        let stale = false;
+        api.getProductFacets({ searchTerm: settledTerm, category, ...facets }).then(counts => {
+            if (!stale) setFacetCounts(counts);
+        }).catch(() => {
+            if (!stale) setFacetCounts(null);
         });
-    }, [searchTerm, category, sortBy]);
+        return () => { stale = true; };
+    }, [showFilters, settledTerm, category, facets]);
+
+    const loadMore = useCallback(async () => {
+        if (!nextCursor || isLoadingMore) return;
+        const current = generation.current;
+        setIsLoadingMore(true);
+        try {
+            const page = await api.getPublicProducts(filters, nextCursor);
+            if (current !== generation.current) return;
+            setProducts(prev => [...prev, ...page.items]);
+            setNextCursor(page.nextCursor);
+        } catch {
+            // The observer fires this without awaiting it, so failures surface here
+            if (current === generation.current) show("Vault query failed.", "error");
+        } finally {
+            setIsLoadingMore(false);
+        }
+    }, [nextCursor, isLoadingMore, filters]);
+
+    // Fetch the next page once the end of the grid scrolls into view
+    useEffect(() => {
+        const node = sentinel.current;
+        if (!node || !nextCursor) return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries[0].isIntersecting) loadMore();
+        }, { rootMargin: '600px' });
+        observer.observe(node);
+        return () => observer.disconnect();
+    }, [nextCursor, loadMore]);
+
+    // Mirror the filters into the URL without stacking a history entry per keystroke
+    useEffect(() => {
+        setView({
+            page: 'explore',
+            query: {
+                ...(searchTerm ? { q: searchTerm } : {}),
+                ...(category !== 'All' ? { category } : {}),
+                ...(sortBy !== 'Popular' ? { sort: sortBy } : {}),
+                ...facetsToQuery(facets)
+            }
+        }, { replace: true });
+    }, [searchTerm, category, sortBy, facets]);
 
     return (
         <div className="container mx-auto px-4 py-24 md:py-32">
@@ -577,82 +1145,410 @@ const ExplorePage = ({ setView }: { setView: (v: any) => void }) => {
                             <button key={cat} onClick={() => setCategory(cat)} className={`px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest italic transition-all border ${category === cat ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg' : 'bg-white dark:bg-white/5 dark:text-white border-black/5 dark:border-white/5 hover:border-indigo-600'}`}>{cat}</button>
                         ))}
                     </div>
-                    <div className="flex items-center space-x-4 bg-white dark:bg-[#121212] p-2 rounded-2xl border dark:border-gray-800 shadow-lg">
-                        <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest italic ml-4">Sequence:</span>
-                        <select 
-                            value={sortBy} 
-                            onChange={e => setSortBy(e.target.value)}
-                            className="bg-transparent dark:text-white font-black uppercase text-[10px] italic py-2 pr-4 outline-none appearance-none cursor-pointer"
-                        >
-                            {sortOptions.map(opt => (
-                                <option key={opt.value} value={opt.value} className="bg-white dark:bg-[#0a0a0a]">{opt.label}</option>
-                            ))}
-                        </select>
+                    <div className="flex items-center gap-4">
+                        <button onClick={() => setShowFilters(prev => !prev)} className={`px-6 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest italic transition-all border shadow-lg ${showFilters || activeFacets ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white dark:bg-[#121212] dark:text-white border-black/5 dark:border-gray-800'}`}>
+                            Filters{activeFacets > 0 && ` (${activeFacets})`}
+                        </button>
+                        <div className="flex items-center space-x-4 bg-white dark:bg-[#121212] p-2 rounded-2xl border dark:border-gray-800 shadow-lg">
+                            <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest italic ml-4">Sequence:</span>
+                            <select 
+                                value={sortBy} 
+                                onChange={e => setSortBy(e.target.value)}
+                                className="bg-transparent dark:text-white font-black uppercase text-[10px] italic py-2 pr-4 outline-none appearance-none cursor-pointer"
+                            >
+                                {sortOptions.map(opt => (
+                                    <option key={opt.value} value={opt.value} className="bg-white dark:bg-[#0a0a0a]">{opt.label}</option>
+                                ))}
+                            </select>
+                        </div>
                     </div>
                 </div>
+                <MacroBar current={{ searchTerm, category, sortBy, ...facets }} onApply={applyMacro} />
+                {showFilters && <FacetPanel facets={facets} counts={facetCounts} onChange={setFacets} />}
             </div>
             {isLoading ? <SkeletonLoader count={6} /> : (
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-12">
-                    {products.map(p => (
-                        <ProductCard key={p.id} product={p} onSelect={(id) => setView({ page: 'product', id })} onSellerClick={(id) => setView({ page: 'seller-profile', id })} />
-                    ))}
-                </div>
+                <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-12">
+                        {products.map(p => (
+                            <ProductCard key={p.id} product={p} onSelect={(id) => setView({ page: 'product', id })} onSellerClick={(id) => setView({ page: 'seller-profile', id })} />
+                        ))}
+                    </div>
+                    <div ref={sentinel} />
+                    {isLoadingMore && <div className="mt-12"><SkeletonLoader count={3} /></div>}
+                </>
             )}
         </div>
     );
 };
 
-const ProductPage = ({ productId, setView }: { productId: string; setView: (v: any) => void }) => {
-    const { user, refreshUser } = useAuth();
-    const { show } = useToast();
-    const [product, setProduct] = useState<Product | null>(null);
-    const [isLoading, setIsLoading] = useState(true);
-    const [activeImageIndex, setActiveImageIndex] = useState(0);
+const ReviewComposer: React.FC<{ initial?: Review; onSubmit: (rating: number, comment: string) => Promise<void>; onCancel?: () => void }> = ({ initial, onSubmit, onCancel }) => {
+    const [rating, setRating] = useState(initial?.rating || 5);
+    const [comment, setComment] = useState(initial?.comment || '');
+    const [isSaving, setIsSaving] = useState(false);
 
-    const loadProduct = useCallback(async () => {
-        const p = await api.getProductById(productId);
-        setProduct(p);
-        setIsLoading(false);
-    }, [productId]);
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            await onSubmit(rating, comment);
+            if (!initial) setComment('');
+        } finally {
+            setIsSaving(false);
+        }
+    };
 
-    useEffect(() => { loadProduct(); }, [loadProduct]);
+    return (
+        <form onSubmit={handleSubmit} className="p-8 bg-indigo-50/50 dark:bg-indigo-600/5 rounded-[2.5rem] border border-indigo-100 dark:border-indigo-600/20 space-y-6">
+            <div className="flex items-center justify-between">
+                <span className="text-[10px] font-black text-indigo-600 uppercase tracking-widest italic">{initial ? 'Revise Signal' : 'Transmit Signal'}</span>
+                <div className="flex items-center space-x-1">
+                    {Array.from({ length: 5 }).map((_, i) => (
+                        <button key={i} type="button" onClick={() => setRating(i + 1)} aria-label={`${i + 1} stars`}>
+                            <StarIcon className={`w-5 h-5 ${i < rating ? 'text-yellow-500' : 'text-gray-300 dark:text-white/10'}`} />
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <textarea required maxLength={1000} value={comment} onChange={e => setComment(e.target.value)} placeholder="Report your experience with this node..." className="w-full px-6 py-4 rounded-2xl bg-white dark:bg-white/5 dark:text-white text-sm font-medium italic outline-none focus:ring-2 focus:ring-indigo-600 min-h-[100px]" />
+            <div className="flex justify-end space-x-3">
+                {onCancel && <button type="button" onClick={onCancel} className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-gray-600">Cancel</button>}
+                <button disabled={isSaving} className="px-6 py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50">{isSaving ? 'Syncing...' : initial ? 'Update Audit' : 'Submit Audit'}</button>
+            </div>
+        </form>
+    );
+};
 
-    const allImages = useMemo(() => {
-        if (!product) return [];
-        const combined = [product.previewImage, ...(product.images || [])];
-        return Array.from(new Set(combined)).filter(Boolean);
-    }, [product]);
+// Promo code entry shared by the product page and the cart; `onApply` reports whether the code took
+const CouponField = ({ applied, onApply, onClear }: { applied: string | null; onApply: (code: string) => Promise<boolean>; onClear: () => void }) => {
+    const [code, setCode] = useState('');
+    const [isApplying, setIsApplying] = useState(false);
 
-    const handleShare = (platform: string) => {
-        const url = window.location.href;
-        const text = `Explore node ${product?.title} on Codastra`;
-        if (platform === 'x') window.open(`https://twitter.com/intent/tweet?text=${encodeURIComponent(text)}&url=${encodeURIComponent(url)}`, '_blank');
-        if (platform === 'facebook') window.open(`https://www.facebook.com/sharer/sharer.php?u=${encodeURIComponent(url)}`, '_blank');
-        if (platform === 'linkedin') window.open(`https://www.linkedin.com/sharing/share-offsite/?url=${encodeURIComponent(url)}`, '_blank');
-        if (platform === 'copy') {
-            navigator.clipboard.writeText(url);
-            show("Endpoint copied.", "success");
-        }
-    };
+    if (applied) {
+        return (
+            <div className="flex items-center justify-between px-6 py-4 mb-6 rounded-2xl bg-green-500/10 border border-green-500/20">
+                <span className="text-[10px] font-black text-green-500 uppercase tracking-widest italic">Code {applied} applied</span>
+                <button onClick={onClear} className="text-[10px] font-black text-gray-400 uppercase tracking-widest italic hover:text-red-500">Remove</button>
+            </div>
+        );
+    }
 
-    const handlePurchase = async () => {
-        if (!user) return setView({ page: 'login', redirect: { page: 'product', id: productId } });
-        try {
-            await api.createRequest(user.uid, productId, undefined, true);
-            show("Acquisition complete.", "success");
-            refreshUser();
-            loadProduct();
-        } catch (e: any) {
-            show(e.message || "Acquisition failed.", "error");
-        }
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsApplying(true);
+        if (await onApply(normalizeCouponCode(code))) setCode('');
+        setIsApplying(false);
     };
 
-    if (isLoading) return <div className="py-40"><SkeletonLoader count={1} /></div>;
-    if (!product) return <div className="py-40 text-center font-black text-4xl italic uppercase dark:text-white">Not Found</div>;
-
     return (
-        <div className="container mx-auto px-4 py-24 md:py-40">
-            <div className="grid grid-cols-1 lg:grid-cols-12 gap-12 md:gap-20">
+        <form onSubmit={handleSubmit} className="flex items-center gap-3 mb-6">
+            <input placeholder="Promo code" value={code} onChange={e => setCode(e.target.value.toUpperCase())} className="flex-1 min-w-0 px-6 py-4 rounded-2xl bg-gray-50 dark:bg-white/5 dark:text-white font-bold italic uppercase outline-none focus:ring-2 focus:ring-indigo-600" />
+            <button type="submit" disabled={isApplying || !code.trim()} className="px-6 py-4 bg-gray-900 dark:bg-white/10 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest italic disabled:opacity-40">Apply</button>
+        </form>
+    );
+};
+
+const VERSION_BUMPS: { value: VersionBump; label: string }[] = [
+    { value: 'patch', label: 'Patch · Fixes' },
+    { value: 'minor', label: 'Minor · Features' },
+    { value: 'major', label: 'Major · Breaking' }
+];
+
+// Sellers edit listings in place until they are approved; after that each edit is a revision that waits for audit
+const ListingEditor = ({ product, onSaved }: { product: Product; onSaved: () => void }) => {
+    const { user } = useAuth();
+    const { show } = useToast();
+    const [revision, setRevision] = useState<ProductRevision | null>(null);
+    const [isOpen, setIsOpen] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [form, setForm] = useState({ title: '', description: '', price: '', previewImage: '', images: '', assetLink: '' });
+    const [bump, setBump] = useState<VersionBump>('patch');
+    const [notes, setNotes] = useState('');
+
+    useEffect(() => {
+        api.getProductRevision(product.id).then(setRevision).catch(() => show("Revision lookup failed.", "error"));
+    }, [product.id]);
+
+    const pending = revision?.status === 'pending' ? revision : null;
+
+    // A pending revision is picked up where it was left, since resubmitting replaces it
+    const openEditor = () => {
+        const draft = { ...product, ...pending?.changes };
+        setForm({
+            title: draft.title,
+            description: draft.description,
+            price: String(draft.price),
+            previewImage: draft.previewImage,
+            images: (draft.images || []).join('\n'),
+            assetLink: pending?.changes.assetLink || ''
+        });
+        setBump(pending?.bump || 'patch');
+        setNotes(pending?.notes || '');
+        setIsOpen(true);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+        setIsSaving(true);
+        try {
+            const edit = {
+                title: form.title,
+                description: form.description,
+                price: Number(form.price),
+                previewImage: form.previewImage,
+                images: form.images.split('\n').map(url => url.trim()).filter(Boolean),
+                ...(form.assetLink.trim() ? { assetLink: form.assetLink.trim() } : {})
+            };
+            const filed = await api.editProduct(user.uid, product.id, edit, bump, notes);
+            if (filed) {
+                setRevision(filed);
+                show(`v${filed.version} sent for audit. The live version stays up.`, "success");
+            } else {
+                show("Listing updated.", "success");
+                onSaved();
+            }
+            setIsOpen(false);
+        } catch (e: any) {
+            show(e.message || "Update failed.", "error");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const field = (label: string, key: keyof typeof form, input: 'text' | 'url' | 'number' | 'textarea', placeholder?: string) => (
+        <div className="space-y-2">
+            <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest italic ml-4">{label}</label>
+            {input === 'textarea' ? (
+                <textarea value={form[key]} placeholder={placeholder} onChange={e => setForm({ ...form, [key]: e.target.value })} className="w-full px-6 py-4 rounded-2xl bg-gray-50 dark:bg-white/5 dark:text-white font-bold italic outline-none focus:ring-2 focus:ring-indigo-600 min-h-[120px]" />
+            ) : (
+                <input type={input} min={input === 'number' ? 0 : undefined} value={form[key]} placeholder={placeholder} onChange={e => setForm({ ...form, [key]: e.target.value })} className="w-full px-6 py-4 rounded-2xl bg-gray-50 dark:bg-white/5 dark:text-white font-bold italic outline-none focus:ring-2 focus:ring-indigo-600" />
+            )}
+        </div>
+    );
+
+    return (
+        <div className="bg-white dark:bg-[#0a0a0a] p-10 rounded-[3rem] border dark:border-gray-800 shadow-2xl space-y-6">
+            <div className="flex items-center justify-between">
+                <h2 className="text-2xl font-black dark:text-white italic uppercase tracking-widest">Edit Listing.</h2>
+                {!isOpen && <button onClick={openEditor} className="text-[10px] font-black text-indigo-500 uppercase tracking-widest italic hover:underline">{pending ? 'Revise Update' : 'Edit'}</button>}
+            </div>
+            {pending && (
+                <p className="text-[10px] font-black text-yellow-500 uppercase tracking-widest italic">v{pending.version} awaiting audit · filed {new Date(pending.submittedAt).toLocaleDateString()}</p>
+            )}
+            {revision?.status === 'rejected' && (
+                <p className="text-[10px] font-black text-red-500 uppercase tracking-widest italic">v{revision.version} was rejected during audit. The live version is unchanged.</p>
+            )}
+            {isOpen && (
+                <form onSubmit={handleSubmit} className="space-y-6">
+                    {field('Title', 'title', 'text')}
+                    {field('Description', 'description', 'textarea')}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        {field('Valuation (INR)', 'price', 'number')}
+                        {field('Preview Image URL', 'previewImage', 'url')}
+                    </div>
+                    {field('Gallery Images', 'images', 'textarea', 'One image URL per line')}
+                    {field('Asset Link', 'assetLink', 'url', 'Leave blank to keep the current link')}
+                    {product.approved && (
+                        <>
+                            <div className="space-y-2">
+                                <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest italic ml-4">Release · v{currentVersion(product)} → v{bumpVersion(currentVersion(product), bump)}</label>
+                                <div className="grid grid-cols-3 gap-2 p-1.5 bg-gray-100/50 dark:bg-white/5 rounded-2xl border border-black/5 dark:border-white/5">
+                                    {VERSION_BUMPS.map(b => (
+                                        <button key={b.value} type="button" onClick={() => setBump(b.value)} className={`py-3 rounded-xl text-[10px] font-black uppercase tracking-widest italic ${bump === b.value ? 'bg-white dark:bg-white/10 text-indigo-600 dark:text-indigo-400 shadow' : 'text-gray-500'}`}>{b.label}</button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="space-y-2">
+                                <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest italic ml-4">Changelog</label>
+                                <textarea required value={notes} placeholder="What changed in this version?" onChange={e => setNotes(e.target.value)} className="w-full px-6 py-4 rounded-2xl bg-gray-50 dark:bg-white/5 dark:text-white font-bold italic outline-none focus:ring-2 focus:ring-indigo-600 min-h-[100px]" />
+                            </div>
+                        </>
+                    )}
+                    <div className="flex items-center gap-3">
+                        <button type="submit" disabled={isSaving} className="flex-1 py-5 bg-indigo-600 text-white rounded-[2rem] font-black text-sm uppercase italic shadow-2xl hover:bg-indigo-700 disabled:opacity-60 transition-all">{product.approved ? 'Submit for Audit' : 'Save Changes'}</button>
+                        <button type="button" onClick={() => setIsOpen(false)} className="px-8 py-5 rounded-[2rem] border dark:border-white/10 dark:text-white font-black text-sm uppercase italic">Cancel</button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+};
+
+const ChangelogPanel = ({ product }: { product: Product }) => {
+    const entries = product.changelog || initialChangelog(product.createdAt);
+    return (
+        <div className="bg-white dark:bg-[#0a0a0a] p-10 rounded-[3rem] border dark:border-gray-800 shadow-2xl">
+            <h2 className="text-2xl font-black dark:text-white italic uppercase mb-8 tracking-widest">Version History.</h2>
+            <div className="space-y-4">
+                {entries.map(entry => (
+                    <div key={entry.version} className="p-6 bg-gray-50 dark:bg-white/5 rounded-[2rem] border dark:border-white/5">
+                        <div className="flex items-center justify-between mb-2">
+                            <span className="px-3 py-1 bg-indigo-600 rounded-full text-[10px] font-black uppercase tracking-widest text-white italic">v{entry.version}</span>
+                            <span className="text-[10px] font-bold text-gray-400 uppercase italic">{new Date(entry.publishedAt).toLocaleDateString()}</span>
+                        </div>
+                        <p className="text-gray-500 dark:text-gray-400 text-sm leading-relaxed font-medium whitespace-pre-line">{entry.notes}</p>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const ProductPage = ({ productId, setView }: { productId: string; setView: (v: any) => void }) => {
+    const { user, isLoading: isAuthLoading, refreshUser, addToCart } = useAuth();
+    const { show } = useToast();
+    const [product, setProduct] = useState<Product | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [activeImageIndex, setActiveImageIndex] = useState(0);
+    const [isPurchasing, setIsPurchasing] = useState(false);
+    const [payMethod, setPayMethod] = useState<'wallet' | 'external'>('wallet');
+    const [paymentProof, setPaymentProof] = useState('');
+    const [myRequest, setMyRequest] = useState<Request | null>(null);
+    const [isEditingReview, setIsEditingReview] = useState(false);
+    const [bundles, setBundles] = useState<Bundle[]>([]);
+    const [coupon, setCoupon] = useState<{ code: string; discount: number; price: number } | null>(null);
+
+    const loadProduct = useCallback(async () => {
+        const p = await api.getProductById(productId);
+        setProduct(p);
+        setIsLoading(false);
+    }, [productId]);
+
+    const loadRequest = useCallback(async () => {
+        setMyRequest(user ? await api.getPurchaseRequest(user.uid, productId) : null);
+    }, [user?.uid, productId]);
+
+    useEffect(() => { loadProduct(); }, [loadProduct]);
+    useEffect(() => { loadRequest(); }, [loadRequest]);
+    useEffect(() => { api.getProductBundles(productId).then(setBundles); }, [productId]);
+
+    // One view per visit, once we know whether the visitor is the seller or an admin; reloads after a purchase don't count
+    const trackedView = useRef<string | null>(null);
+    useEffect(() => {
+        if (!product || isAuthLoading || trackedView.current === product.id) return;
+        trackedView.current = product.id;
+        api.trackView(product, user);
+    }, [product, isAuthLoading, user]);
+
+    const allImages = useMemo(() => {
+        if (!product) return [];
+        const combined = [product.previewImage, ...(product.images || [])];
+        return Array.from(new Set(combined)).filter(Boolean);
+    }, [product]);
+
+    const handleShare = (platform: string) => {
+        const url = window.location.origin + viewToPath({ page: 'product', id: productId });
+        const text = `Explore node ${product?.title} on Codastra`;
+        if (platform === 'x') window.open(`https://twitter.com/intent/tweet?text=${encodeURIComponent(text)}&url=${encodeURIComponent(url)}`, '_blank');
+        if (platform === 'facebook') window.open(`https://www.facebook.com/sharer/sharer.php?u=${encodeURIComponent(url)}`, '_blank');
+        if (platform === 'linkedin') window.open(`https://www.linkedin.com/sharing/share-offsite/?url=${encodeURIComponent(url)}`, '_blank');
+        if (platform === 'copy') {
+            navigator.clipboard.writeText(url);
+            show("Endpoint copied.", "success");
+        }
+    };
+
+    const handlePurchase = async () => {
+        if (!user) return setView({ page: 'login', redirect: { page: 'product', id: productId } });
+        if (isPurchasing) return;
+        setIsPurchasing(true);
+        try {
+            if (payMethod === 'external') {
+                await api.createRequest(user.uid, productId, paymentProof, false);
+                show("Proof submitted. Awaiting verification.", "success");
+                setPaymentProof('');
+            } else {
+                await api.createRequest(user.uid, productId, undefined, true, coupon?.code);
+                setCoupon(null);
+                show("Acquisition complete.", "success");
+                refreshUser();
+                loadProduct();
+            }
+            loadRequest();
+        } catch (e: any) {
+            show(e.message || "Acquisition failed.", "error");
+        } finally {
+            setIsPurchasing(false);
+        }
+    };
+
+    const handleApplyCoupon = async (code: string): Promise<boolean> => {
+        if (!user) {
+            setView({ page: 'login', redirect: { page: 'product', id: productId } });
+            return false;
+        }
+        try {
+            const quote = await api.quoteCoupon(user.uid, productId, code);
+            setCoupon({ code, ...quote });
+            show(`Code applied: ${formatINR(quote.discount)} off.`, "success");
+            return true;
+        } catch (e: any) {
+            show(e.message || "Code rejected.", "error");
+            return false;
+        }
+    };
+
+    const handleRetrieve = async () => {
+        if (!user) return;
+        // Buyers go through the metered download; sellers and admins just resolve the link
+        const isPurchase = myRequest?.status === RequestStatus.APPROVED;
+        try {
+            const link = isPurchase ? await api.downloadProduct(user.uid, productId) : await api.getDownloadLink(user.uid, productId);
+            window.open(link, '_blank', 'noopener');
+            if (isPurchase) loadProduct();
+        } catch (e: any) {
+            show(e.message || "Retrieval failed.", "error");
+        }
+    };
+
+    const handleProofUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        if (file.size > MAX_PROOF_BYTES) return show("Proof image must be under 500KB.", "error");
+        const reader = new FileReader();
+        reader.onload = () => setPaymentProof(reader.result as string);
+        reader.readAsDataURL(file);
+    };
+
+    const handleReviewSubmit = async (rating: number, comment: string) => {
+        if (!user) return;
+        try {
+            const updated = isEditingReview
+                ? await api.editReview(user.uid, productId, rating, comment)
+                : await api.submitReview(user.uid, productId, rating, comment);
+            setProduct(updated);
+            setIsEditingReview(false);
+            show(isEditingReview ? "Audit revised." : "Audit transmitted.", "success");
+        } catch (e: any) {
+            show(e.message || "Audit failed.", "error");
+        }
+    };
+
+    const handleReviewDelete = async (reviewId: string) => {
+        if (!user || !window.confirm("Purge this audit signal?")) return;
+        try {
+            setProduct(await api.deleteReview(user.uid, productId, reviewId));
+            setIsEditingReview(false);
+            show("Audit purged.", "success");
+        } catch (e: any) {
+            show(e.message || "Purge failed.", "error");
+        }
+    };
+
+    if (isLoading) return <div className="py-40"><SkeletonLoader count={1} /></div>;
+    if (!product) return <div className="py-40 text-center font-black text-4xl italic uppercase dark:text-white">Not Found</div>;
+
+    const isOwned = myRequest?.status === RequestStatus.APPROVED;
+    const canManage = !!user && (user.uid === product.sellerId || user.role === Role.ADMIN);
+    const isPendingVerification = myRequest?.status === RequestStatus.PENDING;
+    const myReview = user ? product.reviews.find(r => r.userId === user.uid) : undefined;
+    const isInCart = !!user?.cart?.includes(product.id);
+    // Coupons only apply to vault purchases
+    const walletCoupon = payMethod === 'wallet' && !isOwned && !canManage ? coupon : null;
+
+    return (
+        <div className="container mx-auto px-4 py-24 md:py-40">
+            <div className="grid grid-cols-1 lg:grid-cols-12 gap-12 md:gap-20">
                 <div className="lg:col-span-8 space-y-12">
                     <div className="space-y-6">
                         <div className="aspect-video rounded-[3rem] overflow-hidden shadow-2xl border dark:border-white/10 relative group bg-black">
@@ -675,6 +1571,7 @@ const ProductPage = ({ productId, setView }: { productId: string; setView: (v: a
                                 <div className="flex items-center space-x-3 mb-4">
                                     <span className="px-4 py-1.5 bg-indigo-600 rounded-full text-[10px] font-black uppercase tracking-widest text-white italic shadow-lg">{product.category}</span>
                                     {product.isPriority && <span className="px-4 py-1.5 bg-yellow-500 rounded-full text-[10px] font-black uppercase tracking-widest text-black italic shadow-lg">Elite Choice</span>}
+                                    <span className="px-4 py-1.5 bg-white/20 backdrop-blur-md rounded-full text-[10px] font-black uppercase tracking-widest text-white italic shadow-lg">v{currentVersion(product)}</span>
                                 </div>
                                 <h1 className="text-4xl md:text-6xl font-black text-white italic uppercase tracking-tighter">{product.title}</h1>
                             </div>
@@ -727,6 +1624,10 @@ const ProductPage = ({ productId, setView }: { productId: string; setView: (v: a
                         <p className="text-gray-500 dark:text-gray-400 text-lg leading-relaxed font-medium mb-12">{product.description}</p>
                     </div>
 
+                    {canManage && <ListingEditor product={product} onSaved={loadProduct} />}
+
+                    <ChangelogPanel product={product} />
+
                     <div className="bg-white dark:bg-[#0a0a0a] p-10 rounded-[3rem] border dark:border-gray-800 shadow-2xl">
                         <div className="flex items-center justify-between mb-10">
                             <h2 className="text-2xl font-black dark:text-white italic uppercase tracking-widest">Integrity Audit.</h2>
@@ -735,14 +1636,19 @@ const ProductPage = ({ productId, setView }: { productId: string; setView: (v: a
                                 <span className="text-2xl font-black dark:text-white italic">{product.rating.toFixed(1)}</span>
                             </div>
                         </div>
+                        {isOwned && !myReview && (
+                            <div className="mb-8"><ReviewComposer onSubmit={handleReviewSubmit} /></div>
+                        )}
                         {product.reviews.length === 0 ? (
                             <p className="text-center py-10 text-xs font-bold text-gray-400 uppercase italic">No audit signals received yet.</p>
                         ) : (
                             <div className="space-y-6">
-                                {product.reviews.map(review => (
+                                {product.reviews.map(review => isEditingReview && review.id === myReview?.id ? (
+                                    <ReviewComposer key={review.id} initial={review} onSubmit={handleReviewSubmit} onCancel={() => setIsEditingReview(false)} />
+                                ) : (
                                     <div key={review.id} className="p-8 bg-gray-50 dark:bg-white/5 rounded-[2.5rem] border dark:border-white/5">
                                         <div className="flex items-center justify-between mb-4">
-                                            <span className="text-[10px] font-black dark:text-white uppercase italic">{review.userName}</span>
+                                            <span className="text-[10px] font-black dark:text-white uppercase italic">{review.userName}{review.updatedAt && <span className="ml-2 text-gray-400">(edited)</span>}</span>
                                             <div className="flex items-center space-x-1">
                                                 {Array.from({ length: 5 }).map((_, i) => (
                                                     <StarIcon key={i} className={`w-3 h-3 ${i < review.rating ? 'text-yellow-500' : 'text-gray-300 dark:text-white/10'}`} />
@@ -750,6 +1656,12 @@ const ProductPage = ({ productId, setView }: { productId: string; setView: (v: a
                                             </div>
                                         </div>
                                         <p className="text-gray-500 dark:text-gray-400 text-sm leading-relaxed font-medium italic">"{review.comment}"</p>
+                                        {(review.id === myReview?.id || user?.role === Role.ADMIN) && (
+                                            <div className="flex justify-end space-x-4 mt-4">
+                                                {review.id === myReview?.id && <button onClick={() => setIsEditingReview(true)} className="text-[9px] font-black uppercase tracking-widest text-indigo-600 hover:underline">Edit</button>}
+                                                <button onClick={() => handleReviewDelete(review.id)} className="text-[9px] font-black uppercase tracking-widest text-red-500 hover:underline">Delete</button>
+                                            </div>
+                                        )}
                                     </div>
                                 ))}
                             </div>
@@ -761,12 +1673,75 @@ const ProductPage = ({ productId, setView }: { productId: string; setView: (v: a
                     <div className="bg-white dark:bg-[#0a0a0a] p-10 rounded-[3rem] border dark:border-gray-800 shadow-2xl sticky top-32">
                         <div className="flex items-center justify-between mb-8">
                             <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Acquisition Fee</span>
-                            <span className="text-5xl font-black dark:text-white italic tracking-tighter">{formatINR(product.price)}</span>
+                            <div className="flex items-center space-x-4">
+                                <div className="text-right">
+                                    {walletCoupon && <span className="block text-sm font-bold text-gray-400 line-through italic">{formatINR(product.price)}</span>}
+                                    <span className="text-5xl font-black dark:text-white italic tracking-tighter">{formatINR(walletCoupon ? walletCoupon.price : product.price)}</span>
+                                </div>
+                                <WishlistButton productId={product.id} className="w-12 h-12 shrink-0" />
+                            </div>
                         </div>
-                        <button onClick={handlePurchase} className="w-full py-6 bg-indigo-600 text-white rounded-[2rem] font-black text-xl uppercase italic shadow-2xl hover:bg-indigo-700 transition-all mb-8 flex items-center justify-center space-x-3">
-                            <span>Acquire Node</span>
-                            <BoltIcon className="w-6 h-6" />
-                        </button>
+                        {isOwned || canManage ? (
+                            <button onClick={handleRetrieve} className="w-full py-6 bg-green-500/10 border border-green-500/20 text-green-500 rounded-[2rem] font-black text-xl uppercase italic mb-8 flex items-center justify-center space-x-3 hover:bg-green-500 hover:text-white transition-all">
+                                <ArrowDownTrayIcon className="w-6 h-6" />
+                                <span>Retrieve Asset</span>
+                            </button>
+                        ) : isPendingVerification ? (
+                            <div className="w-full py-6 bg-yellow-500/10 border border-yellow-500/20 text-yellow-500 rounded-[2rem] font-black text-sm uppercase italic mb-8 flex items-center justify-center space-x-3">
+                                <ClockIcon className="w-6 h-6" />
+                                <span>Verification Pending</span>
+                            </div>
+                        ) : (
+                            <>
+                                <div className="grid grid-cols-2 gap-2 p-1.5 mb-6 bg-gray-100/50 dark:bg-white/5 rounded-2xl border border-black/5 dark:border-white/5">
+                                    {(['wallet', 'external'] as const).map(method => (
+                                        <button key={method} onClick={() => setPayMethod(method)} className={`py-3 rounded-xl text-[10px] font-black uppercase tracking-widest italic ${payMethod === method ? 'bg-white dark:bg-white/10 text-indigo-600 dark:text-indigo-400 shadow' : 'text-gray-500'}`}>
+                                            {method === 'wallet' ? 'Vault Balance' : 'Pay Externally'}
+                                        </button>
+                                    ))}
+                                </div>
+                                {payMethod === 'wallet' && (
+                                    <CouponField applied={coupon?.code || null} onApply={handleApplyCoupon} onClear={() => setCoupon(null)} />
+                                )}
+                                {payMethod === 'external' && (
+                                    <div className="space-y-4 mb-6">
+                                        <p className="text-[10px] font-bold text-gray-400 uppercase italic leading-relaxed">
+                                            Transfer {formatINR(product.price)} to <span className="text-indigo-500">{PLATFORM_UPI_ID}</span>, then paste the UPI/bank reference or upload a screenshot.
+                                        </p>
+                                        <input type="text" placeholder="UTR / Transaction Reference" value={paymentProof.startsWith('data:') ? '' : paymentProof} onChange={e => setPaymentProof(e.target.value)} className="w-full px-6 py-4 rounded-2xl bg-gray-50 dark:bg-white/5 dark:text-white font-bold italic outline-none focus:ring-2 focus:ring-indigo-600" />
+                                        <label className="block w-full px-6 py-4 rounded-2xl border border-dashed dark:border-white/10 text-center text-[10px] font-black uppercase italic text-gray-400 cursor-pointer hover:border-indigo-600">
+                                            {paymentProof.startsWith('data:') ? 'Screenshot attached' : 'Upload Screenshot'}
+                                            <input type="file" accept="image/*" onChange={handleProofUpload} className="hidden" />
+                                        </label>
+                                    </div>
+                                )}
+                                {myRequest?.status === RequestStatus.REJECTED && (
+                                    <p className="text-[10px] font-black text-red-500 uppercase italic mb-4">Previous proof was rejected. Submit a new one.</p>
+                                )}
+                                <button onClick={handlePurchase} disabled={isPurchasing || (payMethod === 'external' && !paymentProof.trim())} className="w-full py-6 bg-indigo-600 text-white rounded-[2rem] font-black text-xl uppercase italic shadow-2xl hover:bg-indigo-700 disabled:opacity-60 transition-all mb-4 flex items-center justify-center space-x-3">
+                                    <span>{payMethod === 'external' ? 'Submit Proof' : 'Acquire Node'}</span>
+                                    <BoltIcon className="w-6 h-6" />
+                                </button>
+                                {isInCart ? (
+                                    <button onClick={() => setView({ page: 'cart' })} className="w-full py-4 mb-8 rounded-[2rem] border border-indigo-500/20 text-indigo-500 font-black text-xs uppercase tracking-widest italic hover:bg-indigo-500/10 transition-all">In Cart · Checkout</button>
+                                ) : (
+                                    <button onClick={() => addToCart([product.id])} className="w-full py-4 mb-8 rounded-[2rem] border dark:border-white/10 dark:text-white font-black text-xs uppercase tracking-widest italic hover:border-indigo-600 hover:text-indigo-500 transition-all flex items-center justify-center space-x-2">
+                                        <ShoppingBagIcon className="w-4 h-4" />
+                                        <span>Add to Cart</span>
+                                    </button>
+                                )}
+                                {bundles.map(b => (
+                                    <div key={b.id} className="p-6 mb-4 rounded-[2rem] bg-indigo-500/10 border border-indigo-500/20 space-y-3">
+                                        <div className="flex items-center justify-between">
+                                            <span className="text-[10px] font-black text-indigo-500 uppercase tracking-widest italic">Bundle · Save {b.discountPercent}%</span>
+                                            <span className="text-[10px] font-bold text-gray-400 uppercase italic">{b.productIds.length} nodes</span>
+                                        </div>
+                                        <p className="text-sm font-black dark:text-white uppercase italic">{b.title}</p>
+                                        <button onClick={() => addToCart(b.productIds)} className="text-[10px] font-black text-indigo-500 uppercase tracking-widest italic hover:underline">Add Bundle to Cart</button>
+                                    </div>
+                                ))}
+                            </>
+                        )}
                         
                         <div 
                           onClick={() => setView({ page: 'seller-profile', id: product.sellerId })}
@@ -785,6 +1760,21 @@ const ProductPage = ({ productId, setView }: { productId: string; setView: (v: a
     );
 };
 
+// Heart toggle shared by product cards and the product page
+const WishlistButton = ({ productId, className = '' }: { productId: string; className?: string }) => {
+    const { user, updateWishlist } = useAuth();
+    const isWishlisted = !!user?.wishlist.includes(productId);
+    return (
+        <button
+            onClick={(e) => { e.stopPropagation(); updateWishlist(productId); }}
+            title={isWishlisted ? 'Remove from wishlist' : 'Add to wishlist'}
+            className={`flex items-center justify-center rounded-full backdrop-blur-md border shadow-lg transition-all hover:scale-110 ${isWishlisted ? 'bg-red-500 border-red-500 text-white' : 'bg-white/90 dark:bg-black/80 border-black/5 dark:border-white/10 text-gray-500 dark:text-white hover:text-red-500'} ${className}`}
+        >
+            <HeartIcon filled={isWishlisted} className="w-5 h-5" />
+        </button>
+    );
+};
+
 const ProductCard: React.FC<{ 
     product: Product; 
     onSelect: (id: string) => void; 
@@ -801,6 +1791,7 @@ const ProductCard: React.FC<{
                 <div className="absolute top-6 right-6 px-4 py-2 bg-white/90 dark:bg-black/80 backdrop-blur-md rounded-full border border-black/5 dark:border-white/10 shadow-lg">
                     <span className="text-xs font-black italic uppercase tracking-wider dark:text-white">{formatINR(product.price)}</span>
                 </div>
+                <WishlistButton productId={product.id} className="absolute top-6 left-6 w-10 h-10" />
             </div>
             <div className="p-8 space-y-4">
                 <div className="flex items-center justify-between">
@@ -830,7 +1821,7 @@ const ProductCard: React.FC<{
     );
 };
 
-const LoginPage = ({ setView, redirect }: { setView: (v: any) => void; redirect?: any }) => {
+const LoginPage = ({ setView, redirect }: { setView: (v: any) => void; redirect?: View }) => {
     const { login, loginWithGoogle, register } = useAuth();
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
@@ -861,138 +1852,1290 @@ const LoginPage = ({ setView, redirect }: { setView: (v: any) => void; redirect?
     );
 };
 
-const DashboardPage = ({ setView }: { setView: (v: any) => void }) => {
-    const { user, logout, upgradeToPro } = useAuth();
-    const [purchases, setPurchases] = useState<any[]>([]);
-
+const ProMembership = () => {
+    const { user, upgradeToPro, setProAutoRenew } = useAuth();
+    const [metrics, setMetrics] = useState<ProMetrics>(DEFAULT_PRO_METRICS);
     useEffect(() => {
-        if (user) {
-            api.getUserPurchases(user.uid).then(setPurchases);
-        }
-    }, [user]);
+        if (user?.isPro) api.getProMetrics(user.uid).then(m => m && setMetrics(m)).catch(() => undefined);
+    }, [user?.uid, user?.isPro, user?.walletBalance]);
+    if (!user) return null;
 
-    if (!user) return <LoginPage setView={setView} />;
+    const state = proState(user);
+    const upgradeButton = (label: string) => (
+        <button onClick={upgradeToPro} className="w-full py-4 bg-gradient-to-r from-yellow-500 to-orange-500 text-black rounded-2xl font-black text-xs uppercase italic shadow-xl mb-4">{label} ({formatINR(PRO_PRICE)}/yr)</button>
+    );
+    if (state === 'none' || state === 'lapsed') return upgradeButton('Upgrade to Elite');
 
-    return (
-        <div className="container mx-auto px-4 py-32 md:py-48">
-            <div className="grid grid-cols-1 lg:grid-cols-12 gap-16">
-                <div className="lg:col-span-4 space-y-12">
-                    <div className="bg-white dark:bg-[#0a0a0a] rounded-[3rem] p-12 border dark:border-gray-800 shadow-2xl text-center">
-                        <div className="w-32 h-32 bg-indigo-600 rounded-full mx-auto mb-8 flex items-center justify-center text-4xl font-black text-white shadow-2xl relative overflow-hidden">
-                            {user.avatar ? <img src={user.avatar} className="w-full h-full object-cover" /> : user.name[0]}
-                        </div>
-                        <h2 className="text-3xl font-black dark:text-white italic uppercase tracking-tighter mb-2">{user.name}</h2>
-                        <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest mb-8">{user.email}</p>
-                        
-                        <div className="grid grid-cols-2 gap-4 mb-8">
-                            <div className="p-6 bg-gray-50 dark:bg-white/5 rounded-[2rem] border dark:border-white/5">
-                                <span className="text-[8px] font-black text-gray-400 uppercase block mb-1">Reputation</span>
-                                <span className="text-xl font-black text-indigo-600 italic">{user.reputation}%</span>
-                            </div>
-                            <div className="p-6 bg-gray-50 dark:bg-white/5 rounded-[2rem] border dark:border-white/5">
-                                <span className="text-[8px] font-black text-gray-400 uppercase block mb-1">Vault</span>
-                                <span className="text-xl font-black text-indigo-600 italic">{formatINR(user.walletBalance)}</span>
-                            </div>
-                        </div>
+    const expiry = user.proExpiry ? new Date(user.proExpiry).toLocaleDateString() : null;
 
-                        {!user.isPro ? (
-                            <button onClick={upgradeToPro} className="w-full py-4 bg-gradient-to-r from-yellow-500 to-orange-500 text-black rounded-2xl font-black text-xs uppercase italic shadow-xl mb-4">Upgrade to Elite (₹999/yr)</button>
-                        ) : (
-                            <div className="px-4 py-2 bg-indigo-600/10 border border-indigo-600/20 rounded-xl text-indigo-600 text-[10px] font-black uppercase italic mb-4">Elite Pro Active</div>
-                        )}
+    return (
+        <div className="space-y-4 mb-4">
+            {state === 'grace' ? (
+                <>
+                    <div className="px-4 py-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-500 text-[10px] font-black uppercase italic">
+                        Elite Expired {expiry} · Benefits end {new Date(user.proExpiry! + GRACE_PERIOD).toLocaleDateString()}
                     </div>
-                    
-                    <button onClick={async () => { await logout(); setView({ page: 'home' }); }} className="w-full py-6 bg-red-500/10 text-red-500 rounded-[2rem] font-black text-sm uppercase italic border border-red-500/20">Terminate Link</button>
+                    {upgradeButton('Renew Elite')}
+                </>
+            ) : (
+                <div className="px-4 py-2 bg-indigo-600/10 border border-indigo-600/20 rounded-xl text-indigo-600 text-[10px] font-black uppercase italic">
+                    Elite Pro Active{expiry && ` · ${user.proAutoRenew ? 'Renews' : 'Ends'} ${expiry}`}
                 </div>
-                
-                <div className="lg:col-span-8 space-y-16">
-                    <div>
-                        <h3 className="text-4xl font-black dark:text-white italic uppercase tracking-tighter mb-10">Active Acquisitions.</h3>
-                        <div className="space-y-6">
-                            {purchases.length === 0 ? (
-                                <p className="text-gray-400 font-bold italic uppercase text-xs tracking-widest">No active codebases.</p>
-                            ) : (
-                                purchases.map(p => (
-                                    <div key={p.id} className="bg-white dark:bg-[#0a0a0a] p-8 rounded-[2.5rem] border dark:border-gray-800 flex items-center justify-between shadow-xl">
-                                        <div className="flex items-center space-x-6">
-                                            <div className="w-16 h-16 rounded-2xl overflow-hidden shadow-lg border dark:border-white/10">
-                                                <img src={p.previewImage} className="w-full h-full object-cover" />
-                                            </div>
-                                            <div>
-                                                <h4 className="text-xl font-black dark:text-white italic uppercase tracking-tighter">{p.title}</h4>
-                                                <span className={`text-[8px] font-black uppercase tracking-widest italic ${p.purchaseStatus === 'approved' ? 'text-green-500' : 'text-yellow-500'}`}>{p.purchaseStatus}</span>
-                                            </div>
-                                        </div>
-                                        <button onClick={() => setView({ page: 'product', id: p.id })} className="p-4 bg-gray-50 dark:bg-white/5 rounded-2xl dark:text-white hover:bg-indigo-600 hover:text-white transition-all">
-                                            <ChevronRightIcon className="w-5 h-5" />
-                                        </button>
-                                    </div>
-                                ))
-                            )}
-                        </div>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+                {[
+                    ['Saved Fees', formatINR(metrics.savedFees)],
+                    ['Rep Boost', `${metrics.reputationMultiplier}x`],
+                    ['Vault Level', `L${metrics.vaultAccessLevel}`],
+                    ['Priority Queue', metrics.priorityQueueActive ? 'On' : 'Off']
+                ].map(([label, value]) => (
+                    <div key={label} className="px-4 py-3 bg-gray-50 dark:bg-white/5 rounded-2xl border dark:border-white/5">
+                        <span className="text-[8px] font-black text-gray-400 uppercase block mb-1">{label}</span>
+                        <span className="text-sm font-black text-indigo-600 italic">{value}</span>
                     </div>
-                </div>
+                ))}
             </div>
+            {expiry && (
+                <button onClick={() => setProAutoRenew(!user.proAutoRenew)} className="w-full py-3 bg-gray-100 dark:bg-white/5 dark:text-white rounded-2xl font-black text-[10px] uppercase italic border dark:border-white/5">
+                    {user.proAutoRenew ? 'Cancel Auto-Renew' : 'Resume Auto-Renew'}
+                </button>
+            )}
         </div>
     );
 };
 
-const AdminDashboardPage = ({ setView }: { setView: (v: any) => void }) => {
-    const { user } = useAuth();
+const PayoutPanel = () => {
+    const { user, refreshUser } = useAuth();
     const { show } = useToast();
-    const [pendingProducts, setPendingProducts] = useState<Product[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
+    const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+    const [amount, setAmount] = useState('');
+    const [payoutDetails, setPayoutDetails] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
 
-    const loadPending = useCallback(async () => {
-        setIsLoading(true);
-        const all = await api.getAllProductsAdmin();
-        setPendingProducts(all.filter(p => !p.approved));
-        setIsLoading(false);
-    }, []);
+    const loadWithdrawals = useCallback(async () => {
+        if (!user) return;
+        setWithdrawals(await api.getWithdrawals(user.uid));
+    }, [user?.uid]);
 
-    useEffect(() => {
-        if (!user || user.role !== Role.ADMIN) {
-            setView({ page: 'home' });
-            return;
-        }
-        loadPending();
-    }, [user, loadPending, setView]);
+    useEffect(() => { loadWithdrawals(); }, [loadWithdrawals]);
 
-    const handleApprove = async (id: string) => {
-        try {
-            await api.approveProduct(id);
-            show("Node Authorized.", "success");
-            loadPending();
-        } catch (e: any) {
-            show("Authorization failure.", "error");
-        }
-    };
+    if (!user) return null;
 
-    const handleReject = async (id: string) => {
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
         try {
-            await api.rejectProduct(id);
-            show("Node Decommissioned.", "error");
-            loadPending();
+            await api.requestWithdrawal(user.uid, Number(amount), payoutDetails);
+            show("Payout request filed.", "success");
+            setAmount('');
+            await Promise.all([refreshUser(), loadWithdrawals()]);
         } catch (e: any) {
-            show("Decommission failure.", "error");
+            show(e.message || "Payout request failed.", "error");
+        } finally {
+            setIsSubmitting(false);
         }
     };
 
-    if (isLoading) return <div className="py-40"><SkeletonLoader count={1} /></div>;
-
     return (
-        <div className="container mx-auto px-4 py-32 md:py-48">
-            <div className="flex flex-col md:flex-row md:items-end justify-between mb-16 gap-6">
-                <div>
-                    <h1 className="text-5xl md:text-8xl font-black dark:text-white italic uppercase tracking-tighter">Audit Queue.</h1>
-                </div>
-                <div className="px-6 py-3 bg-white dark:bg-white/5 rounded-2xl border dark:border-white/5 flex items-center space-x-4 shadow-xl">
-                    <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Awaiting Clearance:</span>
-                    <span className="text-2xl font-black text-indigo-500 italic">{pendingProducts.length}</span>
+        <div className="bg-white dark:bg-[#0a0a0a] rounded-[3rem] p-10 border dark:border-gray-800 shadow-2xl space-y-6">
+            <h3 className="text-xl font-black dark:text-white italic uppercase tracking-tighter">Extract Earnings.</h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <input required type="number" min={MIN_WITHDRAWAL} placeholder={`Amount (min ${formatINR(MIN_WITHDRAWAL)})`} value={amount} onChange={e => setAmount(e.target.value)} className="w-full px-6 py-4 rounded-2xl bg-gray-50 dark:bg-white/5 dark:text-white font-bold italic outline-none focus:ring-2 focus:ring-indigo-600" />
+                <input required type="text" placeholder="UPI ID / Bank Reference" value={payoutDetails} onChange={e => setPayoutDetails(e.target.value)} className="w-full px-6 py-4 rounded-2xl bg-gray-50 dark:bg-white/5 dark:text-white font-bold italic outline-none focus:ring-2 focus:ring-indigo-600" />
+                <button type="submit" disabled={isSubmitting} className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-black text-xs uppercase italic shadow-xl disabled:opacity-60">Request Payout</button>
+            </form>
+            {withdrawals.length > 0 && (
+                <div className="space-y-3">
+                    {withdrawals.map(w => (
+                        <div key={w.id} className="flex items-center justify-between px-5 py-3 bg-gray-50 dark:bg-white/5 rounded-2xl border dark:border-white/5">
+                            <span className="text-xs font-black dark:text-white italic">{formatINR(w.amount)}</span>
+                            <span className={`text-[8px] font-black uppercase tracking-widest italic ${w.status === RequestStatus.APPROVED ? 'text-green-500' : w.status === RequestStatus.REJECTED ? 'text-red-500' : 'text-yellow-500'}`}>{w.status}</span>
+                        </div>
+                    ))}
                 </div>
-            </div>
+            )}
+        </div>
+    );
+};
 
-            <div className="bg-white dark:bg-[#0a0a0a] rounded-[3.5rem] border dark:border-gray-800 shadow-2xl overflow-hidden">
+// Seller-defined discounts on buying several of their live listings in one checkout
+const BundleManager = () => {
+    const { user } = useAuth();
+    const { show } = useToast();
+    const [listings, setListings] = useState<Product[]>([]);
+    const [bundles, setBundles] = useState<Bundle[]>([]);
+    const [title, setTitle] = useState('');
+    const [selected, setSelected] = useState<string[]>([]);
+    const [discount, setDiscount] = useState('10');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const loadBundles = useCallback(async () => {
+        if (!user) return;
+        setBundles(await api.getSellerBundles(user.uid));
+    }, [user?.uid]);
+
+    useEffect(() => {
+        if (!user) return;
+        api.getUserSubmissions(user.uid).then(products => setListings(products.filter(p => p.approved)));
+        loadBundles();
+    }, [loadBundles]);
+
+    if (!user || listings.length < MIN_BUNDLE_SIZE) return null;
+
+    const titles: Record<string, string> = Object.fromEntries(listings.map(p => [p.id, p.title]));
+    const toggle = (id: string) => setSelected(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        try {
+            await api.createBundle(user.uid, title, selected, Number(discount));
+            show("Bundle live.", "success");
+            setTitle('');
+            setSelected([]);
+            await loadBundles();
+        } catch (e: any) {
+            show(e.message || "Bundle creation failed.", "error");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleRetire = async (bundleId: string) => {
+        try {
+            await api.archiveBundle(user.uid, bundleId);
+            show("Bundle retired.");
+            await loadBundles();
+        } catch (e: any) {
+            show(e.message || "Retire failed.", "error");
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-[#0a0a0a] rounded-[3rem] p-10 border dark:border-gray-800 shadow-2xl space-y-6">
+            <h3 className="text-xl font-black dark:text-white italic uppercase tracking-tighter">Bundle Deals.</h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <input required type="text" placeholder="Bundle title" value={title} onChange={e => setTitle(e.target.value)} className="w-full px-6 py-4 rounded-2xl bg-gray-50 dark:bg-white/5 dark:text-white font-bold italic outline-none focus:ring-2 focus:ring-indigo-600" />
+                <div className="flex flex-wrap gap-2">
+                    {listings.map(p => (
+                        <button key={p.id} type="button" onClick={() => toggle(p.id)} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest italic border transition-all ${selected.includes(p.id) ? 'bg-indigo-600 border-indigo-600 text-white' : 'dark:text-white border-black/5 dark:border-white/10 hover:border-indigo-600'}`}>{p.title}</button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-3">
+                    <input required type="number" min={1} max={MAX_BUNDLE_DISCOUNT} value={discount} onChange={e => setDiscount(e.target.value)} className="w-24 px-6 py-4 rounded-2xl bg-gray-50 dark:bg-white/5 dark:text-white font-bold italic outline-none focus:ring-2 focus:ring-indigo-600" />
+                    <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest italic">% off each listing</span>
+                </div>
+                <button type="submit" disabled={isSubmitting || selected.length < MIN_BUNDLE_SIZE} className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-black text-xs uppercase italic shadow-xl disabled:opacity-60">Create Bundle</button>
+            </form>
+            {bundles.length > 0 && (
+                <div className="space-y-3">
+                    {bundles.map(b => (
+                        <div key={b.id} className="px-5 py-4 bg-gray-50 dark:bg-white/5 rounded-2xl border dark:border-white/5 space-y-2">
+                            <div className="flex items-center justify-between">
+                                <span className="text-xs font-black dark:text-white uppercase italic">{b.title} · −{b.discountPercent}%</span>
+                                <button onClick={() => handleRetire(b.id)} className="text-[8px] font-black text-red-500 uppercase tracking-widest italic hover:underline">Retire</button>
+                            </div>
+                            <p className="text-[10px] font-bold text-gray-400 uppercase italic">{b.productIds.map(id => titles[id] || 'Unlisted node').join(' + ')}</p>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const couponStatus = (coupon: Coupon): { label: string; style: string } => {
+    if (!coupon.active) return { label: 'Paused', style: 'text-gray-400' };
+    if (coupon.expiresAt && coupon.expiresAt <= Date.now()) return { label: 'Expired', style: 'text-red-500' };
+    if (coupon.maxRedemptions && coupon.redemptionCount >= coupon.maxRedemptions) return { label: 'Redeemed Out', style: 'text-yellow-500' };
+    return { label: 'Live', style: 'text-green-500' };
+};
+
+// Issue promo codes and see who redeemed them; site-wide codes are offered to admins only
+const CouponManager = () => {
+    const { user } = useAuth();
+    const { show } = useToast();
+    const [listings, setListings] = useState<Product[]>([]);
+    const [reports, setReports] = useState<CouponReport[]>([]);
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [form, setForm] = useState({ code: '', scope: 'seller' as CouponInput['scope'], productId: '', kind: 'percent' as CouponInput['kind'], value: '10', maxRedemptions: '', perUserLimit: '', expires: '' });
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const loadReports = useCallback(async () => {
+        if (!user) return;
+        setReports(await api.getCouponReport(user.uid));
+    }, [user?.uid]);
+
+    useEffect(() => {
+        if (!user) return;
+        api.getUserSubmissions(user.uid).then(products => setListings(products.filter(p => p.approved)));
+        loadReports();
+    }, [loadReports]);
+
+    const isAdmin = user?.role === Role.ADMIN;
+    if (!user || (!isAdmin && listings.length === 0)) return null;
+
+    const titles: Record<string, string> = Object.fromEntries(listings.map(p => [p.id, p.title]));
+    const scopes: CouponInput['scope'][] = isAdmin ? ['seller', 'product', 'site'] : ['seller', 'product'];
+    const optionalNumber = (value: string) => value ? Number(value) : undefined;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        try {
+            const coupon = await api.createCoupon(user.uid, {
+                code: form.code,
+                scope: form.scope,
+                kind: form.kind,
+                value: Number(form.value),
+                ...(form.scope === 'product' ? { productId: form.productId } : {}),
+                maxRedemptions: optionalNumber(form.maxRedemptions),
+                perUserLimit: optionalNumber(form.perUserLimit),
+                // Codes stay valid through the whole expiry day
+                expiresAt: form.expires ? new Date(`${form.expires}T23:59:59`).getTime() : undefined
+            });
+            show(`Code ${coupon.code} is live.`, "success");
+            setForm({ ...form, code: '', maxRedemptions: '', perUserLimit: '', expires: '' });
+            await loadReports();
+        } catch (e: any) {
+            show(e.message || "Coupon creation failed.", "error");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleToggle = async (coupon: Coupon) => {
+        try {
+            await api.setCouponActive(user.uid, coupon.id, !coupon.active);
+            show(coupon.active ? `Code ${coupon.code} paused.` : `Code ${coupon.code} resumed.`);
+            await loadReports();
+        } catch (e: any) {
+            show(e.message || "Coupon update failed.", "error");
+        }
+    };
+
+    const inputClass = "w-full px-6 py-4 rounded-2xl bg-gray-50 dark:bg-white/5 dark:text-white font-bold italic outline-none focus:ring-2 focus:ring-indigo-600";
+    const scopeLabel = (coupon: Coupon) => coupon.scope === 'site' ? 'Site-wide' : coupon.scope === 'seller' ? 'All listings' : titles[coupon.productId!] || 'One listing';
+
+    return (
+        <div className="bg-white dark:bg-[#0a0a0a] rounded-[3rem] p-10 border dark:border-gray-800 shadow-2xl space-y-6">
+            <h3 className="text-xl font-black dark:text-white italic uppercase tracking-tighter">Promo Codes.</h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <input required placeholder="CODE" value={form.code} onChange={e => setForm({ ...form, code: e.target.value.toUpperCase() })} className={`${inputClass} uppercase`} />
+                <div className="grid grid-cols-2 gap-2 p-1.5 bg-gray-100/50 dark:bg-white/5 rounded-2xl border border-black/5 dark:border-white/5">
+                    {(['percent', 'flat'] as const).map(kind => (
+                        <button key={kind} type="button" onClick={() => setForm({ ...form, kind })} className={`py-3 rounded-xl text-[10px] font-black uppercase tracking-widest italic ${form.kind === kind ? 'bg-white dark:bg-white/10 text-indigo-600 dark:text-indigo-400 shadow' : 'text-gray-500'}`}>
+                            {kind === 'percent' ? '% Off' : '₹ Off Each'}
+                        </button>
+                    ))}
+                </div>
+                <input required type="number" min={1} max={form.kind === 'percent' ? 100 : undefined} value={form.value} onChange={e => setForm({ ...form, value: e.target.value })} className={inputClass} />
+                <select value={form.scope} onChange={e => setForm({ ...form, scope: e.target.value as CouponInput['scope'] })} className={`${inputClass} uppercase text-xs`}>
+                    {scopes.map(scope => <option key={scope} value={scope}>{scope === 'seller' ? 'All my listings' : scope === 'product' ? 'One listing' : 'Site-wide (platform funded)'}</option>)}
+                </select>
+                {form.scope === 'product' && (
+                    <select required value={form.productId} onChange={e => setForm({ ...form, productId: e.target.value })} className={`${inputClass} text-xs`}>
+                        <option value="">Pick a listing</option>
+                        {listings.map(p => <option key={p.id} value={p.id}>{p.title}</option>)}
+                    </select>
+                )}
+                <div className="grid grid-cols-2 gap-3">
+                    <input type="number" min={1} placeholder="Total uses" value={form.maxRedemptions} onChange={e => setForm({ ...form, maxRedemptions: e.target.value })} className={inputClass} />
+                    <input type="number" min={1} placeholder="Per buyer" value={form.perUserLimit} onChange={e => setForm({ ...form, perUserLimit: e.target.value })} className={inputClass} />
+                </div>
+                <input type="date" aria-label="Expires on" value={form.expires} onChange={e => setForm({ ...form, expires: e.target.value })} className={inputClass} />
+                <button type="submit" disabled={isSubmitting} className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-black text-xs uppercase italic shadow-xl disabled:opacity-60">Issue Code</button>
+            </form>
+            {reports.length > 0 && (
+                <div className="space-y-3">
+                    {reports.map(({ coupon, redemptions, totalDiscount }) => {
+                        const status = couponStatus(coupon);
+                        return (
+                            <div key={coupon.id} className="px-5 py-4 bg-gray-50 dark:bg-white/5 rounded-2xl border dark:border-white/5 space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs font-black dark:text-white uppercase italic">{coupon.code}</span>
+                                    <span className={`text-[8px] font-black uppercase tracking-widest italic ${status.style}`}>{status.label}</span>
+                                </div>
+                                <p className="text-[10px] font-bold text-gray-400 uppercase italic">
+                                    {coupon.kind === 'percent' ? `${coupon.value}%` : formatINR(coupon.value)} off · {scopeLabel(coupon)}
+                                    {coupon.expiresAt ? ` · until ${new Date(coupon.expiresAt).toLocaleDateString()}` : ''}
+                                </p>
+                                <div className="flex items-center justify-between">
+                                    <button onClick={() => setExpanded(expanded === coupon.id ? null : coupon.id)} disabled={redemptions.length === 0} className="text-[10px] font-black text-indigo-500 uppercase tracking-widest italic disabled:text-gray-400">
+                                        {redemptions.length}{coupon.maxRedemptions ? `/${coupon.maxRedemptions}` : ''} used · {formatINR(totalDiscount)} given
+                                    </button>
+                                    <button onClick={() => handleToggle(coupon)} className="text-[8px] font-black text-gray-400 uppercase tracking-widest italic hover:text-indigo-500">{coupon.active ? 'Pause' : 'Resume'}</button>
+                                </div>
+                                {expanded === coupon.id && (
+                                    <div className="pt-2 border-t dark:border-white/5 space-y-1">
+                                        {redemptions.map(r => (
+                                            <div key={r.id} className="flex items-center justify-between text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase italic">
+                                                <span className="truncate">{r.userName} · {r.productTitle}</span>
+                                                <span className="shrink-0 ml-3">−{formatINR(r.discount)} · {new Date(r.createdAt).toLocaleDateString()}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const DISPUTE_STATUS_STYLES: Record<DisputeStatus, string> = {
+    [DisputeStatus.OPEN]: 'text-yellow-500',
+    [DisputeStatus.RESPONDED]: 'text-indigo-500',
+    [DisputeStatus.REFUNDED]: 'text-green-500',
+    [DisputeStatus.PARTIALLY_REFUNDED]: 'text-green-500',
+    [DisputeStatus.DENIED]: 'text-red-500'
+};
+
+const isDisputeOpen = (d: Dispute) => d.status === DisputeStatus.OPEN || d.status === DisputeStatus.RESPONDED;
+
+const DisputeForm = ({ productId, onFiled, onCancel }: { productId: string; onFiled: () => void; onCancel: () => void }) => {
+    const { user } = useAuth();
+    const { show } = useToast();
+    const [reason, setReason] = useState('');
+    const [evidence, setEvidence] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleEvidenceUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        if (file.size > MAX_PROOF_BYTES) return show("Evidence image must be under 500KB.", "error");
+        const reader = new FileReader();
+        reader.onload = () => setEvidence(reader.result as string);
+        reader.readAsDataURL(file);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+        setIsSubmitting(true);
+        try {
+            await api.openDispute(user.uid, productId, reason, evidence);
+            show("Dispute filed.", "success");
+            onFiled();
+        } catch (e: any) {
+            show(e.message || "Dispute failed.", "error");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="mt-6 space-y-4 border-t dark:border-white/5 pt-6">
+            <textarea required value={reason} onChange={e => setReason(e.target.value)} placeholder="What went wrong with this node?" className="w-full px-6 py-4 rounded-2xl bg-gray-50 dark:bg-white/5 dark:text-white text-sm font-medium italic outline-none focus:ring-2 focus:ring-indigo-600 min-h-[100px]" />
+            <input type="text" placeholder="Evidence: notes or a link" value={evidence.startsWith('data:') ? '' : evidence} onChange={e => setEvidence(e.target.value)} className="w-full px-6 py-4 rounded-2xl bg-gray-50 dark:bg-white/5 dark:text-white font-bold italic outline-none focus:ring-2 focus:ring-indigo-600" />
+            <label className="block w-full px-6 py-4 rounded-2xl border border-dashed dark:border-white/10 text-center text-[10px] font-black uppercase italic text-gray-400 cursor-pointer hover:border-indigo-600">
+                {evidence.startsWith('data:') ? 'Screenshot attached' : 'Upload Screenshot'}
+                <input type="file" accept="image/*" onChange={handleEvidenceUpload} className="hidden" />
+            </label>
+            <div className="flex justify-end space-x-3">
+                <button type="button" onClick={onCancel} className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-gray-600">Cancel</button>
+                <button disabled={isSubmitting} className="px-6 py-3 bg-red-500 text-white rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50">File Dispute</button>
+            </div>
+        </form>
+    );
+};
+
+const DisputeCard = ({ dispute, children }: React.PropsWithChildren<{ dispute: Dispute }>) => (
+    <div className="bg-white dark:bg-[#0a0a0a] p-8 rounded-[2.5rem] border dark:border-gray-800 shadow-xl space-y-4">
+        <div className="flex items-center justify-between gap-4">
+            <div>
+                <h4 className="text-lg font-black dark:text-white italic uppercase tracking-tighter">{dispute.productTitle}</h4>
+                <span className="text-[10px] font-bold text-gray-400 uppercase italic">{dispute.buyerName} · {formatINR(dispute.amountPaid)} · {new Date(dispute.createdAt).toLocaleDateString()}</span>
+            </div>
+            <span className={`text-[9px] font-black uppercase tracking-widest italic ${DISPUTE_STATUS_STYLES[dispute.status]}`}>{dispute.status.replace('_', ' ')}</span>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-300 font-medium whitespace-pre-wrap">{dispute.reason}</p>
+        {dispute.evidence && (dispute.evidence.startsWith('data:image') ? (
+            <a href={dispute.evidence} target="_blank" rel="noreferrer" className="block w-20 h-20 rounded-xl overflow-hidden border dark:border-white/10">
+                <img src={dispute.evidence} alt="Dispute evidence" className="w-full h-full object-cover" />
+            </a>
+        ) : (
+            <p className="text-xs font-mono text-gray-500 dark:text-gray-400 break-all">{dispute.evidence}</p>
+        ))}
+        {dispute.sellerResponse && (
+            <div className="p-4 bg-gray-50 dark:bg-white/5 rounded-2xl">
+                <span className="text-[9px] font-black text-gray-400 uppercase tracking-widest italic block mb-1">Seller Response</span>
+                <p className="text-sm dark:text-white font-medium whitespace-pre-wrap">{dispute.sellerResponse}</p>
+            </div>
+        )}
+        {dispute.resolvedAt && (
+            <p className="text-[10px] font-black text-gray-400 uppercase italic">
+                Resolved {new Date(dispute.resolvedAt).toLocaleDateString()}{dispute.refundAmount ? ` · ${formatINR(dispute.refundAmount)} refunded` : ''}{dispute.resolutionNote ? ` · ${dispute.resolutionNote}` : ''}
+            </p>
+        )}
+        {children}
+    </div>
+);
+
+const DisputeResponseForm = ({ dispute, onResponded }: { dispute: Dispute; onResponded: () => void }) => {
+    const { user } = useAuth();
+    const { show } = useToast();
+    const [response, setResponse] = useState(dispute.sellerResponse || '');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user) return;
+        try {
+            await api.respondToDispute(user.uid, dispute.id, response);
+            show("Response sent.", "success");
+            onResponded();
+        } catch (e: any) {
+            show(e.message || "Response failed.", "error");
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3">
+            <textarea required value={response} onChange={e => setResponse(e.target.value)} placeholder="Your side of the story..." className="w-full px-6 py-4 rounded-2xl bg-gray-50 dark:bg-white/5 dark:text-white text-sm font-medium italic outline-none focus:ring-2 focus:ring-indigo-600 min-h-[80px]" />
+            <div className="flex justify-end">
+                <button className="px-6 py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest">{dispute.sellerResponse ? 'Update Response' : 'Respond'}</button>
+            </div>
+        </form>
+    );
+};
+
+const DashboardPage = ({ setView }: { setView: (v: any) => void }) => {
+    const { user, logout } = useAuth();
+    const { show } = useToast();
+    const [purchases, setPurchases] = useState<PurchasedProduct[]>([]);
+    const [downloads, setDownloads] = useState<DownloadEvent[]>([]);
+    const [disputes, setDisputes] = useState<Dispute[]>([]);
+    const [disputeFor, setDisputeFor] = useState<string | null>(null);
+
+    const loadDisputes = useCallback(async () => {
+        if (user) setDisputes(await api.getDisputes(user.uid));
+    }, [user?.uid]);
+
+    useEffect(() => {
+        if (user) {
+            api.getUserPurchases(user.uid).then(setPurchases);
+            api.getDownloadHistory(user.uid).then(setDownloads);
+        }
+    }, [user]);
+
+    useEffect(() => { loadDisputes(); }, [loadDisputes]);
+
+    if (!user) return <LoginPage setView={setView} />;
+
+    const handleDownload = async (productId: string) => {
+        try {
+            const link = await api.downloadProduct(user.uid, productId);
+            window.open(link, '_blank', 'noopener');
+            setDownloads(await api.getDownloadHistory(user.uid));
+        } catch (e: any) {
+            show(e.message || "Retrieval failed.", "error");
+        }
+    };
+
+    return (
+        <div className="container mx-auto px-4 py-32 md:py-48">
+            <div className="grid grid-cols-1 lg:grid-cols-12 gap-16">
+                <div className="lg:col-span-4 space-y-12">
+                    <div className="bg-white dark:bg-[#0a0a0a] rounded-[3rem] p-12 border dark:border-gray-800 shadow-2xl text-center">
+                        <div className="w-32 h-32 bg-indigo-600 rounded-full mx-auto mb-8 flex items-center justify-center text-4xl font-black text-white shadow-2xl relative overflow-hidden">
+                            {user.avatar ? <img src={user.avatar} className="w-full h-full object-cover" /> : user.name[0]}
+                        </div>
+                        <h2 className="text-3xl font-black dark:text-white italic uppercase tracking-tighter mb-2">{user.name}</h2>
+                        <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest mb-8">{user.email}</p>
+                        
+                        <div className="grid grid-cols-2 gap-4 mb-8">
+                            <div className="p-6 bg-gray-50 dark:bg-white/5 rounded-[2rem] border dark:border-white/5">
+                                <span className="text-[8px] font-black text-gray-400 uppercase block mb-1">Reputation</span>
+                                <span className="text-xl font-black text-indigo-600 italic">{user.reputation}%</span>
+                            </div>
+                            <div className="p-6 bg-gray-50 dark:bg-white/5 rounded-[2rem] border dark:border-white/5">
+                                <span className="text-[8px] font-black text-gray-400 uppercase block mb-1">Vault</span>
+                                <span className="text-xl font-black text-indigo-600 italic">{formatINR(user.walletBalance)}</span>
+                            </div>
+                        </div>
+
+                        <ProMembership />
+                    </div>
+
+                    <PayoutPanel />
+
+                    <BundleManager />
+
+                    <CouponManager />
+                    
+                    <button onClick={async () => { await logout(); setView({ page: 'home' }); }} className="w-full py-6 bg-red-500/10 text-red-500 rounded-[2rem] font-black text-sm uppercase italic border border-red-500/20">Terminate Link</button>
+                </div>
+                
+                <div className="lg:col-span-8 space-y-16">
+                    <div>
+                        <h3 className="text-4xl font-black dark:text-white italic uppercase tracking-tighter mb-10">Active Acquisitions.</h3>
+                        <div className="space-y-6">
+                            {purchases.length === 0 ? (
+                                <p className="text-gray-400 font-bold italic uppercase text-xs tracking-widest">No active codebases.</p>
+                            ) : (
+                                purchases.map(p => {
+                                    const canDispute = p.purchaseStatus === RequestStatus.APPROVED
+                                        && !!p.approvedAt && Date.now() - p.approvedAt <= DISPUTE_WINDOW
+                                        && !disputes.some(d => d.productId === p.id && d.buyerId === user.uid);
+                                    return (
+                                        <div key={p.id} className="bg-white dark:bg-[#0a0a0a] p-8 rounded-[2.5rem] border dark:border-gray-800 shadow-xl">
+                                            <div className="flex items-center justify-between">
+                                                <div className="flex items-center space-x-6">
+                                                    <div className="w-16 h-16 rounded-2xl overflow-hidden shadow-lg border dark:border-white/10">
+                                                        <img src={p.previewImage} className="w-full h-full object-cover" />
+                                                    </div>
+                                                    <div>
+                                                        <h4 className="text-xl font-black dark:text-white italic uppercase tracking-tighter">{p.title}</h4>
+                                                        <span className={`text-[8px] font-black uppercase tracking-widest italic ${p.purchaseStatus === 'approved' ? 'text-green-500' : 'text-yellow-500'}`}>{p.purchaseStatus}</span>
+                                                    </div>
+                                                </div>
+                                                <div className="flex items-center space-x-3">
+                                                    {canDispute && disputeFor !== p.id && (
+                                                        <button onClick={() => setDisputeFor(p.id)} className="px-4 py-4 text-[9px] font-black uppercase tracking-widest text-red-500 rounded-2xl border border-red-500/20 hover:bg-red-500 hover:text-white transition-all">Dispute</button>
+                                                    )}
+                                                    {p.purchaseStatus === RequestStatus.APPROVED && (
+                                                        <button onClick={() => handleDownload(p.id)} className="p-4 bg-green-500/10 text-green-500 rounded-2xl border border-green-500/20 hover:bg-green-500 hover:text-white transition-all" title="Download">
+                                                            <ArrowDownTrayIcon className="w-5 h-5" />
+                                                        </button>
+                                                    )}
+                                                    <button onClick={() => setView({ page: 'product', id: p.id })} className="p-4 bg-gray-50 dark:bg-white/5 rounded-2xl dark:text-white hover:bg-indigo-600 hover:text-white transition-all">
+                                                        <ChevronRightIcon className="w-5 h-5" />
+                                                    </button>
+                                                </div>
+                                            </div>
+                                            {disputeFor === p.id && (
+                                                <DisputeForm productId={p.id} onCancel={() => setDisputeFor(null)} onFiled={() => { setDisputeFor(null); loadDisputes(); }} />
+                                            )}
+                                        </div>
+                                    );
+                                })
+                            )}
+                        </div>
+                    </div>
+
+                    {disputes.length > 0 && (
+                        <div>
+                            <h3 className="text-4xl font-black dark:text-white italic uppercase tracking-tighter mb-10">Disputes.</h3>
+                            <div className="space-y-6">
+                                {disputes.map(d => (
+                                    <DisputeCard key={d.id} dispute={d}>
+                                        {d.sellerId === user.uid && isDisputeOpen(d) && <DisputeResponseForm dispute={d} onResponded={loadDisputes} />}
+                                    </DisputeCard>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <div>
+                        <h3 className="text-4xl font-black dark:text-white italic uppercase tracking-tighter mb-10">Retrieval Log.</h3>
+                        {downloads.length === 0 ? (
+                            <p className="text-gray-400 font-bold italic uppercase text-xs tracking-widest">No retrievals recorded.</p>
+                        ) : (
+                            <div className="bg-white dark:bg-[#0a0a0a] rounded-[2.5rem] border dark:border-gray-800 shadow-xl divide-y dark:divide-white/5">
+                                {downloads.map(d => (
+                                    <div key={d.id} className="px-8 py-5 flex items-center justify-between">
+                                        <span className="text-sm font-black dark:text-white uppercase italic">{d.productTitle}</span>
+                                        <span className="text-[10px] font-bold text-gray-400 uppercase italic">{new Date(d.createdAt).toLocaleString()}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+type AdminTab = 'products' | 'revisions' | 'purchases' | 'payouts' | 'disputes';
+
+const formatDuration = (ms: number) => {
+    const minutes = Math.floor(Math.abs(ms) / 60000);
+    const days = Math.floor(minutes / 1440), hours = Math.floor((minutes % 1440) / 60);
+    if (days > 0) return `${days}d ${hours}h`;
+    return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+// Ticks every minute so the queue shows breaches without a reload
+const SlaTimer = ({ product }: { product: Product }) => {
+    const [now, setNow] = useState(Date.now());
+    useEffect(() => {
+        const id = setInterval(() => setNow(Date.now()), 60000);
+        return () => clearInterval(id);
+    }, []);
+    const { remaining, breached } = slaStatus(product, now);
+    const warning = !breached && remaining < 6 * 3600000;
+    return (
+        <span className={`inline-flex items-center space-x-2 text-[10px] font-black uppercase italic whitespace-nowrap ${breached ? 'text-red-500' : warning ? 'text-yellow-500' : 'text-gray-400'}`}>
+            <ClockIcon className="w-4 h-4" />
+            <span>{breached ? `Overdue ${formatDuration(remaining)}` : `${formatDuration(remaining)} left`}</span>
+        </span>
+    );
+};
+
+const DisputeResolver = ({ dispute, onResolve }: { dispute: Dispute; onResolve: (resolution: 'full' | 'partial' | 'deny', amount?: number, note?: string) => void }) => {
+    const [partial, setPartial] = useState('');
+    const [note, setNote] = useState('');
+
+    return (
+        <div className="space-y-3 border-t dark:border-white/5 pt-4">
+            <input type="text" value={note} onChange={e => setNote(e.target.value)} placeholder="Resolution note (shared with both parties)" className="w-full px-6 py-3 rounded-2xl bg-gray-50 dark:bg-white/5 dark:text-white text-xs font-bold italic outline-none focus:ring-2 focus:ring-indigo-600" />
+            <div className="flex flex-wrap items-center gap-3">
+                <button onClick={() => onResolve('full', undefined, note)} className="px-5 py-3 bg-green-500/10 text-green-500 rounded-xl text-[10px] font-black uppercase tracking-widest border border-green-500/20 hover:bg-green-500 hover:text-white transition-all">Full Refund ({formatINR(dispute.amountPaid)})</button>
+                <div className="flex items-center gap-2">
+                    <input type="number" min={1} max={dispute.amountPaid - 1} value={partial} onChange={e => setPartial(e.target.value)} placeholder="₹" aria-label="Partial refund amount" className="w-24 px-4 py-3 rounded-xl bg-gray-50 dark:bg-white/5 dark:text-white text-xs font-bold outline-none" />
+                    <button disabled={!partial} onClick={() => onResolve('partial', Number(partial), note)} className="px-5 py-3 bg-indigo-600/10 text-indigo-600 rounded-xl text-[10px] font-black uppercase tracking-widest border border-indigo-600/20 hover:bg-indigo-600 hover:text-white transition-all disabled:opacity-40">Partial</button>
+                </div>
+                <button onClick={() => onResolve('deny', undefined, note)} className="px-5 py-3 bg-red-500/10 text-red-500 rounded-xl text-[10px] font-black uppercase tracking-widest border border-red-500/20 hover:bg-red-500 hover:text-white transition-all">Deny</button>
+            </div>
+        </div>
+    );
+};
+
+const LEDGER_PAGE_SIZE = 10;
+const LEDGER_TYPES: Transaction['type'][] = ['deposit', 'purchase', 'sale', 'withdrawal', 'subscription', 'refund'];
+
+const escapeHtml = (text: string) =>
+    text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const downloadFile = (filename: string, content: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// Opens a plain, print-styled statement; the browser's print dialog saves it as PDF
+const printStatement = (statement: Statement, user: User) => {
+    const win = window.open('', '_blank');
+    if (!win) return false;
+    const rows = statement.entries.map(e => `
+        <tr>
+            <td>${new Date(e.createdAt).toLocaleDateString()}</td>
+            <td>${escapeHtml(e.type)}</td>
+            <td>${escapeHtml(e.description)}</td>
+            <td>${escapeHtml(e.referenceId || e.id)}</td>
+            <td class="num">${formatINR(e.amount)}</td>
+            <td class="num">${formatINR(e.balanceAfter)}</td>
+        </tr>`).join('');
+    win.document.write(`<!DOCTYPE html>
+<html><head><title>Codastra statement ${statement.month}</title>
+<style>
+    body { font-family: system-ui, sans-serif; color: #111; margin: 40px; }
+    h1 { margin: 0 0 4px; font-size: 20px; }
+    p { margin: 2px 0; font-size: 12px; color: #555; }
+    table { width: 100%; border-collapse: collapse; margin-top: 24px; font-size: 12px; }
+    th, td { border-bottom: 1px solid #ddd; padding: 6px 8px; text-align: left; }
+    .num { text-align: right; white-space: nowrap; }
+    .summary td { font-weight: bold; border-bottom: none; }
+</style></head>
+<body>
+    <h1>Codastra Vault Statement &middot; ${statement.month}</h1>
+    <p>${escapeHtml(user.name)} &lt;${escapeHtml(user.email)}&gt; &middot; Account ${escapeHtml(user.uid)}</p>
+    <p>Generated ${new Date().toLocaleString()}</p>
+    <table>
+        <thead><tr><th>Date</th><th>Type</th><th>Description</th><th>Reference</th><th class="num">Amount</th><th class="num">Balance</th></tr></thead>
+        <tbody>
+            <tr class="summary"><td colspan="5">Opening balance</td><td class="num">${formatINR(statement.openingBalance)}</td></tr>
+            ${rows}
+        </tbody>
+        <tfoot>
+            <tr class="summary"><td colspan="5">Total credits</td><td class="num">${formatINR(statement.credits)}</td></tr>
+            <tr class="summary"><td colspan="5">Total debits</td><td class="num">${formatINR(statement.debits)}</td></tr>
+            <tr class="summary"><td colspan="5">Closing balance</td><td class="num">${formatINR(statement.closingBalance)}</td></tr>
+        </tfoot>
+    </table>
+</body></html>`);
+    win.document.close();
+    win.focus();
+    win.print();
+    return true;
+};
+
+const newIdempotencyKey = () => crypto.randomUUID();
+
+const TopUpPanel = () => {
+    const { user, refreshUser } = useAuth();
+    const { show } = useToast();
+    const [amount, setAmount] = useState('');
+    const [method, setMethod] = useState<string>(SANDBOX_METHODS.success);
+    const [orders, setOrders] = useState<PaymentOrder[]>([]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    // Kept until the order is handed to the gateway, so a double submit reuses the same order
+    const [idempotencyKey, setIdempotencyKey] = useState(newIdempotencyKey);
+
+    useEffect(() => {
+        if (!user) return;
+        return api.subscribeTopUps(user.uid, (next) => {
+            setOrders(next);
+            refreshUser();
+        });
+    }, [user?.uid]);
+
+    if (!user) return null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (isSubmitting) return;
+        setIsSubmitting(true);
+        try {
+            const order = await api.createTopUpOrder(user.uid, Number(amount), idempotencyKey);
+            await api.confirmTopUp(user.uid, order.id, method);
+            setIdempotencyKey(newIdempotencyKey());
+            setAmount('');
+            show("Payment sent. Awaiting gateway confirmation.", "success");
+        } catch (e: any) {
+            show(e.message || "Top-up failed.", "error");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const statusStyles: Record<PaymentOrder['status'], string> = {
+        pending: 'text-yellow-500',
+        paid: 'text-green-500',
+        failed: 'text-red-500',
+        refunded: 'text-gray-400'
+    };
+
+    return (
+        <div className="bg-white dark:bg-[#0a0a0a] rounded-[3rem] p-10 border dark:border-gray-800 shadow-2xl space-y-6">
+            <h3 className="text-xl font-black dark:text-white italic uppercase tracking-widest">Top Up.</h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <input type="number" required min={1} value={amount} onChange={e => setAmount(e.target.value)} placeholder="Amount (₹)" className="w-full px-6 py-4 rounded-2xl bg-gray-50 dark:bg-white/5 dark:text-white font-bold italic outline-none focus:ring-2 focus:ring-indigo-600" />
+                {paymentProvider.name === 'sandbox' && (
+                    <select value={method} onChange={e => setMethod(e.target.value)} aria-label="Sandbox outcome" className="w-full px-6 py-4 rounded-2xl bg-gray-50 dark:bg-white/5 dark:text-white font-black uppercase text-xs italic outline-none">
+                        <option value={SANDBOX_METHODS.success} className="bg-white dark:bg-[#0a0a0a]">Sandbox: Success</option>
+                        <option value={SANDBOX_METHODS.failure} className="bg-white dark:bg-[#0a0a0a]">Sandbox: Declined</option>
+                        <option value={SANDBOX_METHODS.delayed} className="bg-white dark:bg-[#0a0a0a]">Sandbox: Delayed</option>
+                    </select>
+                )}
+                <button disabled={isSubmitting} className="w-full py-4 bg-indigo-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest italic disabled:opacity-50">{isSubmitting ? 'Contacting Gateway...' : 'Add Funds'}</button>
+            </form>
+            {orders.length > 0 && (
+                <div className="space-y-2">
+                    {orders.map(o => (
+                        <div key={o.id} className="flex items-center justify-between text-[10px] font-black uppercase italic">
+                            <span className="dark:text-white">{formatINR(o.amount)} · {new Date(o.createdAt).toLocaleDateString()}</span>
+                            <span className={statusStyles[o.status]} title={o.failureReason}>{o.status}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const WalletPage = ({ setView }: { setView: (v: any) => void }) => {
+    const { user } = useAuth();
+    const { show } = useToast();
+    const [entries, setEntries] = useState<LedgerEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [types, setTypes] = useState<Transaction['type'][]>([]);
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+    const [page, setPage] = useState(0);
+    const [statementMonth, setStatementMonth] = useState('');
+
+    useEffect(() => {
+        if (!user) return;
+        setIsLoading(true);
+        api.getWalletLedger(user.uid).then(data => {
+            setEntries(data);
+            setIsLoading(false);
+        });
+    }, [user?.uid, user?.walletBalance]);
+
+    const filtered = useMemo(() => filterLedger(entries, {
+        types,
+        from: fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : undefined,
+        // Date inputs are inclusive, so stop at the start of the following day
+        to: toDate ? new Date(`${toDate}T00:00:00`).getTime() + 86400000 : undefined
+    }), [entries, types, fromDate, toDate]);
+
+    const months = useMemo(() => statementMonths(entries), [entries]);
+
+    useEffect(() => { setPage(0); }, [types, fromDate, toDate]);
+    useEffect(() => { if (!statementMonth && months.length) setStatementMonth(months[0]); }, [months]);
+
+    if (!user) return <LoginPage setView={setView} redirect={{ page: 'wallet' }} />;
+
+    const pageCount = Math.max(1, Math.ceil(filtered.length / LEDGER_PAGE_SIZE));
+    const visible = filtered.slice(page * LEDGER_PAGE_SIZE, (page + 1) * LEDGER_PAGE_SIZE);
+
+    const toggleType = (type: Transaction['type']) =>
+        setTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+
+    const handleExport = (format: 'csv' | 'pdf') => {
+        if (!statementMonth) return;
+        const statement = buildStatement(entries, statementMonth);
+        if (format === 'csv') downloadFile(`codastra-statement-${statementMonth}.csv`, statementToCsv(statement), 'text/csv');
+        else if (!printStatement(statement, user)) show("Allow pop-ups to print statements.", "error");
+    };
+
+    return (
+        <div className="container mx-auto px-4 py-32 md:py-48">
+            <div className="flex flex-col lg:flex-row lg:items-end justify-between gap-8 mb-16">
+                <div>
+                    <h1 className="text-6xl md:text-8xl font-black dark:text-white italic uppercase tracking-tighter leading-none">Vault.</h1>
+                    <p className="text-xs font-bold text-gray-400 uppercase tracking-widest italic mt-4">Ledger for {user.email}</p>
+                </div>
+                <div className="bg-indigo-600 text-white rounded-[2.5rem] px-10 py-8 shadow-2xl">
+                    <span className="text-[10px] font-black uppercase tracking-widest italic opacity-70 block">Available Balance</span>
+                    <span className="text-4xl md:text-5xl font-black italic">{formatINR(user.walletBalance)}</span>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-12 gap-12">
+                <div className="lg:col-span-8 space-y-8">
+                    <div className="bg-white dark:bg-[#0a0a0a] rounded-[2.5rem] border dark:border-gray-800 shadow-xl p-6 flex flex-col md:flex-row md:items-center gap-6">
+                        <div className="flex flex-wrap gap-2">
+                            {LEDGER_TYPES.map(type => (
+                                <button key={type} onClick={() => toggleType(type)} className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest italic border transition-all ${types.includes(type) ? 'bg-indigo-600 border-indigo-600 text-white' : 'dark:text-white border-black/5 dark:border-white/10 hover:border-indigo-600'}`}>{type}</button>
+                            ))}
+                        </div>
+                        <div className="flex items-center gap-3 md:ml-auto">
+                            <input type="date" aria-label="From date" value={fromDate} onChange={e => setFromDate(e.target.value)} className="px-4 py-2 rounded-xl bg-gray-50 dark:bg-white/5 dark:text-white text-xs font-bold outline-none" />
+                            <span className="text-[10px] font-black text-gray-400 uppercase">to</span>
+                            <input type="date" aria-label="To date" value={toDate} onChange={e => setToDate(e.target.value)} className="px-4 py-2 rounded-xl bg-gray-50 dark:bg-white/5 dark:text-white text-xs font-bold outline-none" />
+                        </div>
+                    </div>
+
+                    <div className="bg-white dark:bg-[#0a0a0a] rounded-[3rem] border dark:border-gray-800 shadow-2xl overflow-hidden">
+                        {isLoading ? <div className="p-10"><SkeletonLoader count={1} /></div> : visible.length === 0 ? (
+                            <p className="py-24 text-center text-sm font-black text-gray-400 uppercase tracking-widest italic">No ledger entries match.</p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-left">
+                                    <thead className="border-b dark:border-white/5">
+                                        <tr className="bg-gray-50/50 dark:bg-white/5">
+                                            <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Date</th>
+                                            <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Entry</th>
+                                            <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic text-right">Amount</th>
+                                            <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic text-right">Balance</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y dark:divide-white/5">
+                                        {visible.map(e => (
+                                            <tr key={e.id} className="hover:bg-gray-50/30 dark:hover:bg-white/[0.02] transition-colors">
+                                                <td className="px-8 py-6 text-[10px] font-bold text-gray-400 uppercase italic whitespace-nowrap">{new Date(e.createdAt).toLocaleDateString()}</td>
+                                                <td className="px-8 py-6">
+                                                    <span className="font-bold dark:text-white text-sm block">{e.description}</span>
+                                                    <span className="text-[9px] font-black text-indigo-600 uppercase tracking-widest italic">{e.type}</span>
+                                                </td>
+                                                <td className={`px-8 py-6 text-right font-black italic whitespace-nowrap ${e.amount >= 0 ? 'text-green-500' : 'text-red-500'}`}>{e.amount >= 0 ? '+' : ''}{formatINR(e.amount)}</td>
+                                                <td className="px-8 py-6 text-right font-black dark:text-white italic whitespace-nowrap">{formatINR(e.balanceAfter)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+
+                    {pageCount > 1 && (
+                        <div className="flex items-center justify-center space-x-6">
+                            <button disabled={page === 0} onClick={() => setPage(page - 1)} className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest border dark:border-white/10 dark:text-white disabled:opacity-30">Prev</button>
+                            <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Page {page + 1} / {pageCount}</span>
+                            <button disabled={page >= pageCount - 1} onClick={() => setPage(page + 1)} className="px-6 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest border dark:border-white/10 dark:text-white disabled:opacity-30">Next</button>
+                        </div>
+                    )}
+                </div>
+
+                <div className="lg:col-span-4 space-y-8">
+                    <TopUpPanel />
+                    <div className="bg-white dark:bg-[#0a0a0a] rounded-[3rem] p-10 border dark:border-gray-800 shadow-2xl space-y-6">
+                        <h3 className="text-xl font-black dark:text-white italic uppercase tracking-widest">Statements.</h3>
+                        {months.length === 0 ? (
+                            <p className="text-xs font-bold text-gray-400 uppercase italic">No activity to report yet.</p>
+                        ) : (
+                            <>
+                                <select value={statementMonth} onChange={e => setStatementMonth(e.target.value)} className="w-full px-6 py-4 rounded-2xl bg-gray-50 dark:bg-white/5 dark:text-white font-black uppercase text-xs italic outline-none">
+                                    {months.map(m => (
+                                        <option key={m} value={m} className="bg-white dark:bg-[#0a0a0a]">{new Date(`${m}-01T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}</option>
+                                    ))}
+                                </select>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <button onClick={() => handleExport('csv')} className="py-4 bg-indigo-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest italic flex items-center justify-center space-x-2"><ArrowDownTrayIcon className="w-4 h-4" /><span>CSV</span></button>
+                                    <button onClick={() => handleExport('pdf')} className="py-4 border border-indigo-600/30 text-indigo-600 rounded-2xl text-[10px] font-black uppercase tracking-widest italic">Print / PDF</button>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const ANALYTICS_METRICS: { id: AnalyticsMetric; label: string; format: (value: number) => string }[] = [
+    { id: 'views', label: 'Views', format: v => v.toLocaleString() },
+    { id: 'sales', label: 'Sales', format: v => v.toLocaleString() },
+    { id: 'downloads', label: 'Downloads', format: v => v.toLocaleString() },
+    { id: 'revenue', label: 'Revenue', format: formatINR }
+];
+
+const LISTING_STATE_STYLES: Record<ListingState, string> = {
+    approved: 'bg-green-500/10 text-green-500 border-green-500/20',
+    pending: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
+    rejected: 'bg-red-500/10 text-red-500 border-red-500/20'
+};
+
+// One bar per day; refunds can push a revenue day below zero, which shows in red
+const TrendChart = ({ series, metric, format }: { series: DailyPoint[]; metric: AnalyticsMetric; format: (value: number) => string }) => {
+    const max = Math.max(1, ...series.map(p => Math.abs(p[metric])));
+    return (
+        <div className="space-y-3">
+            <div className="flex items-end gap-1 h-56">
+                {series.map(point => (
+                    <div key={point.day} title={`${point.day}: ${format(point[metric])}`} className="flex-1 h-full flex items-end group">
+                        <div className={`w-full rounded-t-md transition-colors ${point[metric] < 0 ? 'bg-red-500' : 'bg-indigo-600 group-hover:bg-indigo-400'}`} style={{ height: `${Math.max(2, Math.abs(point[metric]) / max * 100)}%` }} />
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-between text-[10px] font-bold text-gray-400 uppercase italic">
+                <span>{series[0]?.day}</span>
+                <span>{series[series.length - 1]?.day}</span>
+            </div>
+        </div>
+    );
+};
+
+const SellerWorkspacePage = ({ setView }: { setView: (v: any) => void }) => {
+    const { user } = useAuth();
+    const [days, setDays] = useState(30);
+    const [metric, setMetric] = useState<AnalyticsMetric>('views');
+    const [analytics, setAnalytics] = useState<SellerAnalytics | null>(null);
+
+    useEffect(() => {
+        if (!user) return;
+        let stale = false;
+        api.getSellerAnalytics(user.uid, days).then(result => {
+            if (!stale) setAnalytics(result);
+        });
+        return () => { stale = true; };
+    }, [user?.uid, days]);
+
+    if (!user) return <LoginPage setView={setView} redirect={{ page: 'workspace' }} />;
+
+    const handleExport = () => {
+        if (analytics) downloadFile(`codastra-workspace-${dayKey(Date.now())}.csv`, analyticsToCsv(analytics), 'text/csv');
+    };
+
+    const activeMetric = ANALYTICS_METRICS.find(m => m.id === metric)!;
+
+    return (
+        <div className="container mx-auto px-4 py-32 md:py-48 space-y-12">
+            <div className="flex flex-col md:flex-row md:items-end justify-between gap-6">
+                <div>
+                    <h1 className="text-5xl md:text-7xl font-black dark:text-white italic uppercase tracking-tighter mb-4">Seller Workspace.</h1>
+                    <p className="text-xs font-bold text-gray-400 uppercase tracking-widest italic">Every node you have deployed, and how it performs.</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                    {ANALYTICS_RANGES.map(range => (
+                        <button key={range} onClick={() => setDays(range)} className={`px-5 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest italic transition-all border ${days === range ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg' : 'bg-white dark:bg-white/5 dark:text-white border-black/5 dark:border-white/5 hover:border-indigo-600'}`}>{range} Days</button>
+                    ))}
+                    <button onClick={handleExport} disabled={!analytics} className="px-5 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest italic border border-indigo-500/20 text-indigo-500 hover:bg-indigo-500/10 transition-all disabled:opacity-40 flex items-center space-x-2">
+                        <ArrowDownTrayIcon className="w-4 h-4" />
+                        <span>Export CSV</span>
+                    </button>
+                </div>
+            </div>
+
+            {!analytics ? <SkeletonLoader count={1} /> : (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-6">
+                        {ANALYTICS_METRICS.map(m => (
+                            <button key={m.id} onClick={() => setMetric(m.id)} className={`p-6 rounded-[2rem] border text-left transition-all ${metric === m.id ? 'bg-indigo-600 border-indigo-600 text-white shadow-2xl' : 'bg-white dark:bg-[#0a0a0a] dark:border-gray-800 dark:text-white hover:border-indigo-600'}`}>
+                                <span className={`text-[10px] font-black uppercase tracking-widest italic block mb-2 ${metric === m.id ? 'text-white/70' : 'text-gray-400'}`}>{m.label}</span>
+                                <span className="text-2xl font-black italic">{m.format(analytics.totals[m.id])}</span>
+                            </button>
+                        ))}
+                        <div className="p-6 rounded-[2rem] border bg-white dark:bg-[#0a0a0a] dark:border-gray-800">
+                            <span className="text-[10px] font-black uppercase tracking-widest italic block mb-2 text-gray-400">Conversion</span>
+                            <span className="text-2xl font-black italic dark:text-white">{analytics.conversionRate}%</span>
+                        </div>
+                    </div>
+
+                    <div className="bg-white dark:bg-[#0a0a0a] rounded-[3rem] p-10 border dark:border-gray-800 shadow-2xl space-y-6">
+                        <h3 className="text-xl font-black dark:text-white italic uppercase tracking-tighter">{activeMetric.label} · Last {days} Days.</h3>
+                        <TrendChart series={analytics.series} metric={metric} format={activeMetric.format} />
+                    </div>
+
+                    <div className="bg-white dark:bg-[#0a0a0a] rounded-[3.5rem] border dark:border-gray-800 shadow-2xl overflow-hidden">
+                        {analytics.listings.length === 0 ? (
+                            <div className="py-32 text-center space-y-6">
+                                <p className="text-sm font-black text-gray-400 uppercase tracking-widest italic">No nodes deployed yet.</p>
+                                <button onClick={() => setView({ page: 'sell' })} className="px-10 py-5 bg-indigo-600 text-white rounded-full font-black text-xs uppercase tracking-widest italic shadow-2xl hover:scale-105 transition-transform">Deploy Asset</button>
+                            </div>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-left">
+                                    <thead className="border-b dark:border-white/5">
+                                        <tr className="bg-gray-50/50 dark:bg-white/5">
+                                            {['Node', 'Status', 'Views', 'Sales', 'Conversion', 'Downloads', 'Revenue', ''].map(label => (
+                                                <th key={label} className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">{label}</th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y dark:divide-white/5">
+                                        {analytics.listings.map(l => (
+                                            <tr key={l.product.id} className="hover:bg-gray-50/30 dark:hover:bg-white/[0.02] transition-colors">
+                                                <td className="px-8 py-6 flex items-center space-x-4">
+                                                    <div className="w-12 h-12 rounded-xl overflow-hidden shadow-lg border dark:border-white/10 shrink-0">
+                                                        <img src={l.product.previewImage} alt={l.product.title} className="w-full h-full object-cover" />
+                                                    </div>
+                                                    <div>
+                                                        <span className="font-black dark:text-white uppercase italic block">{l.product.title}</span>
+                                                        <span className="text-[10px] font-bold text-gray-400 uppercase italic">v{currentVersion(l.product)} · {formatINR(l.product.price)}</span>
+                                                    </div>
+                                                </td>
+                                                <td className="px-8 py-6">
+                                                    <span className={`px-3 py-1 rounded-full border text-[9px] font-black uppercase tracking-widest italic ${LISTING_STATE_STYLES[l.state]}`}>{l.state}</span>
+                                                    {l.hasPendingUpdate && <span className="block mt-2 text-[9px] font-black text-yellow-500 uppercase tracking-widest italic">Update pending</span>}
+                                                </td>
+                                                <td className="px-8 py-6 font-black dark:text-white italic">{l.views.toLocaleString()}</td>
+                                                <td className="px-8 py-6 font-black dark:text-white italic">{l.sales.toLocaleString()}</td>
+                                                <td className="px-8 py-6 font-black text-indigo-500 italic">{l.conversionRate}%</td>
+                                                <td className="px-8 py-6 font-black dark:text-white italic">{l.downloads.toLocaleString()}</td>
+                                                <td className="px-8 py-6 font-black dark:text-white italic whitespace-nowrap">{formatINR(l.revenue)}</td>
+                                                <td className="px-8 py-6">
+                                                    <button onClick={() => setView({ page: 'product', id: l.product.id })} className="p-3 bg-gray-100 dark:bg-white/5 rounded-xl dark:text-white"><ChevronRightIcon className="w-5 h-5" /></button>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+const EMAIL_PREFERENCES: { key: keyof NotificationSettings; label: string; description: string }[] = [
+    { key: 'emailNotifyApproval', label: 'Approvals', description: 'Listing moderation results and payment verification decisions.' },
+    { key: 'emailNotifyReview', label: 'Reviews', description: 'A verified buyer audits one of your nodes.' },
+    { key: 'emailNotifyPurchase', label: 'Sales', description: 'Someone acquires one of your nodes.' }
+];
+
+const SettingsPage = ({ setView }: { setView: (v: any) => void }) => {
+    const { user, updateNotificationSettings } = useAuth();
+    const [isSaving, setIsSaving] = useState<keyof NotificationSettings | null>(null);
+
+    if (!user) return <LoginPage setView={setView} redirect={{ page: 'settings' }} />;
+
+    const settings: NotificationSettings = {
+        emailNotifyApproval: false,
+        emailNotifyReview: false,
+        emailNotifyPurchase: false,
+        ...user.notificationSettings
+    };
+
+    const handleToggle = async (key: keyof NotificationSettings) => {
+        setIsSaving(key);
+        await updateNotificationSettings({ ...settings, [key]: !settings[key] });
+        setIsSaving(null);
+    };
+
+    return (
+        <div className="container mx-auto px-4 py-32 md:py-48 max-w-3xl">
+            <h1 className="text-5xl md:text-7xl font-black dark:text-white italic uppercase tracking-tighter mb-4">Signal Prefs.</h1>
+            <p className="text-xs font-bold text-gray-400 uppercase tracking-widest italic mb-12">Emails go to {user.email}. In-app signals are always on.</p>
+            <div className="bg-white dark:bg-[#0a0a0a] rounded-[3rem] border dark:border-gray-800 shadow-2xl divide-y dark:divide-white/5">
+                {EMAIL_PREFERENCES.map(pref => (
+                    <div key={pref.key} className="p-8 md:p-10 flex items-center justify-between gap-6">
+                        <div>
+                            <h3 className="text-lg font-black dark:text-white uppercase italic">{pref.label}</h3>
+                            <p className="text-sm text-gray-500 dark:text-gray-400 font-medium">{pref.description}</p>
+                        </div>
+                        <button
+                            role="switch"
+                            aria-checked={settings[pref.key]}
+                            aria-label={`${pref.label} emails`}
+                            disabled={isSaving !== null}
+                            onClick={() => handleToggle(pref.key)}
+                            className={`relative flex-shrink-0 w-16 h-9 rounded-full transition-colors disabled:opacity-50 ${settings[pref.key] ? 'bg-indigo-600' : 'bg-gray-200 dark:bg-white/10'}`}
+                        >
+                            <span className={`absolute top-1 left-1 w-7 h-7 bg-white rounded-full shadow transition-transform ${settings[pref.key] ? 'translate-x-7' : ''}`} />
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const AdminDashboardPage = ({ setView }: { setView: (v: any) => void }) => {
+    const { user } = useAuth();
+    const { show } = useToast();
+    const [pendingProducts, setPendingProducts] = useState<Product[]>([]);
+    const [pendingRevisions, setPendingRevisions] = useState<ProductRevision[]>([]);
+    const [pendingWithdrawals, setPendingWithdrawals] = useState<Withdrawal[]>([]);
+    const [pendingRequests, setPendingRequests] = useState<Request[]>([]);
+    const [openDisputes, setOpenDisputes] = useState<Dispute[]>([]);
+    const [productIndex, setProductIndex] = useState<Record<string, Product>>({});
+    const [buyerNames, setBuyerNames] = useState<Record<string, string>>({});
+    const [tab, setTab] = useState<AdminTab>('products');
+    const [isLoading, setIsLoading] = useState(true);
+
+    const loadPending = useCallback(async () => {
+        setIsLoading(true);
+        const [queue, revisions, withdrawals, requests, disputes] = await Promise.all([api.getModerationQueue(), api.getRevisionQueue(), api.getPendingWithdrawals(), api.getPendingRequests(), api.getOpenDisputes()]);
+        const [buyers, products] = await Promise.all([
+            Promise.all(Array.from(new Set(requests.map(r => r.userId))).map(uid => api.getSellerData(uid))),
+            api.getProductsByIds([...requests.map(r => r.productId), ...revisions.map(r => r.productId)])
+        ]);
+        setPendingProducts(queue);
+        setPendingRevisions(revisions);
+        setPendingWithdrawals(withdrawals);
+        setPendingRequests(requests);
+        setOpenDisputes(disputes);
+        setProductIndex(products);
+        setBuyerNames(Object.fromEntries(buyers.filter((b): b is User => b !== null).map(b => [b.uid, b.name])));
+        setIsLoading(false);
+    }, []);
+
+    useEffect(() => {
+        if (!user || user.role !== Role.ADMIN) {
+            setView({ page: 'home' });
+            return;
+        }
+        loadPending();
+    }, [user, loadPending, setView]);
+
+    const handleApprove = async (id: string) => {
+        try {
+            await api.approveProduct(id);
+            show("Node Authorized.", "success");
+            loadPending();
+        } catch (e: any) {
+            show("Authorization failure.", "error");
+        }
+    };
+
+    const handleReject = async (id: string) => {
+        try {
+            await api.rejectProduct(id);
+            show("Node Decommissioned.", "error");
+            loadPending();
+        } catch (e: any) {
+            show("Decommission failure.", "error");
+        }
+    };
+
+    const handleRevision = async (productId: string, approve: boolean) => {
+        try {
+            if (approve) await api.approveRevision(productId);
+            else await api.rejectRevision(productId);
+            show(approve ? "Version Published." : "Revision Rejected.", approve ? "success" : "error");
+            loadPending();
+        } catch (e: any) {
+            show(e.message || "Revision failure.", "error");
+        }
+    };
+
+    const handleSealLinks = async () => {
+        try {
+            const sealed = await api.sealLegacyAssetLinks();
+            show(`${sealed} legacy link${sealed === 1 ? '' : 's'} sealed.`, "success");
+        } catch (e: any) {
+            show(e.message || "Seal failure.", "error");
+        }
+    };
+
+    const handleAggregateViews = async () => {
+        try {
+            const counted = await api.aggregateAnalytics();
+            show(`${counted} view${counted === 1 ? '' : 's'} aggregated.`, "success");
+        } catch (e: any) {
+            show(e.message || "Aggregation failure.", "error");
+        }
+    };
+
+    const handleRecomputeRankings = async () => {
+        try {
+            const updated = await api.recomputeRankings();
+            show(`${updated} listing${updated === 1 ? '' : 's'} re-ranked.`, "success");
+        } catch (e: any) {
+            show(e.message || "Re-rank failure.", "error");
+        }
+    };
+
+    const handleRequest = async (id: string, approve: boolean) => {
+        try {
+            if (approve) await api.approveRequest(id);
+            else await api.rejectRequest(id);
+            show(approve ? "Payment Verified." : "Payment Rejected.", approve ? "success" : "error");
+            loadPending();
+        } catch (e: any) {
+            show(e.message || "Verification failure.", "error");
+        }
+    };
+
+    const handleWithdrawal = async (id: string, approve: boolean) => {
+        try {
+            if (approve) await api.approveWithdrawal(id);
+            else await api.rejectWithdrawal(id);
+            show(approve ? "Payout Released." : "Payout Declined.", approve ? "success" : "error");
+            loadPending();
+        } catch (e: any) {
+            show(e.message || "Payout failure.", "error");
+        }
+    };
+
+    const handleResolve = async (id: string, resolution: 'full' | 'partial' | 'deny', amount?: number, note?: string) => {
+        try {
+            await api.resolveDispute(id, resolution, amount, note);
+            show(resolution === 'deny' ? "Dispute Denied." : "Refund Issued.", resolution === 'deny' ? "error" : "success");
+            loadPending();
+        } catch (e: any) {
+            show(e.message || "Resolution failure.", "error");
+        }
+    };
+
+    if (isLoading) return <div className="py-40"><SkeletonLoader count={1} /></div>;
+
+    const tabs: { id: AdminTab; label: string; title: string; count: number }[] = [
+        { id: 'products', label: 'Listings', title: 'Audit Queue.', count: pendingProducts.length },
+        { id: 'revisions', label: 'Updates', title: 'Revision Queue.', count: pendingRevisions.length },
+        { id: 'purchases', label: 'Payments', title: 'Payment Queue.', count: pendingRequests.length },
+        { id: 'payouts', label: 'Payouts', title: 'Payout Queue.', count: pendingWithdrawals.length },
+        { id: 'disputes', label: 'Disputes', title: 'Dispute Queue.', count: openDisputes.length }
+    ];
+    const activeTab = tabs.find(t => t.id === tab)!;
+
+    return (
+        <div className="container mx-auto px-4 py-32 md:py-48">
+            <div className="flex flex-col md:flex-row md:items-end justify-between mb-10 gap-6">
+                <div>
+                    <h1 className="text-5xl md:text-8xl font-black dark:text-white italic uppercase tracking-tighter">{activeTab.title}</h1>
+                </div>
+                <div className="px-6 py-3 bg-white dark:bg-white/5 rounded-2xl border dark:border-white/5 flex items-center space-x-4 shadow-xl">
+                    <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Awaiting Clearance:</span>
+                    <span className="text-2xl font-black text-indigo-500 italic">{activeTab.count}</span>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap gap-3 mb-12">
+                {tabs.map(t => (
+                    <button key={t.id} onClick={() => setTab(t.id)} className={`px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest italic transition-all border ${tab === t.id ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg' : 'bg-white dark:bg-white/5 dark:text-white border-black/5 dark:border-white/5 hover:border-indigo-600'}`}>
+                        {t.label} ({t.count})
+                    </button>
+                ))}
+                <button onClick={handleAggregateViews} className="ml-auto px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest italic border border-indigo-500/20 text-indigo-500 hover:bg-indigo-500/10 transition-all">Aggregate Views</button>
+                <button onClick={handleRecomputeRankings} className="px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest italic border border-indigo-500/20 text-indigo-500 hover:bg-indigo-500/10 transition-all">Rebuild Rankings</button>
+                <button onClick={handleSealLinks} className="px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest italic border border-indigo-500/20 text-indigo-500 hover:bg-indigo-500/10 transition-all">Seal Legacy Links</button>
+            </div>
+
+            {tab === 'products' && (
+            <div className="bg-white dark:bg-[#0a0a0a] rounded-[3.5rem] border dark:border-gray-800 shadow-2xl overflow-hidden">
                 {pendingProducts.length === 0 ? (
                     <div className="py-32 text-center">
                         <p className="text-sm font-black text-gray-400 uppercase tracking-widest italic">All nodal signals are clear.</p>
@@ -1004,6 +3147,8 @@ const AdminDashboardPage = ({ setView }: { setView: (v: any) => void }) => {
                                 <tr className="bg-gray-50/50 dark:bg-white/5">
                                     <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Signal Identity</th>
                                     <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Valuation</th>
+                                    <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Submitted</th>
+                                    <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">SLA</th>
                                     <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Actions</th>
                                 </tr>
                             </thead>
@@ -1015,8 +3160,11 @@ const AdminDashboardPage = ({ setView }: { setView: (v: any) => void }) => {
                                                 <img src={p.previewImage} alt={p.title} className="w-full h-full object-cover" />
                                             </div>
                                             <span className="font-black dark:text-white uppercase italic">{p.title}</span>
+                                            {p.isPriority && <span className="px-3 py-1 bg-yellow-500 rounded-full text-[8px] font-black uppercase tracking-widest text-black italic">Elite</span>}
                                         </td>
                                         <td className="px-8 py-6 font-black dark:text-white italic">{formatINR(p.price)}</td>
+                                        <td className="px-8 py-6 text-[10px] font-bold text-gray-400 uppercase italic whitespace-nowrap">{new Date(p.createdAt).toLocaleDateString()}</td>
+                                        <td className="px-8 py-6"><SlaTimer product={p} /></td>
                                         <td className="px-8 py-6 flex items-center space-x-3">
                                             <button onClick={() => handleApprove(p.id)} className="p-3 bg-green-500/10 text-green-500 rounded-xl hover:bg-green-500 hover:text-white transition-all border border-green-500/20"><CheckCircleIcon className="w-5 h-5" /></button>
                                             <button onClick={() => handleReject(p.id)} className="p-3 bg-red-500/10 text-red-500 rounded-xl hover:bg-red-500 hover:text-white transition-all border border-red-500/20"><TrashIcon className="w-5 h-5" /></button>
@@ -1029,35 +3177,217 @@ const AdminDashboardPage = ({ setView }: { setView: (v: any) => void }) => {
                     </div>
                 )}
             </div>
+            )}
+
+            {tab === 'revisions' && (
+            <div className="bg-white dark:bg-[#0a0a0a] rounded-[3.5rem] border dark:border-gray-800 shadow-2xl overflow-hidden">
+                {pendingRevisions.length === 0 ? (
+                    <div className="py-32 text-center">
+                        <p className="text-sm font-black text-gray-400 uppercase tracking-widest italic">No listing updates awaiting audit.</p>
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead className="border-b dark:border-white/5">
+                                <tr className="bg-gray-50/50 dark:bg-white/5">
+                                    <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Node</th>
+                                    <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Changes</th>
+                                    <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Changelog</th>
+                                    <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y dark:divide-white/5">
+                                {pendingRevisions.map(r => (
+                                    <tr key={r.id} className="hover:bg-gray-50/30 dark:hover:bg-white/[0.02] transition-colors">
+                                        <td className="px-8 py-6">
+                                            <span className="font-black dark:text-white uppercase italic block">{r.productTitle}</span>
+                                            <span className="text-[10px] font-bold text-gray-400 uppercase italic">{r.bump} → v{r.version} · {new Date(r.submittedAt).toLocaleDateString()}</span>
+                                        </td>
+                                        <td className="px-8 py-6 space-y-1">
+                                            {r.changes.title !== undefined && <span className="block text-xs font-bold dark:text-white italic">Title: {r.changes.title}</span>}
+                                            {r.changes.price !== undefined && <span className="block text-xs font-bold dark:text-white italic">Price: {formatINR(productIndex[r.productId]?.price || 0)} → {formatINR(r.changes.price)}</span>}
+                                            {r.changes.description !== undefined && <span className="block text-xs font-bold dark:text-white italic">Description rewritten</span>}
+                                            {(r.changes.previewImage !== undefined || r.changes.images !== undefined) && <span className="block text-xs font-bold dark:text-white italic">Images replaced</span>}
+                                            {r.changes.assetLink !== undefined && <a href={r.changes.assetLink} target="_blank" rel="noreferrer" className="block text-xs font-bold text-indigo-500 italic hover:underline">New asset link</a>}
+                                        </td>
+                                        <td className="px-8 py-6 text-xs text-gray-500 dark:text-gray-400 font-medium max-w-sm whitespace-pre-line">{r.notes}</td>
+                                        <td className="px-8 py-6 flex items-center space-x-3">
+                                            <button onClick={() => handleRevision(r.productId, true)} className="p-3 bg-green-500/10 text-green-500 rounded-xl hover:bg-green-500 hover:text-white transition-all border border-green-500/20"><CheckCircleIcon className="w-5 h-5" /></button>
+                                            <button onClick={() => handleRevision(r.productId, false)} className="p-3 bg-red-500/10 text-red-500 rounded-xl hover:bg-red-500 hover:text-white transition-all border border-red-500/20"><XCircleIcon className="w-5 h-5" /></button>
+                                            <button onClick={() => setView({ page: 'product', id: r.productId })} className="p-3 bg-gray-100 dark:bg-white/5 rounded-xl"><MagnifyingGlassIcon className="w-5 h-5" /></button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+            )}
+
+            {tab === 'purchases' && (
+            <div className="bg-white dark:bg-[#0a0a0a] rounded-[3.5rem] border dark:border-gray-800 shadow-2xl overflow-hidden">
+                {pendingRequests.length === 0 ? (
+                    <div className="py-32 text-center">
+                        <p className="text-sm font-black text-gray-400 uppercase tracking-widest italic">No payment proofs awaiting verification.</p>
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead className="border-b dark:border-white/5">
+                                <tr className="bg-gray-50/50 dark:bg-white/5">
+                                    <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Node</th>
+                                    <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Buyer</th>
+                                    <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Proof</th>
+                                    <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y dark:divide-white/5">
+                                {pendingRequests.map(r => (
+                                    <tr key={r.id} className="hover:bg-gray-50/30 dark:hover:bg-white/[0.02] transition-colors">
+                                        <td className="px-8 py-6">
+                                            <span className="font-black dark:text-white uppercase italic block">{productIndex[r.productId]?.title || r.productId}</span>
+                                            <span className="text-[10px] font-bold text-gray-400 uppercase italic">{formatINR(productIndex[r.productId]?.price || 0)} · {new Date(r.createdAt).toLocaleDateString()}</span>
+                                        </td>
+                                        <td className="px-8 py-6 font-black dark:text-white italic">{buyerNames[r.userId] || r.userId}</td>
+                                        <td className="px-8 py-6">
+                                            {r.paymentProof?.startsWith('data:image') ? (
+                                                <a href={r.paymentProof} target="_blank" rel="noreferrer" className="block w-16 h-16 rounded-xl overflow-hidden border dark:border-white/10">
+                                                    <img src={r.paymentProof} alt="Payment proof" className="w-full h-full object-cover" />
+                                                </a>
+                                            ) : (
+                                                <span className="font-mono text-xs dark:text-white break-all">{r.paymentProof}</span>
+                                            )}
+                                        </td>
+                                        <td className="px-8 py-6 flex items-center space-x-3">
+                                            <button onClick={() => handleRequest(r.id, true)} className="p-3 bg-green-500/10 text-green-500 rounded-xl hover:bg-green-500 hover:text-white transition-all border border-green-500/20"><CheckCircleIcon className="w-5 h-5" /></button>
+                                            <button onClick={() => handleRequest(r.id, false)} className="p-3 bg-red-500/10 text-red-500 rounded-xl hover:bg-red-500 hover:text-white transition-all border border-red-500/20"><XCircleIcon className="w-5 h-5" /></button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+            )}
+
+            {tab === 'payouts' && (
+            <div className="bg-white dark:bg-[#0a0a0a] rounded-[3.5rem] border dark:border-gray-800 shadow-2xl overflow-hidden">
+                {pendingWithdrawals.length === 0 ? (
+                    <div className="py-32 text-center">
+                        <p className="text-sm font-black text-gray-400 uppercase tracking-widest italic">No payouts awaiting release.</p>
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead className="border-b dark:border-white/5">
+                                <tr className="bg-gray-50/50 dark:bg-white/5">
+                                    <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Destination</th>
+                                    <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Amount</th>
+                                    <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Filed</th>
+                                    <th className="px-8 py-6 text-[10px] font-black text-gray-400 uppercase tracking-widest italic">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y dark:divide-white/5">
+                                {pendingWithdrawals.map(w => (
+                                    <tr key={w.id} className="hover:bg-gray-50/30 dark:hover:bg-white/[0.02] transition-colors">
+                                        <td className="px-8 py-6">
+                                            <span className="font-black dark:text-white uppercase italic block">{w.payoutDetails}</span>
+                                            <button onClick={() => setView({ page: 'seller-profile', id: w.userId })} className="text-[10px] font-bold text-gray-400 uppercase italic hover:text-indigo-500">View Seller</button>
+                                        </td>
+                                        <td className="px-8 py-6 font-black dark:text-white italic">{formatINR(w.amount)}</td>
+                                        <td className="px-8 py-6 text-[10px] font-bold text-gray-400 uppercase italic">{new Date(w.createdAt).toLocaleDateString()}</td>
+                                        <td className="px-8 py-6 flex items-center space-x-3">
+                                            <button onClick={() => handleWithdrawal(w.id, true)} className="p-3 bg-green-500/10 text-green-500 rounded-xl hover:bg-green-500 hover:text-white transition-all border border-green-500/20"><CheckCircleIcon className="w-5 h-5" /></button>
+                                            <button onClick={() => handleWithdrawal(w.id, false)} className="p-3 bg-red-500/10 text-red-500 rounded-xl hover:bg-red-500 hover:text-white transition-all border border-red-500/20"><XCircleIcon className="w-5 h-5" /></button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+            )}
+
+            {tab === 'disputes' && (
+            <div className="space-y-6">
+                {openDisputes.length === 0 ? (
+                    <div className="py-32 text-center bg-white dark:bg-[#0a0a0a] rounded-[3.5rem] border dark:border-gray-800 shadow-2xl">
+                        <p className="text-sm font-black text-gray-400 uppercase tracking-widest italic">No disputes awaiting a ruling.</p>
+                    </div>
+                ) : openDisputes.map(d => (
+                    <DisputeCard key={d.id} dispute={d}>
+                        <DisputeResolver dispute={d} onResolve={(resolution, amount, note) => handleResolve(d.id, resolution, amount, note)} />
+                    </DisputeCard>
+                ))}
+            </div>
+            )}
         </div>
     );
 };
 
 const MainApp = () => {
-    const [view, setView] = useState<{ page: string; id?: string; redirect?: any }>({ page: 'home' });
+    const [view, setViewState] = useState<View>(() => pathToView(currentPath()));
     const [notifOpen, setNotifOpen] = useState(false);
-    const { isLoading } = useAuth();
+    const [notifications, setNotifications] = useState<Notification[]>([]);
+    const [unreadCount, setUnreadCount] = useState(0);
+    const { user, isLoading } = useAuth();
+
+    useEffect(() => {
+        if (!user) {
+            setNotifications([]);
+            setUnreadCount(0);
+            return;
+        }
+        const stopFeed = api.subscribeNotifications(user.uid, setNotifications);
+        const stopCount = api.subscribeUnreadCount(user.uid, setUnreadCount);
+        return () => { stopFeed(); stopCount(); };
+    }, [user?.uid]);
+
+    const setView = useCallback((next: View, options: NavigateOptions = {}) => {
+        const path = viewToPath(next);
+        if (path !== currentPath()) {
+            if (options.replace) window.history.replaceState(null, '', path);
+            else window.history.pushState(null, '', path);
+        }
+        setViewState(pathToView(path));
+    }, []);
+
+    useEffect(() => {
+        const onPopState = () => setViewState(pathToView(currentPath()));
+        window.addEventListener('popstate', onPopState);
+        return () => window.removeEventListener('popstate', onPopState);
+    }, []);
 
-    useEffect(() => { window.scrollTo(0, 0); }, [view]);
+    // Query-only changes (e.g. typing in Explore) keep the scroll position
+    useEffect(() => { window.scrollTo(0, 0); }, [view.page, view.id]);
 
     const renderPage = () => {
         if (isLoading) return <div className="min-h-screen flex items-center justify-center"><div className="w-12 h-12 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin" /></div>;
         switch (view.page) {
             case 'home': return <HomePage setView={setView} />;
-            case 'explore': return <ExplorePage setView={setView} />;
+            case 'explore': return <ExplorePage setView={setView} query={view.query} />;
             case 'sell': return <SellPage setView={setView} />;
             case 'product': return <ProductPage productId={view.id!} setView={setView} />;
             case 'login': return <LoginPage setView={setView} redirect={view.redirect} />;
             case 'profile': return <DashboardPage setView={setView} />;
             case 'seller-profile': return <SellerProfilePage sellerId={view.id!} setView={setView} />;
             case 'admin-dashboard': return <AdminDashboardPage setView={setView} />;
+            case 'settings': return <SettingsPage setView={setView} />;
+            case 'wallet': return <WalletPage setView={setView} />;
+            case 'wishlist': return <WishlistPage setView={setView} />;
+            case 'cart': return <CartPage setView={setView} />;
+            case 'workspace': return <SellerWorkspacePage setView={setView} />;
             default: return <HomePage setView={setView} />;
         }
     };
 
     return (
         <div className="min-h-screen bg-gray-50 dark:bg-[#0a0a0a] transition-colors duration-500 pb-24 lg:pb-0">
-            <Header setView={setView} onNotifOpen={() => setNotifOpen(true)} currentView={view.page} />
+            <Header setView={setView} onNotifOpen={() => setNotifOpen(true)} unreadCount={unreadCount} currentView={view.page} />
+            <NotificationDrawer open={notifOpen} onClose={() => setNotifOpen(false)} notifications={notifications} unreadCount={unreadCount} setView={setView} />
             <AnimatePresence mode="wait">
                 <motion.div key={view.page + (view.id || '')} initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
                     {renderPage()}
@@ -2,6 +2,23 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { startOutboxWorker } from './services/email';
+import { flushEvents, startAnalyticsWorker } from './services/analytics';
+import { paymentProvider } from './services/payments';
+import { handlePaymentWebhook } from './services/paymentWebhooks';
+
+// Firestore deployments drain the outbox from a trusted backend; the local backend drains it in the browser
+if (process.env.DATA_BACKEND === 'local') startOutboxWorker();
+
+// Likewise for folding tracked views into the listing counters
+if (process.env.DATA_BACKEND === 'local') startAnalyticsWorker();
+
+// Events still buffered when the tab goes away are written on the way out
+window.addEventListener('pagehide', () => { flushEvents().catch(() => undefined); });
+
+// On the local backend the sandbox gateway pushes its webhooks straight into the page. Against Firestore only
+// admins may settle top-ups, so webhooks go to the Node endpoint (scripts/payment-webhooks.ts) instead.
+if (process.env.DATA_BACKEND === 'local') paymentProvider.listen?.(webhook => handlePaymentWebhook(paymentProvider, webhook));
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -0,0 +1,21 @@
+import { appendFile } from 'fs/promises';
+import { consoleTransport, EmailTransport, startOutboxWorker } from '../services/email';
+import { signInWorker } from './workerSession';
+
+// Drains the Firestore outbox from a trusted machine: `npm run outbox`.
+// EMAIL_TRANSPORT=file appends each message to the mbox at EMAIL_OUTBOX_FILE; anything else logs to the console.
+
+const createFileTransport = (path: string): EmailTransport => ({
+  send: async (email) => {
+    const date = new Date(email.createdAt).toUTCString();
+    await appendFile(path, `From codastra ${date}\nTo: ${email.to}\nSubject: ${email.subject}\nDate: ${date}\n\n${email.text}\n\n`);
+  }
+});
+
+const transport = process.env.EMAIL_TRANSPORT === 'file'
+  ? createFileTransport(process.env.EMAIL_OUTBOX_FILE || 'outbox.mbox')
+  : consoleTransport;
+
+await signInWorker();
+startOutboxWorker(transport);
+console.info(`Outbox worker running (${process.env.EMAIL_TRANSPORT === 'file' ? process.env.EMAIL_OUTBOX_FILE || 'outbox.mbox' : 'console'}).`);
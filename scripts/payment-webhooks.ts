@@ -0,0 +1,33 @@
+import { createServer } from 'http';
+import { handlePaymentWebhook } from '../services/paymentWebhooks';
+import { createPaymentProvider } from '../services/payments';
+import { signInWorker } from './workerSession';
+
+// Receives gateway webhooks for a Firestore deployment: `npm run webhooks`.
+// The secret is read from PAYMENT_WEBHOOK_SECRET here only; the browser build never sees it.
+// Gateways POST the raw event to /webhooks/payments with its HMAC in the X-Signature header.
+
+const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+if (!secret) throw new Error("Set PAYMENT_WEBHOOK_SECRET to the gateway's webhook signing secret.");
+const provider = createPaymentProvider(process.env.PAYMENT_PROVIDER || 'sandbox', secret);
+const port = Number(process.env.WEBHOOK_PORT || 8787);
+
+await signInWorker();
+
+createServer((req, res) => {
+  if (req.method !== 'POST' || req.url !== '/webhooks/payments') {
+    res.writeHead(404).end();
+    return;
+  }
+  let payload = '';
+  req.on('data', chunk => { payload += chunk; });
+  req.on('end', async () => {
+    try {
+      const handled = await handlePaymentWebhook(provider, { payload, signature: String(req.headers['x-signature'] || '') });
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ handled }));
+    } catch (e: any) {
+      // Rejected signatures and unknown orders are not retried by answering 4xx
+      res.writeHead(400, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: e?.message || String(e) }));
+    }
+  });
+}).listen(port, () => console.info(`Payment webhooks listening on :${port}/webhooks/payments (${provider.name}).`));
@@ -0,0 +1,13 @@
+import { store } from '../services/store';
+
+// Node workers act as an admin account, since only admins may read and advance the queues they drain.
+// Credentials come from WORKER_EMAIL and WORKER_PASSWORD in the environment, never from the browser build.
+export const signInWorker = async (): Promise<void> => {
+  if (process.env.DATA_BACKEND === 'local') {
+    throw new Error("The local backend lives in the browser; Node workers only run against Firestore.");
+  }
+  const email = process.env.WORKER_EMAIL;
+  const password = process.env.WORKER_PASSWORD;
+  if (!email || !password) throw new Error("Set WORKER_EMAIL and WORKER_PASSWORD to an admin account.");
+  await store.auth.signIn(email, password);
+};
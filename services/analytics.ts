@@ -0,0 +1,175 @@
+import { store } from './store';
+import { StoreTransaction, increment } from './dataStore';
+import { dailyStatsId, dayKey } from './sellerAnalytics';
+import { AnalyticsEvent, Product, Role, User } from '../types';
+
+// --- SESSION ---
+
+const VISITOR_KEY = 'codastra.visitorId';
+const hasLocalStorage = typeof localStorage !== 'undefined';
+let memoryVisitor: string | null = null;
+
+// One id per browser, kept across tabs and visits; it stands in for the visitor when nobody is signed in,
+// so reopening a listing in a new tab is not a new view
+export const sessionId = (): string => {
+  const stored = hasLocalStorage ? localStorage.getItem(VISITOR_KEY) : memoryVisitor;
+  if (stored) return stored;
+  const id = Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+  if (hasLocalStorage) localStorage.setItem(VISITOR_KEY, id);
+  else memoryVisitor = id;
+  return id;
+};
+
+// --- RECORDING ---
+
+export type EventInput = Pick<AnalyticsEvent, 'type'> & Partial<Pick<AnalyticsEvent, 'userId' | 'productId' | 'sellerId' | 'query'>>;
+
+type EventData = Omit<AnalyticsEvent, 'id'>;
+
+// Unset fields are dropped rather than stored as undefined, which Firestore rejects
+const buildEvent = (input: EventInput, session: string | null): EventData => {
+  const now = Date.now();
+  const fields = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined)) as EventInput;
+  return {
+    ...fields,
+    userId: input.userId ?? null,
+    sessionId: session,
+    day: dayKey(now),
+    createdAt: now,
+    ...(input.type === 'view' ? { aggregated: false } : {})
+  };
+};
+
+// Write-only, like notify: for actions that already write (purchases, downloads), so the event
+// lands with them or not at all. Pass a null session when the buyer is not the one acting.
+export const recordEvent = (tx: StoreTransaction, input: EventInput, session: string | null = sessionId()): void => {
+  tx.add('analyticsEvents', buildEvent(input, session));
+};
+
+// --- BUFFERED EVENTS ---
+
+// Page-level signals (views, searches, wishlist adds) are queued and written together
+export const FLUSH_BATCH = 20;
+export const FLUSH_DELAY = 10000;
+
+const queue: EventData[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const viewId = (event: EventData): string => `${event.productId}_${event.day}_${event.userId || event.sessionId}`;
+
+// Analytics never gets in the way of the page; a failed batch is dropped
+const flushQuietly = () => { flushEvents().catch(() => undefined); };
+
+export const trackEvent = (input: EventInput): void => {
+  queue.push(buildEvent(input, sessionId()));
+  if (queue.length >= FLUSH_BATCH) flushQuietly();
+  else if (!flushTimer) flushTimer = setTimeout(flushQuietly, FLUSH_DELAY);
+};
+
+// Owners and admins looking at a listing are not its audience
+export const trackView = (product: Product, viewer: User | null): boolean => {
+  if (viewer && (viewer.uid === product.sellerId || viewer.role === Role.ADMIN)) return false;
+  trackEvent({ type: 'view', userId: viewer?.uid, productId: product.id, sellerId: product.sellerId });
+  return true;
+};
+
+// Writes everything queued in one transaction. Views are keyed per visitor and day,
+// so one already on record is dropped; returns how many events were written.
+export const flushEvents = async (): Promise<number> => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  const batch = queue.splice(0);
+  if (batch.length === 0) return 0;
+  const views = Array.from(new Map(batch.filter(e => e.type === 'view').map(e => [viewId(e), e])).entries());
+  const others = batch.filter(e => e.type !== 'view');
+  return await store.runTransaction(async (tx) => {
+    const recorded = await Promise.all(views.map(([id]) => tx.get('analyticsEvents', id)));
+    const fresh = views.filter((_, i) => !recorded[i]);
+    fresh.forEach(([id, event]) => tx.set('analyticsEvents', id, event));
+    others.forEach(event => tx.add('analyticsEvents', event));
+    return fresh.length + others.length;
+  });
+};
+
+// --- AGGREGATION ---
+
+export const AGGREGATE_BATCH = 100;
+export const AGGREGATE_INTERVAL = 60000;
+
+// Folds one batch of new views into Product.viewCount and the daily productStats buckets.
+// The events are re-read inside the transaction, so two workers never count a view twice.
+// A counted view is only kept while its day lasts, to dedupe repeat visits; older ones are deleted.
+const aggregateViewBatch = async (): Promise<number> => {
+  const today = dayKey(Date.now());
+  const pending = await store.list('analyticsEvents', { where: [['aggregated', '==', false]], limit: AGGREGATE_BATCH });
+  if (pending.length === 0) return 0;
+  return await store.runTransaction(async (tx) => {
+    const events = (await Promise.all(pending.map(e => tx.get('analyticsEvents', e.id))))
+      .filter((e): e is AnalyticsEvent => e?.aggregated === false && !!e.productId);
+
+    const buckets = new Map<string, { productId: string; sellerId: string; day: string; views: number }>();
+    events.forEach(e => {
+      const id = dailyStatsId(e.productId!, e.day);
+      const bucket = buckets.get(id) || { productId: e.productId!, sellerId: e.sellerId || '', day: e.day, views: 0 };
+      bucket.views++;
+      buckets.set(id, bucket);
+    });
+    const perProduct = new Map<string, number>();
+    buckets.forEach(b => perProduct.set(b.productId, (perProduct.get(b.productId) || 0) + b.views));
+
+    const productIds = Array.from(perProduct.keys());
+    const products = await Promise.all(productIds.map(id => tx.get('products', id)));
+    const statsIds = Array.from(buckets.keys());
+    const stats = await Promise.all(statsIds.map(id => tx.get('productStats', id)));
+
+    productIds.forEach((id, i) => {
+      if (products[i]) tx.update('products', id, { viewCount: increment(perProduct.get(id)!) });
+    });
+    statsIds.forEach((id, i) => {
+      const bucket = buckets.get(id)!;
+      if (stats[i]) tx.update('productStats', id, { views: increment(bucket.views) });
+      else tx.set('productStats', id, { ...bucket, downloads: 0 });
+    });
+    // Every claimed row is marked or deleted, so one without a listing cannot stall the queue
+    pending.forEach(e => {
+      if (e.day < today) tx.delete('analyticsEvents', e.id);
+      else tx.update('analyticsEvents', e.id, { aggregated: true });
+    });
+    return events.length;
+  });
+};
+
+// Deletes one batch of views counted on an earlier day; returns how many went
+const pruneViewBatch = async (): Promise<number> => {
+  const stale = await store.list('analyticsEvents', {
+    where: [['aggregated', '==', true], ['day', '<', dayKey(Date.now())]],
+    limit: AGGREGATE_BATCH
+  });
+  if (stale.length === 0) return 0;
+  await store.runTransaction(async (tx) => {
+    stale.forEach(e => tx.delete('analyticsEvents', e.id));
+  });
+  return stale.length;
+};
+
+// Drains every view waiting to be counted; returns how many were folded in
+export const aggregateViews = async (): Promise<number> => {
+  let total = 0;
+  let counted: number;
+  do {
+    counted = await aggregateViewBatch();
+    total += counted;
+  } while (counted === AGGREGATE_BATCH);
+  while (await pruneViewBatch() === AGGREGATE_BATCH);
+  return total;
+};
+
+// Aggregates on a timer; returns a function that stops the worker
+export const startAnalyticsWorker = (interval: number = AGGREGATE_INTERVAL): (() => void) => {
+  const run = () => { aggregateViews().catch(() => undefined); };
+  run();
+  const id = setInterval(run, interval);
+  return () => clearInterval(id);
+};
@@ -0,0 +1,58 @@
+import { Bundle, Coupon, Product } from '../types';
+
+// --- BUNDLE RULES ---
+
+export const MIN_BUNDLE_SIZE = 2;
+
+// Percent; keeps a bundled sale from undercutting the platform fee on it
+export const MAX_BUNDLE_DISCOUNT = 50;
+
+// --- CART PRICING ---
+
+// The security rules check a checkout's debit against each line without loops, so a cart holds at most this many listings
+export const MAX_CART_SIZE = 5;
+
+export interface CartLine {
+  product: Product;
+  discount: number; // Taken off this listing by its bundle
+  couponDiscount: number; // Taken off after the bundle, by a coupon (services/coupons.ts)
+  price: number; // What the buyer pays for it
+  bundle?: Bundle;
+}
+
+export interface CartQuote {
+  lines: CartLine[];
+  subtotal: number;
+  discount: number; // Bundle savings
+  couponDiscount: number;
+  coupon?: Coupon;
+  total: number;
+}
+
+const lineDiscount = (product: Product, bundle: Bundle): number =>
+  Math.round(product.price * bundle.discountPercent / 100);
+
+// Applies every bundle the cart completes. A listing counts towards one bundle at most, so when
+// bundles overlap, the one that saves the buyer most is applied first.
+export const quoteCart = (products: Product[], bundles: Bundle[]): CartQuote => {
+  const inCart = new Map(products.map(p => [p.id, p]));
+  const saving = (bundle: Bundle) => bundle.productIds.reduce((sum, id) => sum + lineDiscount(inCart.get(id)!, bundle), 0);
+
+  const claimed = new Map<string, Bundle>();
+  bundles
+    .filter(b => b.active && b.productIds.every(id => inCart.get(id)?.sellerId === b.sellerId))
+    .sort((a, b) => saving(b) - saving(a))
+    .forEach(bundle => {
+      if (bundle.productIds.some(id => claimed.has(id))) return;
+      bundle.productIds.forEach(id => claimed.set(id, bundle));
+    });
+
+  const lines = products.map(product => {
+    const bundle = claimed.get(product.id);
+    const discount = bundle ? lineDiscount(product, bundle) : 0;
+    return { product, discount, couponDiscount: 0, price: product.price - discount, ...(bundle ? { bundle } : {}) };
+  });
+  const subtotal = lines.reduce((sum, line) => sum + line.product.price, 0);
+  const discount = lines.reduce((sum, line) => sum + line.discount, 0);
+  return { lines, subtotal, discount, couponDiscount: 0, total: subtotal - discount };
+};
@@ -0,0 +1,72 @@
+import { Coupon, CouponRedemption, Product } from '../types';
+import { CartQuote } from './bundles';
+
+// --- CODES ---
+
+export const COUPON_CODE_PATTERN = /^[A-Z0-9_-]{3,24}$/;
+
+// Codes double as document ids, so lookups are case-insensitive and a code can only exist once
+export const normalizeCouponCode = (code: string): string => code.trim().toUpperCase();
+
+// A couponed sale must still debit the wallet, which the request rules rely on
+export const MIN_COUPON_CHARGE = 1;
+
+// --- ELIGIBILITY ---
+
+export const couponAppliesTo = (coupon: Coupon, product: Product): boolean => {
+  if (coupon.scope === 'product') return coupon.productId === product.id;
+  if (coupon.scope === 'seller') return coupon.sellerId === product.sellerId;
+  return true;
+};
+
+// Why the coupon cannot be redeemed right now, or null if it can
+export const couponProblem = (coupon: Coupon | null, userId: string, now: number = Date.now()): string | null => {
+  if (!coupon || !coupon.active) return "Unknown coupon code.";
+  if (coupon.expiresAt && coupon.expiresAt <= now) return `Coupon ${coupon.code} has expired.`;
+  if (coupon.maxRedemptions && coupon.redemptionCount >= coupon.maxRedemptions) return `Coupon ${coupon.code} is fully redeemed.`;
+  if (coupon.perUserLimit && (coupon.redeemedBy[userId] || 0) >= coupon.perUserLimit) return `You have already used coupon ${coupon.code}.`;
+  return null;
+};
+
+// Each discounted listing counts as one redemption against both the overall cap and the buyer's limit
+const redemptionsLeft = (coupon: Coupon, userId: string): number => Math.min(
+  coupon.maxRedemptions ? coupon.maxRedemptions - coupon.redemptionCount : Infinity,
+  coupon.perUserLimit ? coupon.perUserLimit - (coupon.redeemedBy[userId] || 0) : Infinity
+);
+
+// Flat coupons take their value off each eligible listing, never going below MIN_COUPON_CHARGE
+export const couponDiscount = (coupon: Coupon, price: number): number => {
+  const raw = coupon.kind === 'percent' ? Math.round(price * coupon.value / 100) : coupon.value;
+  return Math.max(0, Math.min(raw, price - MIN_COUPON_CHARGE));
+};
+
+// --- PRICING ---
+
+// Applies the coupon on top of any bundle discount, to eligible lines in cart order until it runs out.
+// Throws when the code cannot be used or matches nothing in the cart.
+export const applyCoupon = (quote: CartQuote, coupon: Coupon | null, userId: string, now: number = Date.now()): CartQuote => {
+  const problem = couponProblem(coupon, userId, now);
+  if (problem) throw new Error(problem);
+  let left = redemptionsLeft(coupon!, userId);
+
+  const lines = quote.lines.map(line => {
+    const discount = left > 0 && couponAppliesTo(coupon!, line.product) ? couponDiscount(coupon!, line.price) : 0;
+    if (discount === 0) return line;
+    left--;
+    return { ...line, couponDiscount: discount, price: line.price - discount };
+  });
+  const couponTotal = lines.reduce((sum, line) => sum + line.couponDiscount, 0);
+  if (couponTotal === 0) throw new Error(`Coupon ${coupon!.code} does not apply to anything here.`);
+  return { ...quote, lines, coupon: coupon!, couponDiscount: couponTotal, total: quote.total - couponTotal };
+};
+
+// --- MANAGEMENT ---
+
+export type CouponInput = Pick<Coupon, 'code' | 'scope' | 'kind' | 'value'>
+  & Partial<Pick<Coupon, 'productId' | 'maxRedemptions' | 'perUserLimit' | 'expiresAt'>>;
+
+export interface CouponReport {
+  coupon: Coupon;
+  redemptions: CouponRedemption[]; // Newest first
+  totalDiscount: number;
+}
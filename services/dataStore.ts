@@ -0,0 +1,115 @@
+import { User, Product, ProductAsset, ProductRevision, ProductDailyStats, Request, Transaction, Notification, Withdrawal, DownloadEvent, EmailMessage, PaymentOrder, Dispute, SearchAlert, Bundle, Coupon, CouponRedemption, AnalyticsEvent } from '../types';
+
+// --- COLLECTIONS ---
+
+// Every collection the marketplace persists, keyed by its Firestore collection name.
+export interface CollectionMap {
+  users: User;
+  products: Product;
+  productAssets: ProductAsset;
+  productRevisions: ProductRevision;
+  productStats: ProductDailyStats;
+  requests: Request;
+  transactions: Transaction;
+  notifications: Notification;
+  withdrawals: Withdrawal;
+  downloads: DownloadEvent;
+  emailOutbox: EmailMessage;
+  paymentOrders: PaymentOrder;
+  disputes: Dispute;
+  searchAlerts: SearchAlert;
+  bundles: Bundle;
+  coupons: Coupon;
+  couponRedemptions: CouponRedemption;
+  analyticsEvents: AnalyticsEvent;
+}
+
+export type CollectionName = keyof CollectionMap;
+export type Entity<K extends CollectionName> = CollectionMap[K];
+export type EntityData<K extends CollectionName> = Omit<CollectionMap[K], 'id'>;
+
+// --- FIELD OPERATIONS ---
+
+export interface IncrementOp {
+  __op: 'increment';
+  by: number;
+}
+
+// Backend-neutral counterpart of Firestore's increment() sentinel
+export const increment = (by: number): IncrementOp => ({ __op: 'increment', by });
+
+export const isIncrement = (value: unknown): value is IncrementOp =>
+  typeof value === 'object' && value !== null && (value as IncrementOp).__op === 'increment';
+
+export interface DeleteOp {
+  __op: 'delete';
+}
+
+// Removes the field entirely, like Firestore's deleteField()
+export const deleteField = (): DeleteOp => ({ __op: 'delete' });
+
+export const isDelete = (value: unknown): value is DeleteOp =>
+  typeof value === 'object' && value !== null && (value as DeleteOp).__op === 'delete';
+
+export type Patch<T> = { [F in keyof T]?: T[F] | IncrementOp | DeleteOp };
+
+// --- QUERIES ---
+
+export type WhereOp = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'array-contains';
+
+export interface QuerySpec<T> {
+  where?: [keyof T & string, WhereOp, unknown][];
+  orderBy?: [keyof T & string, 'asc' | 'desc'];
+  // Resume after a row, given as its [orderBy value, document id]. Ties on the orderBy field
+  // are broken by document id in the same direction, so pages never skip or repeat a row.
+  startAfter?: [unknown, string];
+  limit?: number;
+}
+
+// --- TRANSACTIONS ---
+
+// Reads must happen before writes, mirroring Firestore's transaction contract.
+export interface StoreTransaction {
+  get<K extends CollectionName>(col: K, id: string): Promise<Entity<K> | null>;
+  set<K extends CollectionName>(col: K, id: string, data: EntityData<K>): void;
+  update<K extends CollectionName>(col: K, id: string, patch: Patch<EntityData<K>>): void;
+  add<K extends CollectionName>(col: K, data: EntityData<K>): string;
+  delete(col: CollectionName, id: string): void;
+}
+
+// --- AUTHENTICATION ---
+
+export interface AuthIdentity {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  photoURL: string | null;
+}
+
+export interface AuthBackend {
+  signIn(email: string, password: string): Promise<AuthIdentity>;
+  signUp(email: string, password: string): Promise<AuthIdentity>;
+  signInWithGoogle(): Promise<AuthIdentity>;
+  signOut(): Promise<void>;
+  onChange(callback: (identity: AuthIdentity | null) => void): () => void;
+}
+
+// --- STORE ---
+
+export interface DataStore {
+  auth: AuthBackend;
+  get<K extends CollectionName>(col: K, id: string): Promise<Entity<K> | null>;
+  list<K extends CollectionName>(col: K, spec?: QuerySpec<Entity<K>>): Promise<Entity<K>[]>;
+  add<K extends CollectionName>(col: K, data: EntityData<K>): Promise<Entity<K>>;
+  set<K extends CollectionName>(col: K, id: string, data: EntityData<K>): Promise<void>;
+  update<K extends CollectionName>(col: K, id: string, patch: Patch<EntityData<K>>): Promise<void>;
+  runTransaction<T>(fn: (tx: StoreTransaction) => Promise<T>): Promise<T>;
+  // Delivers the current results, then again whenever they change; returns an unsubscribe function.
+  // A query that fails (a denied read, a missing index) stops and reports to `onError` once.
+  subscribe<K extends CollectionName>(
+    col: K,
+    spec: QuerySpec<Entity<K>>,
+    callback: (rows: Entity<K>[]) => void,
+    onError?: (error: Error) => void
+  ): () => void;
+}
@@ -0,0 +1,130 @@
+import { store } from './store';
+import { StoreTransaction } from './dataStore';
+import { User, EmailMessage, EmailTemplate, NotificationSettings } from '../types';
+
+// --- TEMPLATES ---
+
+type TemplateVars = Record<string, string>;
+
+interface Template {
+  setting: keyof NotificationSettings; // Opt-in flag the recipient must have on
+  subject: (vars: TemplateVars) => string;
+  text: (vars: TemplateVars) => string;
+}
+
+const TEMPLATES: Record<EmailTemplate, Template> = {
+  'listing-approved': {
+    setting: 'emailNotifyApproval',
+    subject: v => `${v.productTitle} is live on Codastra`,
+    text: v => `Hi ${v.name},\n\n${v.productTitle} passed moderation and is now listed in the vault.`
+  },
+  'listing-rejected': {
+    setting: 'emailNotifyApproval',
+    subject: v => `${v.productTitle} was not approved`,
+    text: v => `Hi ${v.name},\n\n${v.productTitle} was rejected during moderation. Review the listing guidelines and resubmit.`
+  },
+  'payment-verified': {
+    setting: 'emailNotifyApproval',
+    subject: v => `Payment verified for ${v.productTitle}`,
+    text: v => `Hi ${v.name},\n\nYour payment for ${v.productTitle} was verified. The asset is unlocked in your terminal.`
+  },
+  'payment-rejected': {
+    setting: 'emailNotifyApproval',
+    subject: v => `Payment for ${v.productTitle} could not be verified`,
+    text: v => `Hi ${v.name},\n\nWe could not verify your payment proof for ${v.productTitle}. Submit a new reference from the product page to retry.`
+  },
+  'review-received': {
+    setting: 'emailNotifyReview',
+    subject: v => `New ${v.rating}/5 review on ${v.productTitle}`,
+    text: v => `Hi ${v.name},\n\n${v.reviewer} rated ${v.productTitle} ${v.rating}/5:\n\n"${v.comment}"`
+  },
+  'product-sold': {
+    setting: 'emailNotifyPurchase',
+    subject: v => `You sold ${v.productTitle}`,
+    text: v => `Hi ${v.name},\n\n${v.buyer} acquired ${v.productTitle}. ${v.credit} was credited to your vault.`
+  }
+};
+
+const wantsEmail = (recipient: User | null, template: EmailTemplate): boolean =>
+  !!recipient?.email && !!recipient.notificationSettings?.[TEMPLATES[template].setting];
+
+// Write-only, like notify: queues the message inside the caller's transaction when the recipient opted in.
+// Only the recipient, the template's variables and the listing are stored; the security rules cap their size
+// and check a buyer's message against the sale or review the same write makes.
+export const queueEmail = (
+  tx: StoreTransaction,
+  recipient: User | null,
+  template: EmailTemplate,
+  vars: TemplateVars,
+  productId?: string
+): boolean => {
+  if (!wantsEmail(recipient, template)) return false;
+  tx.add('emailOutbox', {
+    userId: recipient!.uid,
+    template,
+    vars,
+    status: 'queued',
+    createdAt: Date.now(),
+    sentAt: null,
+    ...(productId ? { productId } : {})
+  });
+  return true;
+};
+
+// --- TRANSPORTS ---
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  text: string;
+  createdAt: number;
+}
+
+export interface EmailTransport {
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+// The browser worker's transport; the Node worker (scripts/outbox-worker.ts) can write an mbox file instead
+export const consoleTransport: EmailTransport = {
+  send: async (email) => {
+    console.info(`[email] To: ${email.to}\nSubject: ${email.subject}\n\n${email.text}`);
+  }
+};
+
+// --- DELIVERY ---
+
+// Claims the message first so two workers (or two tabs) never send it twice
+const claim = (id: string): Promise<EmailMessage | null> =>
+  store.runTransaction(async (tx) => {
+    const message = await tx.get('emailOutbox', id);
+    if (!message || message.status !== 'queued') return null;
+    tx.update('emailOutbox', id, { status: 'sending' });
+    return message;
+  });
+
+// The address and opt-in are checked again at send time, against the recipient's current profile
+export const deliverEmail = async (id: string, transport: EmailTransport = consoleTransport): Promise<boolean> => {
+  const message = await claim(id);
+  if (!message) return false;
+  try {
+    const recipient = await store.get('users', message.userId);
+    if (!wantsEmail(recipient, message.template)) {
+      await store.update('emailOutbox', id, { status: 'skipped' });
+      return false;
+    }
+    const { subject, text } = TEMPLATES[message.template];
+    const vars = { ...message.vars, name: recipient!.name };
+    await transport.send({ to: recipient!.email, subject: subject(vars), text: text(vars), createdAt: message.createdAt });
+    await store.update('emailOutbox', id, { status: 'sent', sentAt: Date.now() });
+    return true;
+  } catch (e: any) {
+    await store.update('emailOutbox', id, { status: 'failed', error: e?.message || String(e) });
+    return false;
+  }
+};
+
+// Drains the outbox as messages arrive; returns a function that stops the worker
+export const startOutboxWorker = (transport: EmailTransport = consoleTransport): (() => void) =>
+  store.subscribe('emailOutbox', { where: [['status', '==', 'queued']], orderBy: ['createdAt', 'asc'] }, async (queued) => {
+    for (const message of queued) await deliverEmail(message.id, transport);
+  });
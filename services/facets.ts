@@ -0,0 +1,93 @@
+import { Product, ProductFacets, ProductQuery } from '../types';
+import { createSearchIndex } from './searchIndex';
+
+// --- OPTIONS ---
+
+// Preset price bands offered in Explore; bounds are inclusive like ProductFacets
+export const PRICE_RANGES: { min?: number; max?: number }[] = [
+  { max: 499 },
+  { min: 500, max: 1499 },
+  { min: 1500, max: 2999 },
+  { min: 3000 }
+];
+
+export const RATING_STEPS = [4, 3, 2, 1];
+
+export const UPDATED_WITHIN_DAYS = [7, 30, 90];
+
+// Tag chips are ordered by how many candidates carry them; the long tail is left out
+const TAG_LIMIT = 12;
+
+// --- MATCHING ---
+
+type FacetName = 'price' | 'rating' | 'tags' | 'updated' | 'elite';
+
+const FACET_TESTS: Record<FacetName, (product: Product, facets: ProductFacets, now: number) => boolean> = {
+  price: (p, { minPrice, maxPrice }) => (minPrice === undefined || p.price >= minPrice) && (maxPrice === undefined || p.price <= maxPrice),
+  rating: (p, { minRating }) => !minRating || p.rating >= minRating,
+  tags: (p, { tags }) => !tags?.length || tags.every(tag => (p.tags || []).some(t => t.toLowerCase() === tag.toLowerCase())),
+  updated: (p, { updatedWithinDays }, now) => !updatedWithinDays || p.lastUpdate >= now - updatedWithinDays * 86400000,
+  elite: (p, { eliteOnly }) => !eliteOnly || !!p.isPriority
+};
+
+const FACET_NAMES = Object.keys(FACET_TESTS) as FacetName[];
+
+// `ignore` drops one facet, so each facet's counts reflect every other active selection
+export const matchesFacets = (product: Product, facets: ProductFacets, now: number = Date.now(), ignore?: FacetName): boolean =>
+  FACET_NAMES.every(name => name === ignore || FACET_TESTS[name](product, facets, now));
+
+// Whether one listing belongs in the results of a query, using the same search rules as Explore
+export const matchesQuery = (product: Product, query: ProductQuery, now: number = Date.now()): boolean => {
+  if (query.category && query.category !== 'All' && product.category !== query.category) return false;
+  if (!matchesFacets(product, query, now)) return false;
+  if (!query.searchTerm?.trim()) return true;
+  const index = createSearchIndex();
+  index.upsert(product);
+  return index.search(query.searchTerm).length > 0;
+};
+
+export const hasFacets = (facets: ProductFacets): boolean =>
+  facets.minPrice !== undefined || facets.maxPrice !== undefined || !!facets.minRating
+  || !!facets.tags?.length || !!facets.updatedWithinDays || !!facets.eliteOnly;
+
+// --- COUNTS ---
+
+export interface FacetCounts {
+  total: number; // Candidates matching every active facet
+  priceRanges: { min?: number; max?: number; count: number }[];
+  ratings: { min: number; count: number }[];
+  tags: { tag: string; count: number }[];
+  updatedWithin: { days: number; count: number }[];
+  elite: number;
+  sampled?: boolean; // Counted over a bounded window of the candidates, so the real totals may be higher
+}
+
+// Counts how many candidates each option would leave, given the other facets already chosen
+export const countFacets = (candidates: Product[], facets: ProductFacets, now: number = Date.now()): FacetCounts => {
+  const without = (name: FacetName) => candidates.filter(p => matchesFacets(p, facets, now, name));
+  const count = (products: Product[], name: FacetName, option: ProductFacets) =>
+    products.filter(p => FACET_TESTS[name](p, option, now)).length;
+
+  const byPrice = without('price');
+  const byRating = without('rating');
+  const byUpdated = without('updated');
+  const byElite = without('elite');
+
+  // Selected tags stay listed even if nothing else carries them, so they can be cleared
+  const tagCounts = new Map<string, number>((facets.tags || []).map(tag => [tag.toLowerCase(), 0]));
+  candidates.filter(p => matchesFacets(p, facets, now)).forEach(p => {
+    new Set((p.tags || []).map(t => t.toLowerCase())).forEach(tag => tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1));
+  });
+
+  return {
+    total: candidates.filter(p => matchesFacets(p, facets, now)).length,
+    priceRanges: PRICE_RANGES.map(range => ({ ...range, count: count(byPrice, 'price', { minPrice: range.min, maxPrice: range.max }) })),
+    ratings: RATING_STEPS.map(min => ({ min, count: count(byRating, 'rating', { minRating: min }) })),
+    tags: Array.from(tagCounts.entries())
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+      .slice(0, Math.max(TAG_LIMIT, facets.tags?.length || 0)),
+    updatedWithin: UPDATED_WITHIN_DAYS.map(days => ({ days, count: count(byUpdated, 'updated', { updatedWithinDays: days }) })),
+    elite: count(byElite, 'elite', { eliteOnly: true })
+  };
+};
@@ -0,0 +1,126 @@
+import {
+  doc,
+  setDoc,
+  getDoc,
+  collection,
+  query,
+  where,
+  getDocs,
+  updateDoc,
+  addDoc,
+  orderBy,
+  increment as firestoreIncrement,
+  deleteField as firestoreDeleteField,
+  limit,
+  startAfter,
+  documentId,
+  runTransaction,
+  onSnapshot,
+  DocumentData,
+  Firestore,
+  QueryConstraint
+} from 'firebase/firestore';
+import {
+  createUserWithEmailAndPassword,
+  signInWithEmailAndPassword,
+  signInWithPopup,
+  onAuthStateChanged,
+  signOut,
+  User as FirebaseUser
+} from 'firebase/auth';
+import { auth, db as projectDb, googleProvider } from './firebase';
+import { DataStore, AuthIdentity, CollectionName, Entity, Patch, QuerySpec, isIncrement, isDelete } from './dataStore';
+
+const toIdentity = (user: FirebaseUser): AuthIdentity => ({
+  uid: user.uid,
+  email: user.email,
+  displayName: user.displayName,
+  photoURL: user.photoURL
+});
+
+const withId = <K extends CollectionName>(id: string, data: DocumentData): Entity<K> =>
+  ({ id, ...data } as unknown as Entity<K>);
+
+const toFirestorePatch = (patch: Patch<any>): DocumentData =>
+  Object.fromEntries(
+    Object.entries(patch).map(([field, value]) => [
+      field,
+      isIncrement(value) ? firestoreIncrement(value.by) : isDelete(value) ? firestoreDeleteField() : value
+    ])
+  );
+
+const toConstraints = (spec: QuerySpec<any> = {}): QueryConstraint[] => {
+  const constraints: QueryConstraint[] = (spec.where || []).map(([field, op, value]) => where(field, op, value));
+  if (spec.orderBy) {
+    constraints.push(orderBy(spec.orderBy[0], spec.orderBy[1]));
+    // Firestore already breaks ties by document id in this direction; naming it lets the cursor include the id
+    if (spec.startAfter) constraints.push(orderBy(documentId(), spec.orderBy[1]), startAfter(...spec.startAfter));
+  }
+  if (spec.limit) constraints.push(limit(spec.limit));
+  return constraints;
+};
+
+// `db` defaults to the live project; the rules tests pass an emulator instance signed in as a test user
+export const createFirestoreStore = (db: Firestore = projectDb): DataStore => ({
+  auth: {
+    signIn: async (email, password) => toIdentity((await signInWithEmailAndPassword(auth, email, password)).user),
+    signUp: async (email, password) => toIdentity((await createUserWithEmailAndPassword(auth, email, password)).user),
+    signInWithGoogle: async () => toIdentity((await signInWithPopup(auth, googleProvider)).user),
+    signOut: () => signOut(auth),
+    onChange: (callback) => onAuthStateChanged(auth, user => callback(user ? toIdentity(user) : null))
+  },
+
+  get: async (col, id) => {
+    const snap = await getDoc(doc(db, col, id));
+    return snap.exists() ? withId(snap.id, snap.data()) : null;
+  },
+
+  list: async (col, spec) => {
+    const snapshot = await getDocs(query(collection(db, col), ...toConstraints(spec)));
+    return snapshot.docs.map(d => withId(d.id, d.data()));
+  },
+
+  add: async (col, data) => {
+    const ref = await addDoc(collection(db, col), data as DocumentData);
+    return withId(ref.id, data as DocumentData);
+  },
+
+  set: async (col, id, data) => {
+    await setDoc(doc(db, col, id), data as DocumentData);
+  },
+
+  update: async (col, id, patch) => {
+    await updateDoc(doc(db, col, id), toFirestorePatch(patch));
+  },
+
+  runTransaction: (fn) => runTransaction(db, t => fn({
+    get: async (col, id) => {
+      const snap = await t.get(doc(db, col, id));
+      return snap.exists() ? withId(snap.id, snap.data()) : null;
+    },
+    set: (col, id, data) => {
+      t.set(doc(db, col, id), data as DocumentData);
+    },
+    update: (col, id, patch) => {
+      t.update(doc(db, col, id), toFirestorePatch(patch));
+    },
+    add: (col, data) => {
+      const ref = doc(collection(db, col));
+      t.set(ref, data as DocumentData);
+      return ref.id;
+    },
+    delete: (col, id) => {
+      t.delete(doc(db, col, id));
+    }
+  })),
+
+  subscribe: (col, spec, callback, onError) =>
+    onSnapshot(
+      query(collection(db, col), ...toConstraints(spec)),
+      snapshot => callback(snapshot.docs.map(d => withId(d.id, d.data()))),
+      error => {
+        console.error(`Live query on ${col} failed:`, error);
+        onError?.(error);
+      }
+    )
+});
@@ -0,0 +1,97 @@
+import { Transaction } from '../types';
+
+// --- RUNNING BALANCES ---
+
+export interface LedgerEntry extends Transaction {
+  balanceAfter: number;
+}
+
+export interface LedgerFilter {
+  types?: Transaction['type'][];
+  from?: number; // Inclusive, ms since epoch
+  to?: number;   // Exclusive
+}
+
+// Walks back from the live balance so every row reconciles with what the vault shows today,
+// even for accounts whose opening balance predates the ledger.
+export const withRunningBalances = (transactions: Transaction[], currentBalance: number): LedgerEntry[] => {
+  const newestFirst = [...transactions].sort((a, b) => b.createdAt - a.createdAt);
+  let balance = currentBalance;
+  return newestFirst.map(t => {
+    const entry = { ...t, balanceAfter: balance };
+    balance -= t.amount;
+    return entry;
+  });
+};
+
+export const filterLedger = (entries: LedgerEntry[], { types, from, to }: LedgerFilter): LedgerEntry[] =>
+  entries.filter(e =>
+    (!types?.length || types.includes(e.type)) &&
+    (from === undefined || e.createdAt >= from) &&
+    (to === undefined || e.createdAt < to)
+  );
+
+// --- MONTHLY STATEMENTS ---
+
+export interface Statement {
+  month: string; // YYYY-MM
+  openingBalance: number;
+  closingBalance: number;
+  credits: number;
+  debits: number;
+  entries: LedgerEntry[]; // Oldest first, as accountants read them
+}
+
+export const monthBounds = (month: string): { from: number; to: number } => {
+  const [year, m] = month.split('-').map(Number);
+  return { from: new Date(year, m - 1, 1).getTime(), to: new Date(year, m, 1).getTime() };
+};
+
+export const monthKey = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Months with at least one entry, newest first
+export const statementMonths = (entries: LedgerEntry[]): string[] =>
+  Array.from(new Set(entries.map(e => monthKey(e.createdAt)))).sort().reverse();
+
+export const buildStatement = (entries: LedgerEntry[], month: string): Statement => {
+  const { from, to } = monthBounds(month);
+  const rows = filterLedger(entries, { from, to }).reverse();
+  // A quiet month carries the balance of the nearest entry on either side
+  const lastBefore = entries.find(e => e.createdAt < from);
+  const firstAfter = [...entries].reverse().find(e => e.createdAt >= to);
+  const openingBalance = rows.length
+    ? rows[0].balanceAfter - rows[0].amount
+    : lastBefore?.balanceAfter ?? (firstAfter ? firstAfter.balanceAfter - firstAfter.amount : 0);
+  const credits = rows.filter(e => e.amount > 0).reduce((sum, e) => sum + e.amount, 0);
+  const debits = rows.filter(e => e.amount < 0).reduce((sum, e) => sum - e.amount, 0);
+  return { month, openingBalance, closingBalance: openingBalance + credits - debits, credits, debits, entries: rows };
+};
+
+// --- EXPORTS ---
+
+// Text that a spreadsheet would read as a formula (listing titles, descriptions) is prefixed with a quote.
+// Numbers are left alone so negative amounts stay numeric.
+export const csvCell = (value: string | number): string => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const statementToCsv = (statement: Statement): string => {
+  const lines = [
+    ['Date', 'Type', 'Description', 'Reference', 'Amount', 'Balance'],
+    ['', '', 'Opening balance', '', '', statement.openingBalance],
+    ...statement.entries.map(e => [
+      new Date(e.createdAt).toISOString(),
+      e.type,
+      e.description,
+      e.referenceId || e.id,
+      e.amount,
+      e.balanceAfter
+    ]),
+    ['', '', 'Closing balance', '', '', statement.closingBalance]
+  ];
+  return lines.map(line => line.map(csvCell).join(',')).join('\n');
+};
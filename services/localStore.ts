@@ -0,0 +1,310 @@
+import {
+  DataStore,
+  AuthBackend,
+  AuthIdentity,
+  CollectionName,
+  Entity,
+  Patch,
+  QuerySpec,
+  StoreTransaction,
+  isIncrement,
+  isDelete
+} from './dataStore';
+import { SEED_DATA, SEED_ACCOUNTS } from './seedData';
+
+// Browser-only backend: every collection lives in localStorage (or memory when
+// storage is unavailable) so the marketplace runs without a Firebase project.
+
+type Row = Record<string, any>;
+type Tables = Record<CollectionName, Record<string, Row>>;
+
+const DB_KEY = 'codastra.db';
+const ACCOUNTS_KEY = 'codastra.accounts';
+const SESSION_KEY = 'codastra.session';
+
+// --- PERSISTENCE ---
+
+const memory = new Map<string, string>();
+const hasLocalStorage = typeof localStorage !== 'undefined';
+
+const readKey = (key: string): string | null => hasLocalStorage ? localStorage.getItem(key) : memory.get(key) ?? null;
+const writeKey = (key: string, value: string) => hasLocalStorage ? localStorage.setItem(key, value) : memory.set(key, value);
+const removeKey = (key: string) => hasLocalStorage ? localStorage.removeItem(key) : memory.delete(key);
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const newId = () => Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+
+const keyed = <T extends { id: string }>(rows: T[]): Record<string, Row> =>
+  Object.fromEntries(rows.map(({ id, ...rest }) => [id, rest]));
+
+const seedTables = (): Tables => ({
+  users: Object.fromEntries(SEED_DATA.users.map(u => [u.uid, { ...u }])),
+  products: keyed(SEED_DATA.products),
+  productAssets: keyed(SEED_DATA.productAssets),
+  productRevisions: {},
+  productStats: keyed(SEED_DATA.productStats),
+  requests: keyed(SEED_DATA.requests),
+  transactions: keyed(SEED_DATA.transactions),
+  notifications: keyed(SEED_DATA.notifications),
+  withdrawals: keyed(SEED_DATA.withdrawals),
+  downloads: keyed(SEED_DATA.downloads),
+  emailOutbox: {},
+  paymentOrders: {},
+  disputes: {},
+  searchAlerts: {},
+  bundles: {},
+  coupons: {},
+  couponRedemptions: {},
+  analyticsEvents: {}
+});
+
+const emptyTables = (): Tables => ({
+  users: {},
+  products: {},
+  productAssets: {},
+  productRevisions: {},
+  productStats: {},
+  requests: {},
+  transactions: {},
+  notifications: {},
+  withdrawals: {},
+  downloads: {},
+  emailOutbox: {},
+  paymentOrders: {},
+  disputes: {},
+  searchAlerts: {},
+  bundles: {},
+  coupons: {},
+  couponRedemptions: {},
+  analyticsEvents: {}
+});
+
+const saveTables = (tables: Tables) => writeKey(DB_KEY, JSON.stringify(tables));
+
+const loadTables = (): Tables => {
+  const raw = readKey(DB_KEY);
+  // Collections added after the data was first saved start out empty
+  if (raw) return { ...emptyTables(), ...JSON.parse(raw) };
+  const seeded = seedTables();
+  saveTables(seeded);
+  return seeded;
+};
+
+// --- QUERY EVALUATION ---
+
+const matches = (row: Row, [field, op, value]: [string, string, unknown]): boolean => {
+  const actual = row[field];
+  switch (op) {
+    case '==': return actual === value;
+    case '!=': return actual !== value;
+    case '<': return actual < (value as any);
+    case '<=': return actual <= (value as any);
+    case '>': return actual > (value as any);
+    case '>=': return actual >= (value as any);
+    case 'in': return (value as unknown[]).includes(actual);
+    case 'array-contains': return Array.isArray(actual) && actual.includes(value);
+    default: return false;
+  }
+};
+
+const runQuery = (table: Record<string, Row>, spec: QuerySpec<any> = {}): Row[] => {
+  let rows = Object.entries(table).map(([id, row]) => ({ id, ...row }));
+  for (const clause of spec.where || []) rows = rows.filter(r => matches(r, clause));
+  if (spec.orderBy) {
+    const [field, dir] = spec.orderBy;
+    const sign = dir === 'desc' ? -1 : 1;
+    const position = (value: unknown, id: string, row: Row) =>
+      (row[field] > value ? 1 : row[field] < value ? -1 : row.id > id ? 1 : row.id < id ? -1 : 0) * sign;
+    rows.sort((a, b) => position(b[field], b.id, a));
+    if (spec.startAfter) {
+      const [value, id] = spec.startAfter;
+      rows = rows.filter(r => position(value, id, r) > 0);
+    }
+  }
+  return spec.limit ? rows.slice(0, spec.limit) : rows;
+};
+
+const applyPatch = (row: Row, patch: Patch<any>): Row => {
+  const next = { ...row };
+  for (const [field, value] of Object.entries(patch)) {
+    if (isDelete(value)) delete next[field];
+    else next[field] = isIncrement(value) ? (Number(next[field]) || 0) + value.by : clone(value);
+  }
+  return next;
+};
+
+const tableOf = (tables: Tables, col: CollectionName): Record<string, Row> => tables[col];
+
+const toEntity = <K extends CollectionName>(id: string, row: Row): Entity<K> =>
+  clone({ id, ...row }) as unknown as Entity<K>;
+
+// --- AUTHENTICATION ---
+
+type Accounts = Record<string, { uid: string; passwordHash: string }>;
+
+const hashPassword = async (password: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`codastra:${password}`));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const loadAccounts = async (): Promise<Accounts> => {
+  const raw = readKey(ACCOUNTS_KEY);
+  if (raw) return JSON.parse(raw);
+  const seeded: Accounts = {};
+  for (const account of SEED_ACCOUNTS) {
+    seeded[account.email] = { uid: account.uid, passwordHash: await hashPassword(account.password) };
+  }
+  writeKey(ACCOUNTS_KEY, JSON.stringify(seeded));
+  return seeded;
+};
+
+const createLocalAuth = (): AuthBackend => {
+  const listeners = new Set<(identity: AuthIdentity | null) => void>();
+
+  const currentIdentity = (): AuthIdentity | null => {
+    const raw = readKey(SESSION_KEY);
+    return raw ? JSON.parse(raw) : null;
+  };
+
+  const setSession = (identity: AuthIdentity | null) => {
+    if (identity) writeKey(SESSION_KEY, JSON.stringify(identity));
+    else removeKey(SESSION_KEY);
+    listeners.forEach(listener => listener(identity));
+  };
+
+  return {
+    signIn: async (email, password) => {
+      const account = (await loadAccounts())[email.toLowerCase()];
+      if (!account || account.passwordHash !== await hashPassword(password)) throw new Error('Invalid credentials.');
+      const identity: AuthIdentity = { uid: account.uid, email: email.toLowerCase(), displayName: null, photoURL: null };
+      setSession(identity);
+      return identity;
+    },
+
+    signUp: async (email, password) => {
+      if (password.length < 6) throw new Error('Key phrase must be at least 6 characters.');
+      const accounts = await loadAccounts();
+      const normalized = email.toLowerCase();
+      if (accounts[normalized]) throw new Error('Identity already registered.');
+      const identity: AuthIdentity = { uid: `local-${newId()}`, email: normalized, displayName: null, photoURL: null };
+      accounts[normalized] = { uid: identity.uid, passwordHash: await hashPassword(password) };
+      writeKey(ACCOUNTS_KEY, JSON.stringify(accounts));
+      setSession(identity);
+      return identity;
+    },
+
+    signInWithGoogle: async () => {
+      throw new Error('Google Neural Link is unavailable on the local backend.');
+    },
+
+    signOut: async () => setSession(null),
+
+    onChange: (callback) => {
+      listeners.add(callback);
+      // Firebase reports the restored session asynchronously; match that timing
+      setTimeout(() => callback(currentIdentity()), 0);
+      return () => { listeners.delete(callback); };
+    }
+  };
+};
+
+// --- STORE ---
+
+export const createLocalStore = (): DataStore => {
+  // Writes run one at a time so a transaction never interleaves with another write
+  let queue: Promise<unknown> = Promise.resolve();
+  const exclusive = <T>(task: () => Promise<T> | T): Promise<T> => {
+    const run = queue.then(task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  // Live queries re-run after every local write, and on storage events written by other tabs
+  const watchers = new Set<() => void>();
+  const persist = (tables: Tables) => {
+    saveTables(tables);
+    watchers.forEach(watch => watch());
+  };
+
+  const requireRow = (tables: Tables, col: CollectionName, id: string): Row => {
+    const row = tableOf(tables, col)[id];
+    if (!row) throw new Error(`No document at ${col}/${id}.`);
+    return row;
+  };
+
+  return {
+    auth: createLocalAuth(),
+
+    get: async (col, id) => {
+      const row = loadTables()[col][id];
+      return row ? toEntity(id, row) : null;
+    },
+
+    list: async (col, spec) => runQuery(loadTables()[col], spec).map(({ id, ...row }) => toEntity(id, row)),
+
+    add: (col, data) => exclusive(() => {
+      const tables = loadTables();
+      const id = newId();
+      tableOf(tables, col)[id] = clone(data);
+      persist(tables);
+      return toEntity(id, data);
+    }),
+
+    set: (col, id, data) => exclusive(() => {
+      const tables = loadTables();
+      tableOf(tables, col)[id] = clone(data);
+      persist(tables);
+    }),
+
+    update: (col, id, patch) => exclusive(() => {
+      const tables = loadTables();
+      tableOf(tables, col)[id] = applyPatch(requireRow(tables, col, id), patch);
+      persist(tables);
+    }),
+
+    runTransaction: (fn) => exclusive(async () => {
+      // Work on a copy and only persist it once fn resolves, so a throw rolls everything back
+      const working = loadTables();
+      const tx: StoreTransaction = {
+        get: async (col, id) => {
+          const row = working[col][id];
+          return row ? toEntity(id, row) : null;
+        },
+        set: (col, id, data) => { tableOf(working, col)[id] = clone(data); },
+        update: (col, id, patch) => { tableOf(working, col)[id] = applyPatch(requireRow(working, col, id), patch); },
+        add: (col, data) => {
+          const id = newId();
+          tableOf(working, col)[id] = clone(data);
+          return id;
+        },
+        delete: (col, id) => { delete tableOf(working, col)[id]; }
+      };
+      const result = await fn(tx);
+      persist(working);
+      return result;
+    }),
+
+    subscribe: (col, spec, callback) => {
+      let last: string | null = null;
+      const emit = () => {
+        if (!watchers.has(emit)) return;
+        const rows = runQuery(loadTables()[col], spec);
+        const serialized = JSON.stringify(rows);
+        if (serialized === last) return;
+        last = serialized;
+        callback(rows.map(({ id, ...row }) => toEntity(id, row)));
+      };
+      const onStorage = (e: StorageEvent) => { if (e.key === DB_KEY) emit(); };
+      const hasWindow = typeof window !== 'undefined';
+
+      watchers.add(emit);
+      if (hasWindow) window.addEventListener('storage', onStorage);
+      setTimeout(emit, 0);
+      return () => {
+        watchers.delete(emit);
+        if (hasWindow) window.removeEventListener('storage', onStorage);
+      };
+    }
+  };
+};
@@ -1,34 +1,43 @@
-import { 
-  doc, 
-  setDoc, 
-  getDoc, 
-  collection, 
-  query, 
-  where, 
-  getDocs, 
-  updateDoc, 
-  addDoc, 
-  orderBy, 
-  increment,
-  Timestamp,
-  limit
-} from 'firebase/firestore';
-import { 
-  createUserWithEmailAndPassword, 
-  signInWithEmailAndPassword 
-} from 'firebase/auth';
-import { auth, db } from './firebase';
-import { 
-  Role, 
-  RequestStatus, 
-  User, 
-  Product, 
-  Request, 
-  Notification, 
-  Transaction, 
-  SavedFilter, 
-  Review, 
-  NotificationSettings 
+import { store } from './store';
+import { AuthIdentity, Patch, QuerySpec, StoreTransaction, increment, deleteField } from './dataStore';
+import { settleSale, creditProceeds, reverseSale, MIN_WITHDRAWAL, DISPUTE_WINDOW } from './settlement';
+import { notify } from './notifications';
+import { queueEmail } from './email';
+import { withRunningBalances, LedgerEntry } from './ledger';
+import { paymentProvider } from './payments';
+import { averageRating, compareModeration, comparePopularity, popularityScore, sumRatings, withPopularity } from './ranking';
+import { SearchIndex, createSearchIndex } from './searchIndex';
+import { Page, listPage, listFilteredPage, slicePage } from './pagination';
+import { FacetCounts, countFacets, hasFacets, matchesFacets, matchesQuery } from './facets';
+import { CartQuote, MAX_BUNDLE_DISCOUNT, MAX_CART_SIZE, MIN_BUNDLE_SIZE, quoteCart } from './bundles';
+import { COUPON_CODE_PATTERN, CouponInput, CouponReport, applyCoupon, normalizeCouponCode } from './coupons';
+import { INITIAL_VERSION, bumpVersion, currentVersion, diffListing, initialChangelog } from './versioning';
+import { SellerAnalytics, buildSellerAnalytics, dailyStatsId, dayKey, rangeStart } from './sellerAnalytics';
+import { aggregateViews, recordEvent, trackEvent, trackView } from './analytics';
+import { PRO_PRICE, PRO_TERM, RENEWAL_NOTICE, GRACE_PERIOD, ProMetrics, proState, isProActive, computeProMetrics } from './subscription';
+import {
+  Role,
+  RequestStatus,
+  User,
+  Product,
+  ProductDailyStats,
+  Request,
+  Dispute,
+  DisputeStatus,
+  Notification,
+  Transaction,
+  Withdrawal,
+  DownloadEvent,
+  PaymentOrder,
+  Review,
+  SavedFilter,
+  Bundle,
+  Coupon,
+  ListingEdit,
+  ProductRevision,
+  VersionBump,
+  ProductQuery,
+  NotificationSettings
 } from '../types';
 
 const defaultSettings: NotificationSettings = {
@@ -37,20 +46,272 @@ const defaultSettings: NotificationSettings = {
     emailNotifyPurchase: true
 };
 
+const MIN_TOP_UP = 100;
+const MAX_TOP_UP = 100000;
+
+// Each purchase allows DOWNLOAD_LIMIT downloads per rolling window so one account cannot act as a public mirror.
+// The security rules repeat both numbers.
+const DOWNLOAD_LIMIT = 5;
+const DOWNLOAD_WINDOW = 86400000;
+
+const readAssetLink = async (productId: string): Promise<string> => {
+  const asset = await store.get('productAssets', productId);
+  if (!asset) throw new Error("Asset link unavailable.");
+  return asset.link;
+};
+
+// Explore loads this many listings per scroll step; admin tooling pages through larger batches
+const PRODUCT_PAGE_SIZE = 12;
+const ADMIN_PAGE_SIZE = 50;
+
+// Indexed orderBy behind each Explore sort; each one has composite indexes in firestore.indexes.json
+const PRODUCT_SORTS: Record<string, [keyof Product & string, 'asc' | 'desc']> = {
+  Popular: ['popularity', 'desc'],
+  Newest: ['createdAt', 'desc'],
+  PriceLow: ['price', 'asc'],
+  PriceHigh: ['price', 'desc']
+};
+
+// Explore's option counts cover at most this many listings, the most popular first, so opening the
+// filter panel costs one bounded read however large a category grows
+const FACET_WINDOW = 300;
+
+// How many recent notifications the drawer keeps live
+const NOTIFICATION_FEED_LIMIT = 30;
+
+const validateRating = (rating: number): number => {
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) throw new Error("Rating must be between 1 and 5.");
+  return rating;
+};
+
+const validateComment = (comment: string): string => {
+  const trimmed = comment.trim();
+  if (trimmed.length < 3 || trimmed.length > 1000) throw new Error("Review must be 3 to 1000 characters.");
+  return trimmed;
+};
+
+// One request document per (buyer, product) pair keeps purchases idempotent
+const requestIdFor = (userId: string, productId: string) => `${userId}_${productId}`;
+
+// Id of the buyer's purchase row for a wallet checkout, chosen up front so the requests and the debit can name it
+const checkoutIdFor = (userId: string) => `${userId}_${Date.now()}`;
+
+// Every approved listing, indexed for search. A live query started on the first search keeps it current,
+// so approvals, edits and withdrawals made in other tabs or by other users reach it, and hits are served
+// from the snapshot without reading each listing again.
+interface SearchCatalogue {
+  index: SearchIndex;
+  products: Map<string, Product>;
+}
+
+let searchCatalogue: Promise<SearchCatalogue> | null = null;
+
+// Only listings whose searchable text changed are re-tokenised when a snapshot arrives
+const searchableText = (p: Product): string => [p.title, p.sellerName, p.category, p.description, ...(p.tags || [])].join('\n');
+
+const getSearchCatalogue = (): Promise<SearchCatalogue> => {
+  if (!searchCatalogue) {
+    searchCatalogue = new Promise((resolve, reject) => {
+      const catalogue: SearchCatalogue = { index: createSearchIndex(), products: new Map() };
+      store.subscribe('products', { where: [['approved', '==', true]] }, products => {
+        const live = new Map(products.map(p => [p.id, p]));
+        catalogue.products.forEach((_, id) => { if (!live.has(id)) catalogue.index.remove(id); });
+        live.forEach((product, id) => {
+          const previous = catalogue.products.get(id);
+          if (!previous || searchableText(previous) !== searchableText(product)) catalogue.index.upsert(product);
+        });
+        catalogue.products = live;
+        resolve(catalogue);
+      }, error => {
+        // The live query has stopped, so the next search starts a fresh one
+        searchCatalogue = null;
+        reject(error);
+      });
+    });
+  }
+  return searchCatalogue;
+};
+
+// Approved listings matching the category and, when set, the Elite-only facet
+const catalogueWhere = (filters: ProductQuery): QuerySpec<Product>['where'] => {
+  const where: QuerySpec<Product>['where'] = [['approved', '==', true]];
+  if (filters.category && filters.category !== 'All') where!.push(['category', '==', filters.category]);
+  if (filters.eliteOnly) where!.push(['isPriority', '==', true]);
+  return where;
+};
+
+// Every approved listing the search term hits in the category, before facets
+const searchCandidates = async (filters: ProductQuery): Promise<{ products: Product[]; relevance: Map<string, number> }> => {
+  const { index, products } = await getSearchCatalogue();
+  const hits = index.search(filters.searchTerm || '');
+  const category = filters.category && filters.category !== 'All' ? filters.category : null;
+  return {
+    products: hits.map(hit => products.get(hit.id)!).filter(p => !category || p.category === category),
+    relevance: new Map(hits.map(hit => [hit.id, hit.score]))
+  };
+};
+
+// Walks the whole catalogue in admin-sized pages, for maintenance jobs only
+const listAllProducts = async (): Promise<Product[]> => {
+  const products: Product[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: Page<Product> = await listPage('products', { orderBy: ['createdAt', 'desc'] }, cursor, ADMIN_PAGE_SIZE);
+    products.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return products;
+};
+
+// Keeps the searchAlerts mirror in step with the macro stored on the user
+const syncSearchAlert = (tx: StoreTransaction, userId: string, filter: SavedFilter) => {
+  tx.set('searchAlerts', `${userId}_${filter.id}`, {
+    userId,
+    filterId: filter.id,
+    filter,
+    active: !!filter.alertsEnabled,
+    updatedAt: Date.now()
+  });
+};
+
+// Tells every buyer whose alert-enabled macro matches a listing that just went live
+const notifySearchAlerts = async (product: Product): Promise<number> => {
+  const alerts = await store.list('searchAlerts', { where: [['active', '==', true]] });
+  const watchers = Array.from(new Map(
+    alerts
+      .filter(a => a.userId !== product.sellerId && matchesQuery(product, a.filter))
+      .map(a => [a.userId, a] as const)
+  ).values());
+  if (watchers.length === 0) return 0;
+  await store.runTransaction(async (tx) => {
+    watchers.forEach(a => notify(tx, a.userId, `New match for your "${a.filter.label}" macro: ${product.title}.`, product.id));
+  });
+  return watchers.length;
+};
+
+// Wishlisted listings alert on a price drop or a newly published version (a new lastUpdate).
+// `skip` leaves out users already told some other way, such as buyers hearing about a new version.
+const notifyWishlisters = async (before: Product, after: Product, skip: string[] = []): Promise<number> => {
+  const messages = [
+    ...(after.price < before.price ? [`Price drop on ${after.title}: ₹${before.price} → ₹${after.price}.`] : []),
+    ...(after.lastUpdate !== before.lastUpdate ? [`${after.title} has a new version out.`] : [])
+  ];
+  if (messages.length === 0 || !after.approved) return 0;
+  const watchers = (await store.list('users', { where: [['wishlist', 'array-contains', after.id]] }))
+    .filter(u => u.uid !== after.sellerId && !skip.includes(u.uid));
+  if (watchers.length === 0) return 0;
+  await store.runTransaction(async (tx) => {
+    watchers.forEach(u => messages.forEach(message => notify(tx, u.uid, message, after.id)));
+  });
+  return watchers.length;
+};
+
+// Write-only: `coupon` must have been read in the same transaction. Each discounted listing is one redemption.
+const redeemCoupon = (tx: StoreTransaction, coupon: Coupon, buyer: User, lines: { product: Product; requestId: string; discount: number }[]) => {
+  const used = lines.filter(line => line.discount > 0);
+  if (used.length === 0) return;
+  tx.update('coupons', coupon.id, {
+    redemptionCount: coupon.redemptionCount + used.length,
+    redeemedBy: { ...coupon.redeemedBy, [buyer.uid]: (coupon.redeemedBy[buyer.uid] || 0) + used.length }
+  });
+  const now = Date.now();
+  used.forEach(line => tx.add('couponRedemptions', {
+    couponId: coupon.id,
+    code: coupon.code,
+    issuedBy: coupon.createdBy,
+    userId: buyer.uid,
+    userName: buyer.name,
+    productId: line.product.id,
+    productTitle: line.product.title,
+    requestId: line.requestId,
+    discount: line.discount,
+    createdAt: now
+  }));
+};
+
+// Write-only: `stats` is the listing's bucket for `day`, read in the same transaction (null if none yet).
+// Views reach the same buckets in batches, from the analytics pipeline.
+const countDailyDownload = (tx: StoreTransaction, product: Product, day: string, stats: ProductDailyStats | null) => {
+  if (stats) tx.update('productStats', stats.id, { downloads: increment(1) });
+  else tx.set('productStats', dailyStatsId(product.id, day), { productId: product.id, sellerId: product.sellerId, day, views: 0, downloads: 1 });
+};
+
+const listActiveBundles = async (sellerIds: string[]): Promise<Bundle[]> => {
+  const bundles = await Promise.all(Array.from(new Set(sellerIds)).map(sellerId =>
+    store.list('bundles', { where: [['sellerId', '==', sellerId], ['active', '==', true]] })
+  ));
+  return bundles.flat();
+};
+
+// Pro listings jump the moderation queue; callers list the seller's products before the transaction
+const setListingPriority = (tx: StoreTransaction, listings: Product[], isPriority: boolean) => {
+  listings.filter(p => p.isPriority !== isPriority).forEach(p => tx.update('products', p.id, withPopularity(p, { isPriority })));
+};
+
+// Shared by the review endpoints: checks the verified purchase and recomputes the aggregates in one transaction
+const mutateReviews = async (
+  userId: string,
+  productId: string,
+  mutate: (reviews: Review[], user: User) => Review[],
+  notifySeller: boolean = false
+): Promise<Product> => {
+  return await store.runTransaction(async (tx) => {
+    const user = await tx.get('users', userId);
+    const product = await tx.get('products', productId);
+    const request = await tx.get('requests', requestIdFor(userId, productId));
+    if (!user || !product) throw new Error("Entity missing");
+    const seller = notifySeller ? await tx.get('users', product.sellerId) : null;
+    if (user.role !== Role.ADMIN && request?.status !== RequestStatus.APPROVED) {
+      throw new Error("Only verified buyers can audit this node.");
+    }
+
+    const reviews = mutate(product.reviews || [], user);
+    const reviewCount = reviews.length;
+    const ratingTotal = sumRatings(reviews);
+    const rating = averageRating(ratingTotal, reviewCount);
+    tx.update('products', productId, { reviews, reviewCount, ratingTotal, ...withPopularity(product, { rating }) });
+
+    if (notifySeller && product.sellerId !== userId) {
+      const review = reviews[reviews.length - 1];
+      notify(tx, product.sellerId, `${user.name} audited ${product.title}: ${review.rating}/5.`, productId);
+      queueEmail(tx, seller, 'review-received', {
+        productTitle: product.title,
+        reviewer: user.name,
+        rating: String(review.rating),
+        comment: review.comment
+      }, productId);
+    }
+    return { ...product, reviews, rating, reviewCount, ratingTotal };
+  });
+};
+
 export const api = {
   // --- AUTHENTICATION ---
-  
+
   login: async (email: string, password?: string): Promise<User | null> => {
     if (!password) return null;
-    const cred = await signInWithEmailAndPassword(auth, email, password);
-    return await api.getSellerData(cred.user.uid);
+    const identity = await store.auth.signIn(email, password);
+    return await api.refreshSubscription(identity.uid);
+  },
+
+  loginWithGoogle: async (): Promise<User> => {
+    const identity = await store.auth.signInWithGoogle();
+    return await api.syncExternalUser(identity);
+  },
+
+  logout: async (): Promise<void> => {
+    await store.auth.signOut();
+  },
+
+  onAuthChange: (callback: (identity: AuthIdentity | null) => void): (() => void) => {
+    return store.auth.onChange(callback);
   },
 
   register: async (name: string, email: string, password?: string): Promise<User | null> => {
     if (!password) return null;
-    const cred = await createUserWithEmailAndPassword(auth, email, password);
+    const identity = await store.auth.signUp(email, password);
     const newUser: User = {
-        uid: cred.user.uid,
+        uid: identity.uid,
         name,
         email,
         bio: 'initialized agent identity.',
@@ -63,19 +324,19 @@ export const api = {
         isPro: false,
         notificationSettings: { ...defaultSettings }
     };
-    await setDoc(doc(db, 'users', cred.user.uid), newUser);
+    await store.set('users', identity.uid, newUser);
     return newUser;
   },
 
-  syncExternalUser: async (firebaseUser: any): Promise<User> => {
-    const userDoc = await getDoc(doc(db, 'users', firebaseUser.uid));
-    if (userDoc.exists()) {
-      return userDoc.data() as User;
+  syncExternalUser: async (identity: AuthIdentity): Promise<User> => {
+    const existing = await store.get('users', identity.uid);
+    if (existing) {
+      return (await api.refreshSubscription(existing.uid)) || existing;
     }
     const newUser: User = {
-      uid: firebaseUser.uid,
-      name: firebaseUser.displayName || 'Cyber Agent',
-      email: firebaseUser.email,
+      uid: identity.uid,
+      name: identity.displayName || 'Cyber Agent',
+      email: identity.email || '',
       bio: 'Technical recruit in the Codastra network.',
       role: Role.USER,
       joinedAt: Date.now(),
@@ -85,196 +346,1154 @@ export const api = {
       reputation: 50,
       isPro: false,
       notificationSettings: { ...defaultSettings },
-      avatar: firebaseUser.photoURL
+      ...(identity.photoURL ? { avatar: identity.photoURL } : {})
     };
-    await setDoc(doc(db, 'users', firebaseUser.uid), newUser);
+    await store.set('users', identity.uid, newUser);
     return newUser;
   },
 
   // --- USER DATA ---
 
   getSellerData: async (uid: string): Promise<User | null> => {
-    const userDoc = await getDoc(doc(db, 'users', uid));
-    return userDoc.exists() ? (userDoc.data() as User) : null;
+    return await store.get('users', uid);
   },
 
   updateNotificationSettings: async (userId: string, settings: NotificationSettings): Promise<User | null> => {
-    const userRef = doc(db, 'users', userId);
-    await updateDoc(userRef, { notificationSettings: settings });
+    await store.update('users', userId, { notificationSettings: settings });
     return await api.getSellerData(userId);
   },
 
+  // --- SUBSCRIPTION ---
+
   upgradeToPro: async (userId: string): Promise<User | null> => {
-    const userRef = doc(db, 'users', userId);
-    const user = await api.getSellerData(userId);
-    if (!user) return null;
-    if (user.walletBalance < 999) throw new Error("Insufficient balance for Pro upgrade. Need ₹999.");
-    
-    await updateDoc(userRef, {
-      walletBalance: increment(-999),
-      isPro: true,
-      proExpiry: Date.now() + (365 * 86400000)
+    const listings = await store.list('products', { where: [['sellerId', '==', userId]] });
+    const upgraded = await store.runTransaction(async (tx) => {
+      const user = await tx.get('users', userId);
+      if (!user) return false;
+      const state = proState(user);
+      if (state === 'active') throw new Error("Elite Pro already active.");
+      if (user.walletBalance < PRO_PRICE) throw new Error(`Insufficient balance for Pro upgrade. Need ₹${PRO_PRICE}.`);
+
+      // Paying during grace keeps the original anniversary; otherwise the term starts now
+      const termStart = state === 'grace' ? user.proExpiry! : Date.now();
+      const proExpiry = termStart + PRO_TERM;
+      tx.update('users', userId, {
+        walletBalance: increment(-PRO_PRICE),
+        lastDebit: `pro/${proExpiry}`,
+        isPro: true,
+        proExpiry,
+        proAutoRenew: true,
+        proNotice: deleteField()
+      });
+      tx.set('transactions', `${userId}_pro_${proExpiry}`, {
+        userId,
+        amount: -PRO_PRICE,
+        type: 'subscription',
+        description: 'Elite Pro Subscription (1 Year)',
+        createdAt: Date.now()
+      });
+      setListingPriority(tx, listings, true);
+      return true;
     });
 
-    await addDoc(collection(db, 'transactions'), {
-      userId,
-      amount: -999,
-      type: 'subscription',
-      description: 'Elite Pro Subscription (1 Year)',
-      createdAt: Date.now()
+    return upgraded ? await api.getSellerData(userId) : null;
+  },
+
+  // Evaluated on every sign-in: warns before the term ends, renews from the wallet when
+  // auto-renew is on, holds benefits through the grace period and downgrades after it.
+  refreshSubscription: async (userId: string): Promise<User | null> => {
+    const current = await store.get('users', userId);
+    if (!current?.isPro) return current;
+
+    const listings = await store.list('products', { where: [['sellerId', '==', userId]] });
+    await store.runTransaction(async (tx) => {
+      const user = await tx.get('users', userId);
+      if (!user?.isPro || !user.proExpiry) return;
+      const now = Date.now();
+      const expiry = user.proExpiry;
+      const expiryDate = new Date(expiry).toLocaleDateString();
+      const noticeSent = (kind: 'renewal' | 'grace') => user.proNotice?.kind === kind && user.proNotice.expiry === expiry;
+      const patch: Patch<User> = {};
+
+      if (expiry > now) {
+        if (expiry - now <= RENEWAL_NOTICE && !noticeSent('renewal')) {
+          notify(tx, userId, user.proAutoRenew
+            ? `Elite Pro renews on ${expiryDate}. Keep ₹${PRO_PRICE} in your vault to stay elite.`
+            : `Elite Pro ends on ${expiryDate}. Resume auto-renew to keep your benefits.`);
+          patch.proNotice = { kind: 'renewal', expiry };
+        }
+      } else if (user.proAutoRenew && user.walletBalance >= PRO_PRICE && proState(user, now) === 'grace') {
+        patch.walletBalance = increment(-PRO_PRICE);
+        patch.proExpiry = expiry + PRO_TERM;
+        patch.lastDebit = `pro/${patch.proExpiry}`;
+        patch.proNotice = deleteField();
+        tx.set('transactions', `${userId}_pro_${patch.proExpiry}`, {
+          userId,
+          amount: -PRO_PRICE,
+          type: 'subscription',
+          description: 'Elite Pro Renewal (1 Year)',
+          createdAt: now
+        });
+        notify(tx, userId, `Elite Pro renewed until ${new Date(expiry + PRO_TERM).toLocaleDateString()}.`);
+      } else if (proState(user, now) === 'grace') {
+        if (!noticeSent('grace')) {
+          const graceEnds = new Date(expiry + GRACE_PERIOD).toLocaleDateString();
+          notify(tx, userId, user.proAutoRenew
+            ? `Elite Pro renewal failed: your vault is short of ₹${PRO_PRICE}. Top up before ${graceEnds} to keep your benefits.`
+            : `Elite Pro expired on ${expiryDate}. Renew before ${graceEnds} to keep your benefits.`);
+          patch.proNotice = { kind: 'grace', expiry };
+        }
+      } else {
+        patch.isPro = false;
+        patch.proAutoRenew = false;
+        patch.proNotice = deleteField();
+        setListingPriority(tx, listings, false);
+        notify(tx, userId, `Elite Pro has lapsed. Your listings have left the priority queue.`);
+      }
+
+      if (Object.keys(patch).length > 0) tx.update('users', userId, patch);
     });
 
     return await api.getSellerData(userId);
   },
 
+  cancelProSubscription: async (userId: string): Promise<User | null> => {
+    const user = await api.getSellerData(userId);
+    if (!user || !isProActive(user)) throw new Error("No active Elite Pro subscription.");
+    await store.update('users', userId, { proAutoRenew: false });
+    return await api.getSellerData(userId);
+  },
+
+  resumeProSubscription: async (userId: string): Promise<User | null> => {
+    const user = await api.getSellerData(userId);
+    if (!user || !isProActive(user)) throw new Error("No active Elite Pro subscription.");
+    await store.update('users', userId, { proAutoRenew: true });
+    // A resume during grace should charge immediately rather than wait for the next sign-in
+    return proState(user) === 'grace' ? await api.refreshSubscription(userId) : await api.getSellerData(userId);
+  },
+
+  getProMetrics: async (userId: string): Promise<ProMetrics | null> => {
+    const [user, listings, ledger] = await Promise.all([
+      api.getSellerData(userId),
+      api.getUserSubmissions(userId),
+      api.getTransactions(userId)
+    ]);
+    return user ? computeProMetrics(user, listings, ledger) : null;
+  },
+
   // --- PRODUCTS ---
 
-  getPublicProducts: async (filters: { searchTerm?: string; category?: string; sortBy?: string }): Promise<Product[]> => {
-    const q = query(collection(db, 'products'), where('approved', '==', true));
-    const snapshot = await getDocs(q);
-    let products = snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Product));
-
-    if (filters.searchTerm) {
-      const term = filters.searchTerm.toLowerCase();
-      products = products.filter(p => 
-        p.title.toLowerCase().includes(term) || 
-        p.category.toLowerCase().includes(term)
-      );
-    }
-    
-    if (filters.category && filters.category !== 'All') {
-      products = products.filter(p => p.category === filters.category);
+  getPublicProducts: async (filters: ProductQuery, cursor: string | null = null, pageSize: number = PRODUCT_PAGE_SIZE): Promise<Page<Product>> => {
+    const [field, dir] = PRODUCT_SORTS[filters.sortBy || ''] || PRODUCT_SORTS.Popular;
+    const now = Date.now();
+
+    if (!filters.searchTerm?.trim()) {
+      // Equality facets narrow the indexed query itself; range and tag facets are checked while scanning
+      const spec = { where: catalogueWhere(filters), orderBy: [field, dir] as [keyof Product & string, 'asc' | 'desc'] };
+      return hasFacets(filters)
+        ? await listFilteredPage('products', spec, p => matchesFacets(p, filters, now), cursor, pageSize)
+        : await listPage('products', spec, cursor, pageSize);
     }
 
-    if (filters.sortBy === 'PriceLow') products.sort((a, b) => a.price - b.price);
-    else if (filters.sortBy === 'PriceHigh') products.sort((a, b) => b.price - a.price);
-    else if (filters.sortBy === 'Newest') products.sort((a, b) => b.createdAt - a.createdAt);
-    else products.sort((a, b) => b.salesCount - a.salesCount);
+    // Search results are ranked in memory, so their pages are slices of one ordered hit list
+    const { products: candidates, relevance } = await searchCandidates(filters);
+    const products = candidates.filter(p => matchesFacets(p, filters, now));
 
-    return products;
+    if (filters.sortBy === 'Relevance') products.sort((a, b) => relevance.get(b.id)! - relevance.get(a.id)! || comparePopularity(a, b));
+    else if (field === 'popularity') products.sort(comparePopularity);
+    else products.sort((a, b) => ((a[field] as number) - (b[field] as number)) * (dir === 'desc' ? -1 : 1));
+
+    return slicePage(products, cursor, pageSize);
+  },
+
+  // Option counts for the Explore filter panel, over the top FACET_WINDOW listings the search and category would show
+  getProductFacets: async (filters: ProductQuery): Promise<FacetCounts> => {
+    const candidates = filters.searchTerm?.trim()
+      ? (await searchCandidates(filters)).products.slice(0, FACET_WINDOW + 1)
+      : await store.list('products', {
+          where: catalogueWhere({ category: filters.category }),
+          orderBy: PRODUCT_SORTS.Popular,
+          limit: FACET_WINDOW + 1
+        });
+    return { ...countFacets(candidates.slice(0, FACET_WINDOW), filters), sampled: candidates.length > FACET_WINDOW };
   },
 
+  // A plain read; pages that show a listing to a visitor report the view with trackView
   getProductById: async (id: string): Promise<Product | null> => {
-    const pDoc = await getDoc(doc(db, 'products', id));
-    if (pDoc.exists()) {
-      await updateDoc(doc(db, 'products', id), { viewCount: increment(1) });
-      return { id: pDoc.id, ...pDoc.data() } as Product;
-    }
-    return null;
+    return await store.get('products', id);
   },
 
   getUserSubmissions: async (userId: string): Promise<Product[]> => {
-    const q = query(collection(db, 'products'), where('sellerId', '==', userId));
-    const snapshot = await getDocs(q);
-    return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Product));
+    return await store.list('products', { where: [['sellerId', '==', userId]] });
   },
 
   submitProduct: async (userId: string, userName: string, productData: any): Promise<Product> => {
-    const user = await api.getSellerData(userId);
-    const newProduct = {
-      ...productData,
-      sellerId: userId,
-      sellerName: userName,
-      approved: false,
-      createdAt: Date.now(),
-      rating: 0,
-      reviewCount: 0,
-      salesCount: 0,
-      viewCount: 0,
-      downloadCount: 0,
-      lastUpdate: Date.now(),
-      reviews: [],
-      isPriority: user?.isPro || false
-    };
-    const docRef = await addDoc(collection(db, 'products'), newProduct);
-    return { id: docRef.id, ...newProduct } as Product;
+    // The delivery link never lands on the public listing; it goes to the access-controlled asset record
+    const { mediafireLink, ...listing } = productData;
+    return await store.runTransaction(async (tx) => {
+      const user = await tx.get('users', userId);
+      const now = Date.now();
+      const newProduct = {
+        ...listing,
+        sellerId: userId,
+        sellerName: userName,
+        approved: false,
+        createdAt: Date.now(),
+        rating: 0,
+        reviewCount: 0,
+        ratingTotal: 0,
+        salesCount: 0,
+        viewCount: 0,
+        downloadCount: 0,
+        lastUpdate: now,
+        reviews: [],
+        isPriority: user ? isProActive(user) : false,
+        version: INITIAL_VERSION,
+        changelog: initialChangelog(now)
+      };
+      newProduct.popularity = popularityScore(newProduct);
+      const id = tx.add('products', newProduct);
+      tx.set('productAssets', id, { productId: id, sellerId: userId, link: mediafireLink, updatedAt: Date.now() });
+      return { id, ...newProduct } as Product;
+    });
+  },
+
+  // Edits to a listing still awaiting moderation apply in place, sending a rejected one back to the queue.
+  // On a live listing they are filed as a pending revision instead; returns it, or null when applied in place.
+  editProduct: async (userId: string, productId: string, edit: Partial<ListingEdit>, bump: VersionBump, notes: string): Promise<ProductRevision | null> => {
+    if (edit.title !== undefined && !edit.title.trim()) throw new Error("Title cannot be empty.");
+    if (edit.price !== undefined && (!Number.isFinite(edit.price) || edit.price < 0)) throw new Error("Price must be zero or more.");
+    return await store.runTransaction(async (tx) => {
+      const user = await tx.get('users', userId);
+      const product = await tx.get('products', productId);
+      const asset = await tx.get('productAssets', productId);
+      if (!product) throw new Error("Product not found.");
+      if (product.sellerId !== userId && user?.role !== Role.ADMIN) throw new Error("Only the seller can edit this listing.");
+      const changes = diffListing(product, asset?.link || null, edit);
+      if (Object.keys(changes).length === 0) throw new Error("Nothing has changed.");
+      const now = Date.now();
+
+      if (!product.approved) {
+        const { assetLink, ...listing } = changes;
+        tx.update('products', productId, { ...listing, lastUpdate: now, rejected: false });
+        if (assetLink) tx.set('productAssets', productId, { productId, sellerId: product.sellerId, link: assetLink, updatedAt: now });
+        return null;
+      }
+
+      if (!notes.trim()) throw new Error("Add changelog notes for this version.");
+      const revision = {
+        productId,
+        sellerId: product.sellerId,
+        productTitle: product.title,
+        changes,
+        bump,
+        version: bumpVersion(currentVersion(product), bump),
+        notes: notes.trim(),
+        status: 'pending' as const,
+        submittedAt: now,
+        reviewedAt: null
+      };
+      tx.set('productRevisions', productId, revision);
+      return { id: productId, ...revision };
+    });
+  },
+
+  // The latest revision filed for a listing, whatever its outcome; visible to the seller and admins only
+  getProductRevision: async (productId: string): Promise<ProductRevision | null> => {
+    return await store.get('productRevisions', productId);
+  },
+
+  // Sellers and admins read the link directly; anyone else goes through downloadProduct, which counts against their limit
+  getDownloadLink: async (userId: string, productId: string): Promise<string> => {
+    const [user, product] = await Promise.all([api.getSellerData(userId), store.get('products', productId)]);
+    if (!product) throw new Error("Entity missing");
+    if (user?.role !== Role.ADMIN && product.sellerId !== userId) return await api.downloadProduct(userId, productId);
+    return await readAssetLink(productId);
+  },
+
+  downloadProduct: async (userId: string, productId: string): Promise<string> => {
+    const requestId = requestIdFor(userId, productId);
+    const day = dayKey(Date.now());
+    await store.runTransaction(async (tx) => {
+      const request = await tx.get('requests', requestId);
+      const product = await tx.get('products', productId);
+      const stats = await tx.get('productStats', dailyStatsId(productId, day));
+      if (!product) throw new Error("Entity missing");
+      if (!request || request.status !== RequestStatus.APPROVED) throw new Error("Access denied. Acquire this node to unlock its asset.");
+
+      const now = Date.now();
+      const recent = (request.recentDownloads || []).filter(t => t > now - DOWNLOAD_WINDOW);
+      if (recent.length >= DOWNLOAD_LIMIT) {
+        const hours = Math.ceil((recent[0] + DOWNLOAD_WINDOW - now) / 3600000);
+        throw new Error(`Download limit reached. Try again in ${hours}h.`);
+      }
+
+      tx.update('requests', requestId, { recentDownloads: [...recent, now] });
+      tx.update('products', productId, { downloadCount: increment(1) });
+      countDailyDownload(tx, product, day, stats);
+      recordEvent(tx, { type: 'download', userId, productId, sellerId: product.sellerId });
+      tx.add('downloads', { userId, productId, productTitle: product.title, createdAt: now });
+    });
+    // The rules only open the asset to a buyer for a few minutes after a download is logged
+    return await readAssetLink(productId);
+  },
+
+  getDownloadHistory: async (userId: string): Promise<DownloadEvent[]> => {
+    return await store.list('downloads', { where: [['userId', '==', userId]], orderBy: ['createdAt', 'desc'], limit: 50 });
+  },
+
+  // Moves links from listings created before asset records existed; returns how many were sealed
+  sealLegacyAssetLinks: async (): Promise<number> => {
+    const products = await listAllProducts() as (Product & { mediafireLink?: string })[];
+    const legacy = products.filter(p => p.mediafireLink);
+    for (const product of legacy) {
+      await store.runTransaction(async (tx) => {
+        tx.set('productAssets', product.id, {
+          productId: product.id,
+          sellerId: product.sellerId,
+          link: product.mediafireLink!,
+          updatedAt: Date.now()
+        });
+        tx.update('products', product.id, { mediafireLink: deleteField() } as Patch<Product>);
+      });
+    }
+    return legacy.length;
+  },
+
+  // --- REVIEWS ---
+
+  submitReview: async (userId: string, productId: string, rating: number, comment: string): Promise<Product> => {
+    return await mutateReviews(userId, productId, (reviews, user) => {
+      if (reviews.some(r => r.userId === userId)) throw new Error("You have already audited this node. Edit your review instead.");
+      return [...reviews, {
+        id: `rev${Date.now()}`,
+        userId,
+        userName: user.name,
+        rating: validateRating(rating),
+        comment: validateComment(comment),
+        createdAt: Date.now()
+      }];
+    }, true);
+  },
+
+  editReview: async (userId: string, productId: string, rating: number, comment: string): Promise<Product> => {
+    return await mutateReviews(userId, productId, (reviews) => {
+      if (!reviews.some(r => r.userId === userId)) throw new Error("Review not found");
+      return reviews.map(r => r.userId === userId
+        ? { ...r, rating: validateRating(rating), comment: validateComment(comment), updatedAt: Date.now() }
+        : r);
+    });
+  },
+
+  deleteReview: async (userId: string, productId: string, reviewId: string): Promise<Product> => {
+    return await mutateReviews(userId, productId, (reviews, user) => {
+      const review = reviews.find(r => r.id === reviewId);
+      if (!review) throw new Error("Review not found");
+      if (review.userId !== userId && user.role !== Role.ADMIN) throw new Error("Access denied");
+      return reviews.filter(r => r.id !== reviewId);
+    });
   },
 
   // --- TRANSACTIONS & PURCHASES ---
 
-  addFunds: async (userId: string, amount: number): Promise<number> => {
-    const userRef = doc(db, 'users', userId);
-    await updateDoc(userRef, { walletBalance: increment(amount) });
-    await addDoc(collection(db, 'transactions'), {
-      userId,
-      amount,
-      type: 'deposit',
-      description: 'Wallet Deposit via Secure Gateway',
-      createdAt: Date.now()
+  // --- WALLET TOP-UPS ---
+
+  // Safe to retry: the same idempotency key always resolves to the same order
+  createTopUpOrder: async (userId: string, amount: number, idempotencyKey: string): Promise<PaymentOrder> => {
+    if (!Number.isInteger(amount) || amount < MIN_TOP_UP || amount > MAX_TOP_UP) {
+      throw new Error(`Top-ups must be between ₹${MIN_TOP_UP} and ₹${MAX_TOP_UP}.`);
+    }
+    const id = `${userId}_${idempotencyKey}`;
+    const existing = await store.get('paymentOrders', id);
+    if (existing) return existing;
+
+    const providerOrder = await paymentProvider.createOrder({ amount, currency: 'INR', idempotencyKey, userId });
+    return await store.runTransaction(async (tx) => {
+      const raced = await tx.get('paymentOrders', id);
+      if (raced) return raced;
+      const order = {
+        userId,
+        amount,
+        provider: paymentProvider.name,
+        providerOrderId: providerOrder.providerOrderId,
+        idempotencyKey,
+        status: 'pending' as const,
+        createdAt: Date.now(),
+        paidAt: null
+      };
+      tx.set('paymentOrders', id, order);
+      return { id, ...order };
     });
-    const updated = await api.getSellerData(userId);
-    return updated?.walletBalance || 0;
+  },
+
+  // Hands the payment to the gateway; the wallet is credited later by handlePaymentWebhook (services/paymentWebhooks.ts)
+  confirmTopUp: async (userId: string, orderId: string, paymentMethod: string): Promise<PaymentOrder> => {
+    const order = await store.get('paymentOrders', orderId);
+    if (!order || order.userId !== userId) throw new Error("Top-up not found");
+    if (order.status !== 'pending') return order;
+    await paymentProvider.confirm(order.providerOrderId, paymentMethod);
+    return order;
+  },
+
+  // Only unspent top-ups can go back; the debit happens when the refund webhook arrives
+  refundTopUp: async (orderId: string): Promise<boolean> => {
+    const order = await store.get('paymentOrders', orderId);
+    if (!order || order.status !== 'paid') throw new Error("Only completed top-ups can be refunded");
+    const user = await api.getSellerData(order.userId);
+    if (!user || user.walletBalance < order.amount) throw new Error("Top-up funds were already spent");
+    await paymentProvider.refund(order.providerOrderId, order.amount);
+    return true;
+  },
+
+  subscribeTopUps: (userId: string, callback: (orders: PaymentOrder[]) => void): (() => void) => {
+    return store.subscribe('paymentOrders', { where: [['userId', '==', userId]], orderBy: ['createdAt', 'desc'], limit: 5 }, callback);
   },
 
   getTransactions: async (userId: string): Promise<Transaction[]> => {
-    const q = query(collection(db, 'transactions'), where('userId', '==', userId), orderBy('createdAt', 'desc'));
-    const snapshot = await getDocs(q);
-    return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Transaction));
+    return await store.list('transactions', { where: [['userId', '==', userId]], orderBy: ['createdAt', 'desc'] });
   },
 
-  createRequest: async (userId: string, productId: string, paymentProof?: string, isWalletPurchase: boolean = false): Promise<Request> => {
-    const user = await api.getSellerData(userId);
-    const product = await api.getProductById(productId);
-    
-    if (!user || !product) throw new Error("Entity missing");
+  getWalletLedger: async (userId: string): Promise<LedgerEntry[]> => {
+    const [user, transactions] = await Promise.all([api.getSellerData(userId), api.getTransactions(userId)]);
+    return withRunningBalances(transactions, user?.walletBalance || 0);
+  },
+
+  createRequest: async (userId: string, productId: string, paymentProof?: string, isWalletPurchase: boolean = false, couponCode?: string): Promise<Request> => {
+    if (!isWalletPurchase && !paymentProof?.trim()) throw new Error("Payment proof required");
+    if (!isWalletPurchase && couponCode) throw new Error("Coupons apply to vault purchases only.");
+    const id = requestIdFor(userId, productId);
+    return await store.runTransaction(async (tx) => {
+      const user = await tx.get('users', userId);
+      const product = await tx.get('products', productId);
+      const existing = await tx.get('requests', id);
+      const seller = product ? await tx.get('users', product.sellerId) : null;
+      const coupon = couponCode ? await tx.get('coupons', normalizeCouponCode(couponCode)) : null;
+
+      if (!user || !product) throw new Error("Entity missing");
+      // Repeat clicks on an owned product resolve to the original request instead of charging again
+      if (existing && existing.status === RequestStatus.APPROVED) return existing;
+      if (existing && existing.status === RequestStatus.PENDING && !isWalletPurchase) return existing;
+
+      const couponDiscount = couponCode ? applyCoupon(quoteCart([product], []), coupon, userId).couponDiscount : 0;
+      const price = product.price - couponDiscount;
+      const redeemed = coupon && couponDiscount > 0 ? { couponCode: coupon.code, couponDiscount } : {};
+
+      const checkoutId = isWalletPurchase ? checkoutIdFor(userId) : undefined;
+      if (checkoutId) {
+        if (user.walletBalance < price) throw new Error("Insufficient balance");
+        const subsidy = coupon?.scope === 'site' ? couponDiscount : 0;
+        tx.update('users', userId, {
+          walletBalance: increment(-price),
+          lastDebit: `transactions/${checkoutId}`,
+          ...(user.cart?.includes(productId) ? { cart: user.cart.filter(id => id !== productId) } : {})
+        });
+        tx.update('products', productId, withPopularity(product, { salesCount: product.salesCount + 1 }));
+        const { sellerCredit } = settleSale(tx, { seller, product, buyerName: user.name, referenceId: id, checkoutId, amount: price, subsidy });
+        const credits = seller ? { [seller.uid]: sellerCredit } : {};
+        creditProceeds(tx, checkoutId, credits);
+        tx.set('transactions', checkoutId, {
+          userId,
+          amount: -price,
+          type: 'purchase',
+          description: `Purchased ${product.title}${coupon ? ` with code ${coupon.code}` : ''}`,
+          createdAt: Date.now(),
+          referenceId: id,
+          lines: { [productId]: price },
+          credits,
+          ...(seller ? { sellers: { [productId]: seller.uid }, proceeds: { [productId]: sellerCredit } } : {}),
+          ...(subsidy > 0 ? { subsidies: { [productId]: subsidy } } : {}),
+          ...redeemed
+        });
+        if (coupon) redeemCoupon(tx, coupon, user, [{ product, requestId: id, discount: couponDiscount }]);
+        recordEvent(tx, { type: 'purchase', userId, productId, sellerId: product.sellerId });
+        notify(tx, product.sellerId, `${product.title} was acquired by ${user.name}.`, productId);
+        queueEmail(tx, seller, 'product-sold', { productTitle: product.title, buyer: user.name, credit: `₹${sellerCredit}` }, productId);
+      }
+
+      const newRequest = {
+          userId,
+          productId,
+          paymentProof: paymentProof || '',
+          status: isWalletPurchase ? RequestStatus.APPROVED : RequestStatus.PENDING,
+          createdAt: Date.now(),
+          approvedAt: isWalletPurchase ? Date.now() : null,
+          isWalletPurchase,
+          amountPaid: price,
+          ...(checkoutId ? { checkoutId } : {}),
+          ...redeemed
+      };
+      tx.set('requests', id, newRequest);
+      return { id, ...newRequest };
+    });
+  },
+
+  getPurchaseRequest: async (userId: string, productId: string): Promise<Request | null> => {
+    return await store.get('requests', requestIdFor(userId, productId));
+  },
+
+  // --- CART ---
+
+  addToCart: async (userId: string, productId: string): Promise<string[]> => {
+    const [user, product, request] = await Promise.all([
+      store.get('users', userId),
+      store.get('products', productId),
+      store.get('requests', requestIdFor(userId, productId))
+    ]);
+    if (!user || !product?.approved) throw new Error("Product not available.");
+    if (product.sellerId === userId) throw new Error("You cannot buy your own listing.");
+    if (request?.status === RequestStatus.APPROVED) throw new Error("You already own this node.");
+    const cart = user.cart || [];
+    if (cart.includes(productId)) return cart;
+    if (cart.length >= MAX_CART_SIZE) throw new Error(`Your cart holds up to ${MAX_CART_SIZE} nodes. Check out first.`);
+    const updated = [...cart, productId];
+    await store.update('users', userId, { cart: updated });
+    return updated;
+  },
+
+  removeFromCart: async (userId: string, productId: string): Promise<string[]> => {
+    const user = await store.get('users', userId);
+    if (!user) return [];
+    const updated = (user.cart || []).filter(id => id !== productId);
+    await store.update('users', userId, { cart: updated });
+    return updated;
+  },
+
+  // Prices the cart as checkout would, leaving out anything withdrawn or already owned since it was added.
+  // Throws if the coupon cannot be used on it.
+  getCartQuote: async (userId: string, couponCode?: string): Promise<CartQuote> => {
+    const user = await store.get('users', userId);
+    const cart = user?.cart || [];
+    const [index, requests] = await Promise.all([
+      api.getProductsByIds(cart),
+      Promise.all(cart.map(id => store.get('requests', requestIdFor(userId, id))))
+    ]);
+    const products = cart
+      .map(id => index[id])
+      .filter((p, i) => p?.approved && requests[i]?.status !== RequestStatus.APPROVED);
+    const quote = quoteCart(products, await listActiveBundles(products.map(p => p.sellerId)));
+    if (!couponCode || quote.lines.length === 0) return quote;
+    return applyCoupon(quote, await store.get('coupons', normalizeCouponCode(couponCode)), userId);
+  },
+
+  // What a coupon would take off a single vault purchase; throws if it cannot be used on this listing
+  quoteCoupon: async (userId: string, productId: string, couponCode: string): Promise<{ discount: number; price: number }> => {
+    const [product, coupon] = await Promise.all([
+      store.get('products', productId),
+      store.get('coupons', normalizeCouponCode(couponCode))
+    ]);
+    if (!product) throw new Error("Product not found.");
+    const quote = applyCoupon(quoteCart([product], []), coupon, userId);
+    return { discount: quote.couponDiscount, price: quote.total };
+  },
+
+  // Buys the whole cart with one wallet debit: a request and a settled sale per listing, and one combined
+  // purchase row on the buyer's ledger. Listings already owned are skipped rather than charged twice.
+  checkoutCart: async (userId: string, couponCode?: string): Promise<{ checkoutId: string; requests: Request[]; total: number }> => {
+    const checkoutId = checkoutIdFor(userId);
+    // Bundles are read up front; the prices they discount are re-read inside the transaction
+    const listed = await Promise.all(((await store.get('users', userId))?.cart || []).map(id => store.get('products', id)));
+    const bundles = await listActiveBundles(listed.filter((p): p is Product => !!p).map(p => p.sellerId));
+
+    return await store.runTransaction(async (tx) => {
+      const user = await tx.get('users', userId);
+      if (!user) throw new Error("Entity missing");
+      const cart = user.cart || [];
+      if (cart.length === 0) throw new Error("Your cart is empty.");
+      const products = await Promise.all(cart.map(id => tx.get('products', id)));
+      const existing = await Promise.all(cart.map(id => tx.get('requests', requestIdFor(userId, id))));
+      const coupon = couponCode ? await tx.get('coupons', normalizeCouponCode(couponCode)) : null;
+      const toBuy = products.filter((p, i): p is Product =>
+        !!p?.approved && p.sellerId !== userId && existing[i]?.status !== RequestStatus.APPROVED);
+      if (toBuy.length === 0) throw new Error("Nothing in your cart is available to buy.");
+      if (toBuy.length > MAX_CART_SIZE) throw new Error(`Check out at most ${MAX_CART_SIZE} nodes at a time.`);
+      const sellers = new Map<string, User>();
+      for (const sellerId of new Set(toBuy.map(p => p.sellerId))) {
+        const seller = await tx.get('users', sellerId);
+        if (seller) sellers.set(sellerId, seller);
+      }
+
+      const bundled = quoteCart(toBuy, bundles);
+      const quote = couponCode ? applyCoupon(bundled, coupon, userId) : bundled;
+      if (user.walletBalance < quote.total) throw new Error("Insufficient balance");
+
+      const now = Date.now();
+      const subsidy = quote.coupon?.scope === 'site' ? quote.couponDiscount : 0;
+      tx.update('users', userId, { walletBalance: increment(-quote.total), lastDebit: `transactions/${checkoutId}`, cart: [] });
+      if (quote.coupon) {
+        redeemCoupon(tx, quote.coupon, user, quote.lines.map(line => ({ product: line.product, requestId: requestIdFor(userId, line.product.id), discount: line.couponDiscount })));
+      }
 
-    if (isWalletPurchase) {
-      if (user.walletBalance < product.price) throw new Error("Insufficient balance");
-      await updateDoc(doc(db, 'users', userId), { walletBalance: increment(-product.price) });
-      await updateDoc(doc(db, 'products', productId), { salesCount: increment(1) });
-      await addDoc(collection(db, 'transactions'), {
+      const credits: Record<string, number> = {};
+      const sellerOf: Record<string, string> = {};
+      const proceeds: Record<string, number> = {};
+      const subsidies: Record<string, number> = {};
+      const requests = quote.lines.map(({ product, price, discount, couponDiscount, bundle }) => {
+        const id = requestIdFor(userId, product.id);
+        const seller = sellers.get(product.sellerId) || null;
+        tx.update('products', product.id, withPopularity(product, { salesCount: product.salesCount + 1 }));
+        const { sellerCredit } = settleSale(tx, {
+          seller,
+          product,
+          buyerName: user.name,
+          referenceId: id,
+          checkoutId,
+          amount: price,
+          subsidy: subsidy > 0 ? couponDiscount : 0
+        });
+        if (seller) {
+          credits[seller.uid] = (credits[seller.uid] || 0) + sellerCredit;
+          sellerOf[product.id] = seller.uid;
+          proceeds[product.id] = sellerCredit;
+        }
+        if (subsidy > 0 && couponDiscount > 0) subsidies[product.id] = couponDiscount;
+        recordEvent(tx, { type: 'purchase', userId, productId: product.id, sellerId: product.sellerId });
+        notify(tx, product.sellerId, `${product.title} was acquired by ${user.name}.`, product.id);
+        queueEmail(tx, seller, 'product-sold', { productTitle: product.title, buyer: user.name, credit: `₹${sellerCredit}` }, product.id);
+
+        const request = {
+          userId,
+          productId: product.id,
+          paymentProof: '',
+          status: RequestStatus.APPROVED,
+          createdAt: now,
+          approvedAt: now,
+          isWalletPurchase: true,
+          amountPaid: price,
+          checkoutId,
+          ...(bundle ? { bundleId: bundle.id, bundleDiscount: discount } : {}),
+          ...(couponDiscount > 0 ? { couponCode: quote.coupon!.code, couponDiscount } : {})
+        };
+        tx.set('requests', id, request);
+        return { id, ...request };
+      });
+      creditProceeds(tx, checkoutId, credits);
+      tx.set('transactions', checkoutId, {
         userId,
-        amount: -product.price,
+        amount: -quote.total,
         type: 'purchase',
-        description: `Purchased ${product.title}`,
-        createdAt: Date.now()
+        description: `Purchased ${toBuy.map(p => p.title).join(', ')}${quote.discount > 0 ? ` (bundle savings ₹${quote.discount})` : ''}${quote.coupon ? ` with code ${quote.coupon.code}` : ''}`,
+        createdAt: now,
+        referenceId: checkoutId,
+        lines: Object.fromEntries(quote.lines.map(line => [line.product.id, line.price])),
+        credits,
+        sellers: sellerOf,
+        proceeds,
+        ...(subsidy > 0 ? { subsidies } : {}),
+        ...(quote.coupon ? { couponCode: quote.coupon.code, couponDiscount: quote.couponDiscount } : {})
       });
+      return { checkoutId, requests, total: quote.total };
+    });
+  },
+
+  // --- BUNDLES ---
+
+  getSellerBundles: async (sellerId: string): Promise<Bundle[]> => {
+    const bundles = await store.list('bundles', { where: [['sellerId', '==', sellerId], ['active', '==', true]] });
+    return bundles.sort((a, b) => b.createdAt - a.createdAt);
+  },
+
+  getProductBundles: async (productId: string): Promise<Bundle[]> => {
+    const bundles = await store.list('bundles', { where: [['productIds', 'array-contains', productId]] });
+    return bundles.filter(b => b.active);
+  },
+
+  createBundle: async (sellerId: string, title: string, productIds: string[], discountPercent: number): Promise<Bundle> => {
+    const ids = Array.from(new Set(productIds));
+    if (!title.trim()) throw new Error("Bundle title cannot be empty.");
+    if (ids.length < MIN_BUNDLE_SIZE) throw new Error(`A bundle needs at least ${MIN_BUNDLE_SIZE} listings.`);
+    if (!Number.isInteger(discountPercent) || discountPercent < 1 || discountPercent > MAX_BUNDLE_DISCOUNT) {
+      throw new Error(`Bundle discounts must be between 1% and ${MAX_BUNDLE_DISCOUNT}%.`);
     }
+    const products = await Promise.all(ids.map(id => store.get('products', id)));
+    if (products.some(p => !p || p.sellerId !== sellerId)) throw new Error("Bundles can only include your own listings.");
+    return await store.add('bundles', {
+      sellerId,
+      title: title.trim(),
+      productIds: ids,
+      discountPercent,
+      active: true,
+      createdAt: Date.now()
+    });
+  },
 
-    const newRequest = {
-        userId,
+  // Retired rather than deleted, so past checkouts can still be traced to the bundle they used
+  archiveBundle: async (sellerId: string, bundleId: string): Promise<void> => {
+    const bundle = await store.get('bundles', bundleId);
+    if (!bundle || bundle.sellerId !== sellerId) throw new Error("Bundle not found.");
+    await store.update('bundles', bundleId, { active: false });
+  },
+
+  // --- COUPONS ---
+
+  createCoupon: async (userId: string, input: CouponInput): Promise<Coupon> => {
+    const code = normalizeCouponCode(input.code);
+    if (!COUPON_CODE_PATTERN.test(code)) throw new Error("Codes are 3–24 letters, digits, dashes or underscores.");
+    const user = await store.get('users', userId);
+    if (!user) throw new Error("User not found.");
+    const isAdmin = user.role === Role.ADMIN;
+    if (input.scope === 'site' && !isAdmin) throw new Error("Only admins can issue site-wide coupons.");
+
+    let sellerId: string | undefined = input.scope === 'seller' ? userId : undefined;
+    if (input.scope === 'product') {
+      const product = input.productId ? await store.get('products', input.productId) : null;
+      if (!product) throw new Error("Pick the listing this coupon discounts.");
+      if (product.sellerId !== userId && !isAdmin) throw new Error("You can only discount your own listings.");
+      sellerId = product.sellerId;
+    }
+
+    if (!Number.isInteger(input.value) || input.value < 1 || (input.kind === 'percent' && input.value > 100)) {
+      throw new Error(input.kind === 'percent' ? "Percent discounts must be between 1 and 100." : "Flat discounts must be at least ₹1.");
+    }
+    const limits = { maxRedemptions: input.maxRedemptions, perUserLimit: input.perUserLimit };
+    if (Object.values(limits).some(limit => limit !== undefined && (!Number.isInteger(limit) || limit < 1))) {
+      throw new Error("Usage limits must be whole numbers of at least 1.");
+    }
+    if (input.expiresAt !== undefined && input.expiresAt <= Date.now()) throw new Error("Expiry must be in the future.");
+
+    const coupon = {
+      code,
+      createdBy: userId,
+      scope: input.scope,
+      ...(sellerId ? { sellerId } : {}),
+      ...(input.scope === 'product' ? { productId: input.productId } : {}),
+      kind: input.kind,
+      value: input.value,
+      ...(input.maxRedemptions ? { maxRedemptions: input.maxRedemptions } : {}),
+      ...(input.perUserLimit ? { perUserLimit: input.perUserLimit } : {}),
+      ...(input.expiresAt ? { expiresAt: input.expiresAt } : {}),
+      redemptionCount: 0,
+      redeemedBy: {},
+      active: true,
+      createdAt: Date.now()
+    };
+    return await store.runTransaction(async (tx) => {
+      if (await tx.get('coupons', code)) throw new Error(`Code ${code} is already taken.`);
+      tx.set('coupons', code, coupon);
+      return { id: code, ...coupon };
+    });
+  },
+
+  setCouponActive: async (userId: string, couponId: string, active: boolean): Promise<void> => {
+    const [user, coupon] = await Promise.all([store.get('users', userId), store.get('coupons', couponId)]);
+    if (!coupon || (coupon.createdBy !== userId && user?.role !== Role.ADMIN)) throw new Error("Coupon not found.");
+    await store.update('coupons', couponId, { active });
+  },
+
+  // Every coupon the user issued, newest first, with who redeemed it on what
+  getCouponReport: async (userId: string): Promise<CouponReport[]> => {
+    const [coupons, redemptions] = await Promise.all([
+      store.list('coupons', { where: [['createdBy', '==', userId]] }),
+      store.list('couponRedemptions', { where: [['issuedBy', '==', userId]], orderBy: ['createdAt', 'desc'] })
+    ]);
+    return coupons
+      .map(coupon => {
+        const used = redemptions.filter(r => r.couponId === coupon.id);
+        return { coupon, redemptions: used, totalDiscount: used.reduce((sum, r) => sum + r.discount, 0) };
+      })
+      .sort((a, b) => b.coupon.createdAt - a.coupon.createdAt);
+  },
+
+  // --- ANALYTICS EVENTS ---
+
+  // Buffered and deduped per visitor and day; returns false for the seller's and admins' own views
+  trackView: (product: Product, viewer: User | null): boolean => trackView(product, viewer),
+
+  trackSearch: (userId: string | null, query: string): void => {
+    if (query.trim()) trackEvent({ type: 'search', userId, query: query.trim() });
+  },
+
+  // --- SELLER ANALYTICS ---
+
+  // Every submission the seller has made with its performance, plus daily charts for the last `days` days
+  getSellerAnalytics: async (userId: string, days: number): Promise<SellerAnalytics> => {
+    const [products, stats, transactions, revisions] = await Promise.all([
+      api.getUserSubmissions(userId),
+      store.list('productStats', { where: [['sellerId', '==', userId], ['day', '>=', rangeStart(days)]] }),
+      api.getTransactions(userId),
+      store.list('productRevisions', { where: [['sellerId', '==', userId], ['status', '==', 'pending']] })
+    ]);
+    return buildSellerAnalytics(products, stats, transactions, new Set(revisions.map(r => r.productId)), days);
+  },
+
+  // --- PAYMENT VERIFICATION ---
+
+  getPendingRequests: async (): Promise<Request[]> => {
+    return await store.list('requests', { where: [['status', '==', RequestStatus.PENDING]], orderBy: ['createdAt', 'asc'] });
+  },
+
+  approveRequest: async (requestId: string): Promise<boolean> => {
+    await store.runTransaction(async (tx) => {
+      const request = await tx.get('requests', requestId);
+      if (!request || request.status !== RequestStatus.PENDING) throw new Error("Request already processed");
+      const product = await tx.get('products', request.productId);
+      if (!product) throw new Error("Entity missing");
+      const buyer = await tx.get('users', request.userId);
+      const seller = await tx.get('users', product.sellerId);
+
+      tx.update('requests', requestId, { status: RequestStatus.APPROVED, approvedAt: Date.now() });
+      tx.update('products', product.id, withPopularity(product, { salesCount: product.salesCount + 1 }));
+      const buyerName = buyer?.name || 'a buyer';
+      const { sellerCredit } = settleSale(tx, { seller, product, buyerName, referenceId: requestId });
+      recordEvent(tx, { type: 'purchase', userId: request.userId, productId: product.id, sellerId: product.sellerId }, null);
+      notify(tx, request.userId, `Payment verified. ${product.title} is now unlocked in your terminal.`, product.id);
+      notify(tx, product.sellerId, `${product.title} was acquired by ${buyerName}.`, product.id);
+      queueEmail(tx, buyer, 'payment-verified', { productTitle: product.title }, product.id);
+      queueEmail(tx, seller, 'product-sold', { productTitle: product.title, buyer: buyerName, credit: `₹${sellerCredit}` }, product.id);
+    });
+    return true;
+  },
+
+  rejectRequest: async (requestId: string): Promise<boolean> => {
+    await store.runTransaction(async (tx) => {
+      const request = await tx.get('requests', requestId);
+      if (!request || request.status !== RequestStatus.PENDING) throw new Error("Request already processed");
+      const product = await tx.get('products', request.productId);
+      const buyer = await tx.get('users', request.userId);
+
+      tx.update('requests', requestId, { status: RequestStatus.REJECTED, approvedAt: null });
+      notify(tx, request.userId, `Payment proof for ${product?.title || 'your order'} could not be verified. Submit a new reference to retry.`, request.productId);
+      queueEmail(tx, buyer, 'payment-rejected', { productTitle: product?.title || 'your order' }, request.productId);
+    });
+    return true;
+  },
+
+  // --- DISPUTES ---
+
+  openDispute: async (userId: string, productId: string, reason: string, evidence: string): Promise<Dispute> => {
+    const trimmedReason = reason.trim();
+    if (trimmedReason.length < 10) throw new Error("Describe the problem in at least 10 characters.");
+    const id = requestIdFor(userId, productId);
+    return await store.runTransaction(async (tx) => {
+      const request = await tx.get('requests', id);
+      const existing = await tx.get('disputes', id);
+      const product = await tx.get('products', productId);
+      const buyer = await tx.get('users', userId);
+      if (!request || request.status !== RequestStatus.APPROVED || !product || !buyer) {
+        throw new Error("Only completed purchases can be disputed.");
+      }
+      if (existing) throw new Error("A dispute is already on file for this purchase.");
+      if (!request.approvedAt || Date.now() - request.approvedAt > DISPUTE_WINDOW) {
+        throw new Error(`Disputes close ${Math.round(DISPUTE_WINDOW / 86400000)} days after purchase.`);
+      }
+
+      const dispute = {
         productId,
-        paymentProof: paymentProof || '',
-        status: isWalletPurchase ? RequestStatus.APPROVED : RequestStatus.PENDING,
+        productTitle: product.title,
+        buyerId: userId,
+        buyerName: buyer.name,
+        sellerId: product.sellerId,
+        amountPaid: request.amountPaid ?? product.price,
+        reason: trimmedReason,
+        evidence: evidence.trim(),
+        status: DisputeStatus.OPEN,
         createdAt: Date.now(),
-        approvedAt: isWalletPurchase ? Date.now() : null,
-        isWalletPurchase
-    };
-    const docRef = await addDoc(collection(db, 'requests'), newRequest);
-    return { id: docRef.id, ...newRequest } as Request;
+        respondedAt: null,
+        resolvedAt: null
+      };
+      tx.set('disputes', id, dispute);
+      notify(tx, product.sellerId, `${buyer.name} opened a dispute on ${product.title}. Respond from your terminal.`, productId);
+      return { id, ...dispute };
+    });
+  },
+
+  respondToDispute: async (sellerId: string, disputeId: string, response: string): Promise<Dispute> => {
+    const trimmed = response.trim();
+    if (!trimmed) throw new Error("Response required.");
+    return await store.runTransaction(async (tx) => {
+      const dispute = await tx.get('disputes', disputeId);
+      if (!dispute) throw new Error("Dispute not found");
+      if (dispute.sellerId !== sellerId) throw new Error("Access denied");
+      if (dispute.status !== DisputeStatus.OPEN && dispute.status !== DisputeStatus.RESPONDED) throw new Error("Dispute already resolved");
+
+      const patch = { sellerResponse: trimmed, respondedAt: Date.now(), status: DisputeStatus.RESPONDED };
+      tx.update('disputes', disputeId, patch);
+      notify(tx, dispute.buyerId, `The seller responded to your dispute on ${dispute.productTitle}.`, dispute.productId);
+      return { ...dispute, ...patch };
+    });
+  },
+
+  resolveDispute: async (
+    disputeId: string,
+    resolution: 'full' | 'partial' | 'deny',
+    partialAmount?: number,
+    note?: string
+  ): Promise<Dispute> => {
+    // Sale rows are immutable, so reading them ahead of the transaction is safe
+    const rows = await store.list('transactions', { where: [['referenceId', '==', disputeId]] });
+    const sellerCredit = rows.find(t => t.type === 'sale')?.amount || 0;
+
+    return await store.runTransaction(async (tx) => {
+      const dispute = await tx.get('disputes', disputeId);
+      if (!dispute) throw new Error("Dispute not found");
+      if (dispute.status !== DisputeStatus.OPEN && dispute.status !== DisputeStatus.RESPONDED) throw new Error("Dispute already resolved");
+      const request = await tx.get('requests', disputeId);
+      const product = await tx.get('products', dispute.productId);
+
+      const refundAmount = resolution === 'full' ? dispute.amountPaid : resolution === 'partial' ? partialAmount || 0 : 0;
+      if (resolution === 'partial' && (!Number.isInteger(refundAmount) || refundAmount <= 0 || refundAmount >= dispute.amountPaid)) {
+        throw new Error(`Partial refunds must be between ₹1 and ₹${dispute.amountPaid - 1}.`);
+      }
+
+      const status = resolution === 'full' ? DisputeStatus.REFUNDED : resolution === 'partial' ? DisputeStatus.PARTIALLY_REFUNDED : DisputeStatus.DENIED;
+      const patch = {
+        status,
+        resolvedAt: Date.now(),
+        ...(refundAmount ? { refundAmount } : {}),
+        ...(note?.trim() ? { resolutionNote: note.trim() } : {})
+      };
+      tx.update('disputes', disputeId, patch);
+
+      if (refundAmount > 0) {
+        reverseSale(tx, {
+          buyerId: dispute.buyerId,
+          sellerId: dispute.sellerId,
+          productId: dispute.productId,
+          productTitle: dispute.productTitle,
+          amountPaid: dispute.amountPaid,
+          sellerCredit,
+          refundAmount,
+          referenceId: disputeId
+        });
+      }
+      // A full refund undoes the sale entirely, including the buyer's access to the asset
+      if (resolution === 'full') {
+        if (request) tx.update('requests', disputeId, { status: RequestStatus.REFUNDED });
+        if (product) tx.update('products', product.id, withPopularity(product, { salesCount: product.salesCount - 1 }));
+      }
+
+      const outcome = refundAmount > 0 ? `₹${refundAmount} was refunded` : 'it was denied';
+      notify(tx, dispute.buyerId, `Your dispute on ${dispute.productTitle} was resolved: ${outcome}.`, dispute.productId);
+      notify(tx, dispute.sellerId, `The dispute on ${dispute.productTitle} was resolved: ${outcome}.`, dispute.productId);
+      return { ...dispute, ...patch };
+    });
+  },
+
+  // Disputes the user is party to, as buyer or seller
+  getDisputes: async (userId: string): Promise<Dispute[]> => {
+    const [asBuyer, asSeller] = await Promise.all([
+      store.list('disputes', { where: [['buyerId', '==', userId]] }),
+      store.list('disputes', { where: [['sellerId', '==', userId]] })
+    ]);
+    return [...asBuyer, ...asSeller].sort((a, b) => b.createdAt - a.createdAt);
+  },
+
+  getOpenDisputes: async (): Promise<Dispute[]> => {
+    return await store.list('disputes', {
+      where: [['status', 'in', [DisputeStatus.OPEN, DisputeStatus.RESPONDED]]],
+      orderBy: ['createdAt', 'asc']
+    });
+  },
+
+  // --- PAYOUTS ---
+
+  requestWithdrawal: async (userId: string, amount: number, payoutDetails: string): Promise<Withdrawal> => {
+    if (!Number.isFinite(amount) || amount < MIN_WITHDRAWAL) throw new Error(`Minimum withdrawal is ₹${MIN_WITHDRAWAL}.`);
+    if (!payoutDetails.trim()) throw new Error("Payout destination required.");
+    return await store.runTransaction(async (tx) => {
+      const user = await tx.get('users', userId);
+      if (!user) throw new Error("Entity missing");
+      if (user.walletBalance < amount) throw new Error("Insufficient balance");
+
+      const withdrawal = {
+        userId,
+        amount,
+        payoutDetails: payoutDetails.trim(),
+        status: RequestStatus.PENDING,
+        createdAt: Date.now(),
+        processedAt: null
+      };
+      const id = tx.add('withdrawals', withdrawal);
+      // Funds are held at request time so they cannot be spent while the payout is reviewed
+      tx.update('users', userId, { walletBalance: increment(-amount), lastDebit: `withdrawals/${id}` });
+      tx.set('transactions', `${userId}_withdrawal_${id}`, {
+        userId,
+        amount: -amount,
+        type: 'withdrawal',
+        description: `Withdrawal to ${withdrawal.payoutDetails} (on hold)`,
+        createdAt: Date.now(),
+        referenceId: id
+      });
+      return { id, ...withdrawal };
+    });
+  },
+
+  getWithdrawals: async (userId: string): Promise<Withdrawal[]> => {
+    return await store.list('withdrawals', { where: [['userId', '==', userId]], orderBy: ['createdAt', 'desc'] });
+  },
+
+  getPendingWithdrawals: async (): Promise<Withdrawal[]> => {
+    return await store.list('withdrawals', { where: [['status', '==', RequestStatus.PENDING]], orderBy: ['createdAt', 'asc'] });
+  },
+
+  approveWithdrawal: async (withdrawalId: string): Promise<boolean> => {
+    await store.runTransaction(async (tx) => {
+      const withdrawal = await tx.get('withdrawals', withdrawalId);
+      if (!withdrawal || withdrawal.status !== RequestStatus.PENDING) throw new Error("Withdrawal already processed");
+      tx.update('withdrawals', withdrawalId, { status: RequestStatus.APPROVED, processedAt: Date.now() });
+      notify(tx, withdrawal.userId, `Payout of ₹${withdrawal.amount} to ${withdrawal.payoutDetails} was released.`);
+    });
+    return true;
+  },
+
+  rejectWithdrawal: async (withdrawalId: string, note?: string): Promise<boolean> => {
+    await store.runTransaction(async (tx) => {
+      const withdrawal = await tx.get('withdrawals', withdrawalId);
+      if (!withdrawal || withdrawal.status !== RequestStatus.PENDING) throw new Error("Withdrawal already processed");
+      tx.update('withdrawals', withdrawalId, { status: RequestStatus.REJECTED, processedAt: Date.now(), ...(note ? { note } : {}) });
+      tx.update('users', withdrawal.userId, { walletBalance: increment(withdrawal.amount) });
+      tx.add('transactions', {
+        userId: withdrawal.userId,
+        amount: withdrawal.amount,
+        type: 'withdrawal',
+        description: `Withdrawal to ${withdrawal.payoutDetails} reversed`,
+        createdAt: Date.now(),
+        referenceId: withdrawalId
+      });
+      notify(tx, withdrawal.userId, `Payout of ₹${withdrawal.amount} was declined${note ? `: ${note}` : ''}. Funds returned to your vault.`);
+    });
+    return true;
   },
 
   getUserPurchases: async (userId: string): Promise<any[]> => {
-    const q = query(collection(db, 'requests'), where('userId', '==', userId));
-    const snapshot = await getDocs(q);
-    const results = await Promise.all(snapshot.docs.map(async (d) => {
-        const reqData = d.data() as Request;
+    const requests = await store.list('requests', { where: [['userId', '==', userId]] });
+    const results = await Promise.all(requests.map(async (reqData) => {
         const product = await api.getProductById(reqData.productId);
         if(!product) return null;
-        return { ...product, purchaseStatus: reqData.status };
+        return { ...product, purchaseStatus: reqData.status, approvedAt: reqData.approvedAt };
     }));
     return results.filter(p => p !== null);
   },
 
   getNotifications: async (userId: string): Promise<Notification[]> => {
-      const q = query(collection(db, 'notifications'), where('to', '==', userId), orderBy('createdAt', 'desc'), limit(20));
-      const snapshot = await getDocs(q);
-      return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Notification));
+      return await store.list('notifications', { where: [['to', '==', userId]], orderBy: ['createdAt', 'desc'], limit: NOTIFICATION_FEED_LIMIT });
+  },
+
+  subscribeNotifications: (userId: string, callback: (notifications: Notification[]) => void): (() => void) => {
+    return store.subscribe('notifications', { where: [['to', '==', userId]], orderBy: ['createdAt', 'desc'], limit: NOTIFICATION_FEED_LIMIT }, callback);
+  },
+
+  // Counted separately from the feed so unread items older than the feed window still show up in the badge
+  subscribeUnreadCount: (userId: string, callback: (count: number) => void): (() => void) => {
+    return store.subscribe('notifications', { where: [['to', '==', userId], ['read', '==', false]] }, rows => callback(rows.length));
   },
 
-  getAllProductsAdmin: async (): Promise<Product[]> => {
-    const snapshot = await getDocs(collection(db, 'products'));
-    return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Product));
+  markNotificationRead: async (userId: string, notificationId: string): Promise<void> => {
+    const notification = await store.get('notifications', notificationId);
+    if (!notification || notification.to !== userId) throw new Error("Notification not found");
+    if (!notification.read) await store.update('notifications', notificationId, { read: true });
+  },
+
+  markAllNotificationsRead: async (userId: string): Promise<number> => {
+    const unread = await store.list('notifications', { where: [['to', '==', userId], ['read', '==', false]] });
+    if (unread.length === 0) return 0;
+    await store.runTransaction(async (tx) => {
+      unread.forEach(n => tx.update('notifications', n.id, { read: true }));
+    });
+    return unread.length;
+  },
+
+  getAllProductsAdmin: async (cursor: string | null = null, pageSize: number = ADMIN_PAGE_SIZE): Promise<Page<Product>> => {
+    return await listPage('products', { orderBy: ['createdAt', 'desc'] }, cursor, pageSize);
+  },
+
+  getProductsByIds: async (ids: string[]): Promise<Record<string, Product>> => {
+    const products = await Promise.all(Array.from(new Set(ids)).map(id => store.get('products', id)));
+    return Object.fromEntries(products.filter((p): p is Product => p !== null).map(p => [p.id, p]));
+  },
+
+  // Folds new views into the listing counters now instead of on the worker's next pass
+  aggregateAnalytics: async (): Promise<number> => {
+    return await aggregateViews();
+  },
+
+  // Backfills the stored popularity and ratingTotal on listings written before they existed, or after the formula changed
+  recomputeRankings: async (): Promise<number> => {
+    const stale = (await listAllProducts()).filter(p => p.popularity !== popularityScore(p) || p.ratingTotal !== sumRatings(p.reviews || []));
+    for (const product of stale) {
+      await store.update('products', product.id, { popularity: popularityScore(product), ratingTotal: sumRatings(product.reviews || []) });
+    }
+    return stale.length;
+  },
+
+  // Listings awaiting review, Elite submissions first and oldest first within each band
+  getModerationQueue: async (): Promise<Product[]> => {
+    const pending = await store.list('products', { where: [['approved', '==', false]] });
+    return pending.filter(p => !p.rejected).sort(compareModeration);
   },
 
   approveProduct: async (productId: string): Promise<boolean> => {
-    await updateDoc(doc(db, 'products', productId), { approved: true });
+    const approved = await store.runTransaction(async (tx) => {
+      const product = await tx.get('products', productId);
+      if (!product) throw new Error("Entity missing");
+      const seller = await tx.get('users', product.sellerId);
+      tx.update('products', productId, { approved: true, rejected: false });
+      notify(tx, product.sellerId, `${product.title} passed moderation and is now live in the vault.`, productId);
+      queueEmail(tx, seller, 'listing-approved', { productTitle: product.title }, productId);
+      return { ...product, approved: true, rejected: false };
+    });
+    await notifySearchAlerts(approved);
     return true;
   },
 
   rejectProduct: async (productId: string): Promise<boolean> => {
     // In a real app we might delete or flag it
-    await updateDoc(doc(db, 'products', productId), { approved: false, rejected: true });
+    await store.runTransaction(async (tx) => {
+      const product = await tx.get('products', productId);
+      if (!product) throw new Error("Entity missing");
+      const seller = await tx.get('users', product.sellerId);
+      tx.update('products', productId, { approved: false, rejected: true });
+      notify(tx, product.sellerId, `${product.title} was rejected during moderation.`, productId);
+      queueEmail(tx, seller, 'listing-rejected', { productTitle: product.title }, productId);
+    });
+    return true;
+  },
+
+  // Edits to live listings awaiting review, oldest first
+  getRevisionQueue: async (): Promise<ProductRevision[]> => {
+    const pending = await store.list('productRevisions', { where: [['status', '==', 'pending']] });
+    return pending.sort((a, b) => a.submittedAt - b.submittedAt);
+  },
+
+  // Publishes the revision as the listing's next version, then tells its buyers and wishlisters
+  approveRevision: async (productId: string): Promise<boolean> => {
+    const owners = (await store.list('requests', { where: [['productId', '==', productId], ['status', '==', RequestStatus.APPROVED]] }))
+      .map(r => r.userId);
+    const { before, after } = await store.runTransaction(async (tx) => {
+      const revision = await tx.get('productRevisions', productId);
+      const product = await tx.get('products', productId);
+      if (!product || revision?.status !== 'pending') throw new Error("No pending revision for this listing.");
+      const version = bumpVersion(currentVersion(product), revision.bump);
+      // Its changes were diffed against the version it was filed on; applying them over a newer one would undo that
+      if (version !== revision.version) throw new Error("The listing has changed since this revision was filed. Reject it and have the seller file it again.");
+      const { assetLink, ...listing } = revision.changes;
+      const now = Date.now();
+      const published = {
+        ...listing,
+        version,
+        lastUpdate: now,
+        changelog: [{ version, notes: revision.notes, publishedAt: now }, ...(product.changelog || initialChangelog(product.createdAt))]
+      };
+      tx.update('products', productId, published);
+      if (assetLink) tx.set('productAssets', productId, { productId, sellerId: product.sellerId, link: assetLink, updatedAt: now });
+      tx.update('productRevisions', productId, { status: 'approved', version, reviewedAt: now });
+
+      const title = listing.title || product.title;
+      notify(tx, product.sellerId, `Version ${version} of ${title} passed moderation and is now live.`, productId);
+      owners.filter(uid => uid !== product.sellerId).forEach(uid => notify(tx, uid, `${title} v${version} is out: ${revision.notes}`, productId));
+      return { before: product, after: { ...product, ...published } };
+    });
+    await notifyWishlisters(before, after, owners);
+    return true;
+  },
+
+  // The live version stays as it is
+  rejectRevision: async (productId: string): Promise<boolean> => {
+    await store.runTransaction(async (tx) => {
+      const revision = await tx.get('productRevisions', productId);
+      if (revision?.status !== 'pending') throw new Error("No pending revision for this listing.");
+      tx.update('productRevisions', productId, { status: 'rejected', reviewedAt: Date.now() });
+      notify(tx, revision.sellerId, `Version ${revision.version} of ${revision.productTitle} was rejected during moderation. The live version is unchanged.`, productId);
+    });
     return true;
   },
 
@@ -283,24 +1502,54 @@ export const api = {
     if (!user) return [];
     let wishlist = [...(user.wishlist || [])];
     if (wishlist.includes(productId)) wishlist = wishlist.filter(id => id !== productId);
-    else wishlist.push(productId);
-    await updateDoc(doc(db, 'users', userId), { wishlist });
+    else {
+      wishlist.push(productId);
+      trackEvent({ type: 'wishlist', userId, productId });
+    }
+    await store.update('users', userId, { wishlist });
     return wishlist;
   },
 
   saveUserFilter: async (userId: string, filter: Omit<SavedFilter, 'id'>): Promise<SavedFilter[]> => {
     const user = await api.getSellerData(userId);
     if (!user) return [];
-    const newFilters = [...(user.savedFilters || []), { ...filter, id: `filt${Date.now()}` }];
-    await updateDoc(doc(db, 'users', userId), { savedFilters: newFilters });
+    // Unset facets are dropped rather than stored as undefined, which Firestore rejects
+    const saved = Object.fromEntries(Object.entries(filter).filter(([, value]) => value !== undefined)) as Omit<SavedFilter, 'id'>;
+    const created = { ...saved, id: `filt${Date.now()}` };
+    const newFilters = [...(user.savedFilters || []), created];
+    await store.runTransaction(async (tx) => {
+      tx.update('users', userId, { savedFilters: newFilters });
+      if (created.alertsEnabled) syncSearchAlert(tx, userId, created);
+    });
     return newFilters;
   },
 
   deleteUserFilter: async (userId: string, filterId: string): Promise<SavedFilter[]> => {
     const user = await api.getSellerData(userId);
     if (!user) return [];
+    const removed = (user.savedFilters || []).find(f => f.id === filterId);
     const filtered = (user.savedFilters || []).filter(f => f.id !== filterId);
-    await updateDoc(doc(db, 'users', userId), { savedFilters: filtered });
+    await store.runTransaction(async (tx) => {
+      tx.update('users', userId, { savedFilters: filtered });
+      if (removed?.alertsEnabled) syncSearchAlert(tx, userId, { ...removed, alertsEnabled: false });
+    });
     return filtered;
   },
-};
\ No newline at end of file
+
+  // Renames a macro or switches its new-match alerts on and off
+  updateUserFilter: async (userId: string, filterId: string, changes: Partial<Pick<SavedFilter, 'label' | 'alertsEnabled'>>): Promise<SavedFilter[]> => {
+    const user = await api.getSellerData(userId);
+    if (!user) return [];
+    const current = (user.savedFilters || []).find(f => f.id === filterId);
+    if (!current) throw new Error("Macro not found.");
+    if (changes.label !== undefined && !changes.label.trim()) throw new Error("Macro label cannot be empty.");
+
+    const updated = { ...current, ...changes, ...(changes.label !== undefined ? { label: changes.label.trim() } : {}) };
+    const filters = user.savedFilters.map(f => f.id === filterId ? updated : f);
+    await store.runTransaction(async (tx) => {
+      tx.update('users', userId, { savedFilters: filters });
+      if (updated.alertsEnabled || current.alertsEnabled) syncSearchAlert(tx, userId, updated);
+    });
+    return filters;
+  },
+};
@@ -0,0 +1,14 @@
+import { StoreTransaction } from './dataStore';
+
+// --- IN-APP NOTIFICATIONS ---
+
+// Write-only, like settleSale: queues the notification inside the caller's transaction.
+export const notify = (tx: StoreTransaction, to: string, message: string, productId?: string): void => {
+  tx.add('notifications', {
+    to,
+    message,
+    read: false,
+    createdAt: Date.now(),
+    ...(productId ? { productId } : {})
+  });
+};
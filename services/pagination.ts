@@ -0,0 +1,78 @@
+import { store } from './store';
+import { CollectionName, Entity, QuerySpec } from './dataStore';
+
+// --- PAGES ---
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null; // Pass back to fetch the following page; null on the last one
+}
+
+// Cursors are opaque to callers: a base64 position that only this module interprets
+const encodeCursor = (position: unknown[]): string => btoa(encodeURIComponent(JSON.stringify(position)));
+
+const decodeCursor = (cursor: string): unknown[] => {
+  try {
+    const position = JSON.parse(decodeURIComponent(atob(cursor)));
+    if (Array.isArray(position)) return position;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error("Invalid page cursor.");
+};
+
+// Rows read per round when scanning past filtered-out rows, as a multiple of the page size
+const SCAN_FACTOR = 4;
+
+const positionOf = (row: unknown, field: string): [unknown, string] => {
+  const record = row as Record<string, unknown>;
+  return [record[field], record.id as string];
+};
+
+// One indexed query per page; fetching a single extra row tells us whether another page exists
+export const listPage = async <K extends CollectionName>(
+  col: K,
+  spec: QuerySpec<Entity<K>> & { orderBy: NonNullable<QuerySpec<Entity<K>>['orderBy']> },
+  cursor: string | null,
+  pageSize: number
+): Promise<Page<Entity<K>>> => {
+  const startAfter = cursor ? decodeCursor(cursor) as [unknown, string] : undefined;
+  const rows = await store.list(col, { ...spec, startAfter, limit: pageSize + 1 });
+  const items = rows.slice(0, pageSize);
+  return {
+    items,
+    nextCursor: rows.length > pageSize ? encodeCursor(positionOf(items[items.length - 1], spec.orderBy[0])) : null
+  };
+};
+
+// For filters no index can serve: scans forward in batches until the page is full, and resumes
+// from the last row it accepted. The final page may come back short or even empty.
+export const listFilteredPage = async <K extends CollectionName>(
+  col: K,
+  spec: QuerySpec<Entity<K>> & { orderBy: NonNullable<QuerySpec<Entity<K>>['orderBy']> },
+  accept: (row: Entity<K>) => boolean,
+  cursor: string | null,
+  pageSize: number
+): Promise<Page<Entity<K>>> => {
+  const batchSize = pageSize * SCAN_FACTOR;
+  const items: Entity<K>[] = [];
+  let startAfter = cursor ? decodeCursor(cursor) as [unknown, string] : undefined;
+
+  while (true) {
+    const rows = await store.list(col, { ...spec, startAfter, limit: batchSize });
+    for (const row of rows) {
+      const position = positionOf(row, spec.orderBy[0]);
+      if (accept(row)) items.push(row);
+      if (items.length === pageSize) return { items, nextCursor: encodeCursor(position) };
+      startAfter = position;
+    }
+    if (rows.length < batchSize) return { items, nextCursor: null };
+  }
+};
+
+// For result sets that are already in memory, such as search hits
+export const slicePage = <T>(items: T[], cursor: string | null, pageSize: number): Page<T> => {
+  const offset = cursor ? Number(decodeCursor(cursor)[0]) || 0 : 0;
+  const end = offset + pageSize;
+  return { items: items.slice(offset, end), nextCursor: end < items.length ? encodeCursor([end]) : null };
+};
@@ -0,0 +1,66 @@
+// --- GATEWAY CONTRACT ---
+
+// What every payment gateway integration has to offer the wallet top-up flow.
+// Providers never credit anything themselves: the wallet moves only when
+// handlePaymentWebhook (services/paymentWebhooks.ts) accepts a webhook whose signature verifies.
+
+export interface CreateOrderInput {
+  amount: number;
+  currency: 'INR';
+  idempotencyKey: string; // Retrying with the same key returns the original order
+  userId: string;
+}
+
+export interface ProviderOrder {
+  providerOrderId: string;
+  status: 'pending' | 'paid' | 'failed';
+}
+
+export type WebhookEventType = 'payment.succeeded' | 'payment.failed' | 'refund.succeeded';
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  providerOrderId: string;
+  amount: number;
+  occurredAt: number;
+  reason?: string;
+}
+
+// Raw body plus its HMAC, exactly as the gateway sends them
+export interface SignedWebhook {
+  payload: string;
+  signature: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createOrder(input: CreateOrderInput): Promise<ProviderOrder>;
+  // `paymentMethod` is the provider's token for how the buyer paid
+  confirm(providerOrderId: string, paymentMethod: string): Promise<ProviderOrder>;
+  // Resolves to the parsed event, or throws if the signature does not match
+  verifyWebhook(webhook: SignedWebhook): Promise<WebhookEvent>;
+  refund(providerOrderId: string, amount: number): Promise<void>;
+  // Only for providers that can push webhooks into the browser (the sandbox, on the local backend).
+  // Hosted gateways post to the Node endpoint in scripts/payment-webhooks.ts instead.
+  listen?(handler: (webhook: SignedWebhook) => Promise<unknown>): () => void;
+}
+
+// --- SIGNATURES ---
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const hmacKey = (secret: string) =>
+  crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+
+export const signPayload = async (payload: string, secret: string): Promise<string> =>
+  toHex(await crypto.subtle.sign('HMAC', await hmacKey(secret), new TextEncoder().encode(payload)));
+
+// Compares every character so timing does not reveal how much of a forged signature matched
+export const verifySignature = async (payload: string, signature: string, secret: string): Promise<boolean> => {
+  const expected = await signPayload(payload, secret);
+  if (expected.length !== signature.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  return diff === 0;
+};
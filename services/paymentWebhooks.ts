@@ -0,0 +1,60 @@
+import { store } from './store';
+import { increment } from './dataStore';
+import { notify } from './notifications';
+import { PaymentProvider, SignedWebhook } from './paymentProvider';
+
+// --- WEBHOOK HANDLING ---
+
+// Settles a top-up from a gateway webhook whose signature verifies, so it must run where the webhook secret
+// lives: the Node endpoint (scripts/payment-webhooks.ts), signed in as an admin, or on the local backend the
+// page itself, where the sandbox signs its own webhooks.
+// Returns false for replayed or out-of-order events, which are acknowledged but ignored
+export const handlePaymentWebhook = async (provider: PaymentProvider, webhook: SignedWebhook): Promise<boolean> => {
+  const event = await provider.verifyWebhook(webhook);
+  const [order] = await store.list('paymentOrders', { where: [['providerOrderId', '==', event.providerOrderId]], limit: 1 });
+  if (!order) throw new Error("Unknown payment order");
+
+  return await store.runTransaction(async (tx) => {
+    const current = await tx.get('paymentOrders', order.id);
+    if (!current) throw new Error("Unknown payment order");
+    if (event.amount !== current.amount) throw new Error("Webhook amount does not match the order");
+    const now = Date.now();
+
+    if (event.type === 'payment.succeeded') {
+      if (current.status !== 'pending') return false;
+      tx.update('paymentOrders', current.id, { status: 'paid', paidAt: now });
+      tx.update('users', current.userId, { walletBalance: increment(current.amount) });
+      tx.add('transactions', {
+        userId: current.userId,
+        amount: current.amount,
+        type: 'deposit',
+        description: `Wallet Deposit via ${current.provider} gateway`,
+        createdAt: now,
+        referenceId: current.id
+      });
+      notify(tx, current.userId, `₹${current.amount} landed in your vault.`);
+      return true;
+    }
+
+    if (event.type === 'payment.failed') {
+      if (current.status !== 'pending') return false;
+      tx.update('paymentOrders', current.id, { status: 'failed', failureReason: event.reason || 'Payment declined' });
+      notify(tx, current.userId, `Top-up of ₹${current.amount} failed${event.reason ? `: ${event.reason}` : ''}.`);
+      return true;
+    }
+
+    if (current.status !== 'paid') return false;
+    tx.update('paymentOrders', current.id, { status: 'refunded' });
+    tx.update('users', current.userId, { walletBalance: increment(-current.amount) });
+    tx.add('transactions', {
+      userId: current.userId,
+      amount: -current.amount,
+      type: 'refund',
+      description: 'Top-up refunded to original payment method',
+      createdAt: now,
+      referenceId: current.id
+    });
+    notify(tx, current.userId, `Top-up of ₹${current.amount} was refunded to your payment method.`);
+    return true;
+  });
+};
@@ -0,0 +1,18 @@
+import { PaymentProvider } from './paymentProvider';
+import { createSandboxProvider } from './sandboxPaymentProvider';
+
+// PAYMENT_PROVIDER in .env.local picks the gateway used for wallet top-ups.
+// Only the offline sandbox ships today; real gateways register here.
+const providers: Record<string, (webhookSecret: string) => PaymentProvider> = {
+  sandbox: webhookSecret => createSandboxProvider(webhookSecret)
+};
+
+export const createPaymentProvider = (name: string, webhookSecret: string): PaymentProvider => {
+  const create = providers[name];
+  if (!create) throw new Error(`Unknown PAYMENT_PROVIDER: ${name}`);
+  return create(webhookSecret);
+};
+
+// The browser build never carries the webhook secret. The sandbox signs and verifies its own webhooks inside
+// the page, so a throwaway key per page load does; hosted gateways are verified by scripts/payment-webhooks.ts.
+export const paymentProvider: PaymentProvider = createPaymentProvider(process.env.PAYMENT_PROVIDER || 'sandbox', crypto.randomUUID());
@@ -0,0 +1,54 @@
+import { Product, Review } from '../types';
+
+// --- MODERATION QUEUE ---
+
+// Review turnaround promised from submission; Elite listings are cleared first and faster
+export const MODERATION_SLA = {
+  priority: 24 * 3600000,
+  standard: 72 * 3600000
+};
+
+export interface SlaStatus {
+  dueAt: number;
+  remaining: number; // Negative once the target has passed
+  breached: boolean;
+}
+
+export const slaStatus = (product: Product, now: number = Date.now()): SlaStatus => {
+  const dueAt = product.createdAt + (product.isPriority ? MODERATION_SLA.priority : MODERATION_SLA.standard);
+  return { dueAt, remaining: dueAt - now, breached: dueAt <= now };
+};
+
+// Priority listings first, then oldest submission first within each band
+export const compareModeration = (a: Product, b: Product): number =>
+  Number(!!b.isPriority) - Number(!!a.isPriority) || a.createdAt - b.createdAt;
+
+// --- RATINGS ---
+
+// Stored as `ratingTotal` so the security rules can check that a review changes it by exactly its own rating
+export const sumRatings = (reviews: Review[]): number => reviews.reduce((sum, r) => sum + r.rating, 0);
+
+// One decimal place; the rules recompute it the same way from ratingTotal and reviewCount
+export const averageRating = (ratingTotal: number, reviewCount: number): number =>
+  reviewCount ? Math.round((ratingTotal / reviewCount) * 10) / 10 : 0;
+
+// --- POPULAR SORT ---
+
+// Worth as much as five unrated sales: enough to lift a new Elite listing over a quiet one,
+// never enough to bury a listing that is actually selling and reviewed well.
+export const PRIORITY_BOOST = 5;
+
+// Sales weighted by rating (a 5.0 listing counts each sale twice), plus the flat Elite boost.
+// Rounded so the stored value compares equal when recomputed.
+export const popularityScore = (product: Product): number =>
+  Math.round((product.salesCount * (1 + product.rating / 5) + (product.isPriority ? PRIORITY_BOOST : 0)) * 100) / 100;
+
+export const comparePopularity = (a: Product, b: Product): number =>
+  popularityScore(b) - popularityScore(a) || b.salesCount - a.salesCount;
+
+type RankingInputs = Partial<Pick<Product, 'salesCount' | 'rating' | 'isPriority'>>;
+
+// Stored as `popularity` so the Popular sort is an indexed query. Every write that changes an
+// input goes through here, with `product` read in the same transaction.
+export const withPopularity = <C extends RankingInputs>(product: Product, changes: C): C & { popularity: number } =>
+  ({ ...changes, popularity: popularityScore({ ...product, ...changes }) });
@@ -0,0 +1,108 @@
+import { PaymentProvider, ProviderOrder, WebhookEvent, WebhookEventType, SignedWebhook, signPayload, verifySignature } from './paymentProvider';
+
+// Offline gateway for development. Orders live in memory, so a pending
+// `delayed` confirmation is lost if the page reloads before it fires.
+
+// Payment-method tokens the sandbox understands, like a real gateway's test cards
+export const SANDBOX_METHODS = {
+  success: 'sandbox_success',
+  failure: 'sandbox_failure',
+  delayed: 'sandbox_delayed'
+} as const;
+
+// How long `sandbox_delayed` waits before confirming, mimicking a slow bank callback
+const DELAYED_CONFIRMATION_MS = 8000;
+
+interface SandboxOrder extends ProviderOrder {
+  amount: number;
+}
+
+export const createSandboxProvider = (secret: string): PaymentProvider => {
+  const orders = new Map<string, SandboxOrder>();
+  const orderIdsByKey = new Map<string, string>();
+  const handlers = new Set<(webhook: SignedWebhook) => Promise<unknown>>();
+  let sequence = 0;
+
+  const nextId = (prefix: string) => `${prefix}_${Date.now().toString(36)}${(++sequence).toString(36)}`;
+  const snapshot = ({ providerOrderId, status }: SandboxOrder): ProviderOrder => ({ providerOrderId, status });
+
+  // Webhooks arrive after the API call that caused them returns, as they would over the network
+  const deliver = (type: WebhookEventType, order: SandboxOrder, amount: number, reason?: string) => {
+    setTimeout(async () => {
+      const event: WebhookEvent = {
+        id: nextId('evt'),
+        type,
+        providerOrderId: order.providerOrderId,
+        amount,
+        occurredAt: Date.now(),
+        ...(reason ? { reason } : {})
+      };
+      const payload = JSON.stringify(event);
+      const webhook: SignedWebhook = { payload, signature: await signPayload(payload, secret) };
+      handlers.forEach(handler => handler(webhook).catch(e => console.error('Sandbox webhook rejected:', e)));
+    }, 0);
+  };
+
+  const requireOrder = (providerOrderId: string): SandboxOrder => {
+    const order = orders.get(providerOrderId);
+    if (!order) throw new Error('Unknown sandbox order.');
+    return order;
+  };
+
+  return {
+    name: 'sandbox',
+
+    createOrder: async ({ amount, idempotencyKey, userId }) => {
+      const key = `${userId}:${idempotencyKey}`;
+      const existingId = orderIdsByKey.get(key);
+      if (existingId) return snapshot(requireOrder(existingId));
+
+      const order: SandboxOrder = { providerOrderId: nextId('sbx_order'), status: 'pending', amount };
+      orders.set(order.providerOrderId, order);
+      orderIdsByKey.set(key, order.providerOrderId);
+      return snapshot(order);
+    },
+
+    confirm: async (providerOrderId, paymentMethod) => {
+      const order = requireOrder(providerOrderId);
+      if (order.status !== 'pending') return snapshot(order);
+
+      switch (paymentMethod) {
+        case SANDBOX_METHODS.success:
+          order.status = 'paid';
+          deliver('payment.succeeded', order, order.amount);
+          break;
+        case SANDBOX_METHODS.failure:
+          order.status = 'failed';
+          deliver('payment.failed', order, order.amount, 'Card declined by the sandbox issuer.');
+          break;
+        case SANDBOX_METHODS.delayed:
+          setTimeout(() => {
+            order.status = 'paid';
+            deliver('payment.succeeded', order, order.amount);
+          }, DELAYED_CONFIRMATION_MS);
+          break;
+        default:
+          throw new Error(`Unsupported sandbox payment method: ${paymentMethod}`);
+      }
+      return snapshot(order);
+    },
+
+    verifyWebhook: async ({ payload, signature }) => {
+      if (!await verifySignature(payload, signature, secret)) throw new Error('Invalid webhook signature.');
+      return JSON.parse(payload) as WebhookEvent;
+    },
+
+    refund: async (providerOrderId, amount) => {
+      const order = requireOrder(providerOrderId);
+      if (order.status !== 'paid') throw new Error('Only paid sandbox orders can be refunded.');
+      if (amount > order.amount) throw new Error('Refund exceeds the captured amount.');
+      deliver('refund.succeeded', order, amount);
+    },
+
+    listen: (handler) => {
+      handlers.add(handler);
+      return () => { handlers.delete(handler); };
+    }
+  };
+};
@@ -0,0 +1,148 @@
+import { Product } from '../types';
+
+// --- TOKENISER ---
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'for', 'to', 'in', 'on', 'with', 'by', 'is', 'it', 'or', 'at', 'as']);
+
+// Queries keep single characters so the first keystroke already matches as a prefix
+export const tokenize = (text: string, minLength: number = 2): string[] =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length >= minLength && !STOP_WORDS.has(token));
+
+// --- SCORING ---
+
+// A hit in the title says far more about a listing than one buried in its description
+const FIELD_WEIGHTS = {
+  title: 5,
+  tags: 3,
+  sellerName: 2,
+  category: 2,
+  description: 1
+};
+
+const PREFIX_MATCH = 0.7;
+const FUZZY_MATCH = 0.4;
+
+// Typos allowed per query token: none for short words, where one edit changes the meaning
+const maxEdits = (token: string): number => token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0;
+
+// Optimal string alignment distance, abandoned as soon as it exceeds `limit`
+const editDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) value = Math.min(value, prevPrev[j - 2] + 1);
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > limit) return limit + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+// --- INDEX ---
+
+export interface SearchHit {
+  id: string;
+  score: number;
+}
+
+export interface SearchIndex {
+  upsert: (product: Product) => void;
+  remove: (productId: string) => void;
+  search: (query: string) => SearchHit[];
+  size: () => number;
+}
+
+// In-memory inverted index: token -> product id -> summed field weight.
+// Each listing is re-tokenised only when it is upserted, never on a query.
+export const createSearchIndex = (): SearchIndex => {
+  const postings = new Map<string, Map<string, number>>();
+  const documents = new Map<string, string[]>(); // product id -> tokens, for clean removal
+
+  const remove = (productId: string) => {
+    (documents.get(productId) || []).forEach(token => {
+      const posting = postings.get(token);
+      posting?.delete(productId);
+      if (posting?.size === 0) postings.delete(token);
+    });
+    documents.delete(productId);
+  };
+
+  const upsert = (product: Product) => {
+    remove(product.id);
+    const weights = new Map<string, number>();
+    const fields: [keyof typeof FIELD_WEIGHTS, string][] = [
+      ['title', product.title],
+      ['tags', (product.tags || []).join(' ')],
+      ['sellerName', product.sellerName],
+      ['category', product.category],
+      ['description', product.description]
+    ];
+    fields.forEach(([field, text]) => {
+      // Count each token once per field so keyword stuffing does not pay
+      new Set(tokenize(text || '')).forEach(token => {
+        weights.set(token, (weights.get(token) || 0) + FIELD_WEIGHTS[field]);
+      });
+    });
+    weights.forEach((weight, token) => {
+      if (!postings.has(token)) postings.set(token, new Map());
+      postings.get(token)!.set(product.id, weight);
+    });
+    documents.set(product.id, Array.from(weights.keys()));
+  };
+
+  // Best-matching vocabulary entries for one query token, with their match quality
+  const expand = (queryToken: string): [string, number][] => {
+    const limit = maxEdits(queryToken);
+    const matches: [string, number][] = [];
+    postings.forEach((_, token) => {
+      if (token === queryToken) matches.push([token, 1]);
+      else if (token.startsWith(queryToken)) matches.push([token, PREFIX_MATCH]);
+      else if (limit > 0 && editDistance(queryToken, token, limit) <= limit) matches.push([token, FUZZY_MATCH]);
+    });
+    return matches;
+  };
+
+  // Every query token must match each result; scores add up across tokens
+  const search = (query: string): SearchHit[] => {
+    const queryTokens = Array.from(new Set(tokenize(query, 1)));
+    if (queryTokens.length === 0) return [];
+
+    let scores: Map<string, number> | null = null;
+    for (const queryToken of queryTokens) {
+      const tokenScores = new Map<string, number>();
+      expand(queryToken).forEach(([token, quality]) => {
+        postings.get(token)!.forEach((weight, productId) => {
+          // A product matching several expansions keeps only its best one
+          tokenScores.set(productId, Math.max(tokenScores.get(productId) || 0, weight * quality));
+        });
+      });
+      const previous: Map<string, number> | null = scores;
+      scores = new Map();
+      tokenScores.forEach((score, productId) => {
+        if (!previous) scores!.set(productId, score);
+        else if (previous.has(productId)) scores!.set(productId, previous.get(productId)! + score);
+      });
+      if (scores.size === 0) return [];
+    }
+
+    return Array.from(scores!.entries())
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score);
+  };
+
+  return { upsert, remove, search, size: () => documents.size };
+};
@@ -0,0 +1,234 @@
+import { Role, RequestStatus, User, Product, ProductAsset, ProductDailyStats, Request, Transaction, Notification, NotificationSettings, Withdrawal, DownloadEvent } from '../types';
+import { popularityScore, sumRatings } from './ranking';
+import { dailyStatsId, dayKey } from './sellerAnalytics';
+
+// Demo fixtures loaded by the local backend on first run.
+// Sign in with any of SEED_ACCOUNTS to explore the marketplace offline.
+
+const DAY = 86400000;
+const now = Date.now();
+
+const settings: NotificationSettings = {
+  emailNotifyApproval: true,
+  emailNotifyReview: true,
+  emailNotifyPurchase: true
+};
+
+export const SEED_ACCOUNTS: { email: string; password: string; uid: string }[] = [
+  { email: 'admin@codastra.dev', password: 'admin123', uid: 'seed-admin' },
+  { email: 'seller@codastra.dev', password: 'seller123', uid: 'seed-seller' },
+  { email: 'buyer@codastra.dev', password: 'buyer123', uid: 'seed-buyer' }
+];
+
+const users: User[] = [
+  {
+    uid: 'seed-admin',
+    name: 'Vault Warden',
+    email: 'admin@codastra.dev',
+    bio: 'Keeper of the audit queue.',
+    role: Role.ADMIN,
+    joinedAt: now - 400 * DAY,
+    wishlist: [],
+    savedFilters: [],
+    walletBalance: 0,
+    reputation: 100,
+    isPro: false,
+    notificationSettings: { ...settings }
+  },
+  {
+    uid: 'seed-seller',
+    name: 'Nova Forge',
+    email: 'seller@codastra.dev',
+    bio: 'Shipping production-grade starter kits since the first boot.',
+    role: Role.USER,
+    joinedAt: now - 200 * DAY,
+    wishlist: [],
+    savedFilters: [],
+    walletBalance: 2500,
+    reputation: 92,
+    isPro: true,
+    proExpiry: now + 180 * DAY,
+    proAutoRenew: true,
+    proMetrics: { savedFees: 75, reputationMultiplier: 1.2, priorityQueueActive: true, vaultAccessLevel: 2 },
+    notificationSettings: { ...settings }
+  },
+  {
+    uid: 'seed-buyer',
+    name: 'Byte Runner',
+    email: 'buyer@codastra.dev',
+    bio: 'Collector of clean architectures.',
+    role: Role.USER,
+    joinedAt: now - 30 * DAY,
+    wishlist: ['seed-prod-2'],
+    savedFilters: [],
+    walletBalance: 5000,
+    reputation: 50,
+    isPro: false,
+    notificationSettings: { ...settings }
+  }
+];
+
+const baseProduct = {
+  sellerId: 'seed-seller',
+  sellerName: 'Nova Forge',
+  images: [],
+  approved: true,
+  rating: 0,
+  reviewCount: 0,
+  salesCount: 0,
+  viewCount: 0,
+  downloadCount: 0,
+  reviews: [],
+  isPriority: true,
+  popularity: 0
+};
+
+// popularity and ratingTotal are derived below so fixtures cannot drift from the ranking formula
+const products: Product[] = ([
+  {
+    ...baseProduct,
+    id: 'seed-prod-1',
+    title: 'Ledger Pulse Finance Dashboard',
+    description: 'React + Firestore personal finance tracker with budgets, recurring entries and chart exports.',
+    price: 1499,
+    previewImage: 'https://picsum.photos/seed/codastra-ledger/1200/800',
+    category: 'Finance',
+    tags: ['react', 'firestore', 'charts'],
+    createdAt: now - 60 * DAY,
+    lastUpdate: now - 10 * DAY,
+    version: '1.2.0',
+    changelog: [
+      { version: '1.2.0', notes: 'Recurring entries and PNG/CSV chart exports.', publishedAt: now - 10 * DAY },
+      { version: '1.1.0', notes: 'Monthly budgets with overspend warnings.', publishedAt: now - 35 * DAY },
+      { version: '1.0.0', notes: 'Initial release.', publishedAt: now - 60 * DAY }
+    ],
+    rating: 4.5,
+    reviewCount: 2,
+    salesCount: 14,
+    viewCount: 320,
+    downloadCount: 12,
+    reviews: [
+      { id: 'seed-rev-1', userId: 'seed-buyer', userName: 'Byte Runner', rating: 5, comment: 'Clean code, shipped in a day.', createdAt: now - 9 * DAY },
+      { id: 'seed-rev-2', userId: 'seed-admin', userName: 'Vault Warden', rating: 4, comment: 'Solid structure, light docs.', createdAt: now - 5 * DAY }
+    ]
+  },
+  {
+    ...baseProduct,
+    id: 'seed-prod-2',
+    title: 'Pixel Arena Multiplayer Kit',
+    description: 'Realtime 2D arena game template with lobbies, matchmaking and a WebSocket server.',
+    price: 2999,
+    previewImage: 'https://picsum.photos/seed/codastra-arena/1200/800',
+    category: 'Gaming',
+    tags: ['websocket', 'canvas', 'node'],
+    createdAt: now - 20 * DAY,
+    lastUpdate: now - 2 * DAY,
+    salesCount: 6,
+    viewCount: 210,
+    downloadCount: 5
+  },
+  {
+    ...baseProduct,
+    id: 'seed-prod-3',
+    title: 'StudySprint Flashcard Engine',
+    description: 'Spaced-repetition flashcard app with offline sync and Markdown card import.',
+    price: 799,
+    previewImage: 'https://picsum.photos/seed/codastra-study/1200/800',
+    category: 'Education',
+    tags: ['pwa', 'offline', 'markdown'],
+    createdAt: now - 5 * DAY,
+    lastUpdate: now - 5 * DAY,
+    salesCount: 2,
+    viewCount: 48,
+    downloadCount: 1
+  },
+  {
+    ...baseProduct,
+    id: 'seed-prod-4',
+    title: 'Deploy Deck CLI Toolkit',
+    description: 'Node CLI that scaffolds, lints and deploys static sites to any bucket provider.',
+    price: 499,
+    previewImage: 'https://picsum.photos/seed/codastra-deploy/1200/800',
+    category: 'Tools',
+    tags: ['cli', 'node', 'devops'],
+    approved: false,
+    isPriority: true,
+    createdAt: now - DAY,
+    lastUpdate: now - DAY
+  }
+] as Product[]).map(p => ({ ...p, ratingTotal: sumRatings(p.reviews), popularity: popularityScore(p) }));
+
+const asset = (productId: string, slug: string): ProductAsset => ({
+  id: productId,
+  productId,
+  sellerId: 'seed-seller',
+  link: `https://www.mediafire.com/file/${slug}`,
+  updatedAt: now - 10 * DAY
+});
+
+const productAssets: ProductAsset[] = [
+  asset('seed-prod-1', 'seed-ledger-pulse'),
+  asset('seed-prod-2', 'seed-pixel-arena'),
+  asset('seed-prod-3', 'seed-studysprint'),
+  asset('seed-prod-4', 'seed-deploy-deck')
+];
+
+const requests: Request[] = [
+  {
+    id: 'seed-buyer_seed-prod-1',
+    userId: 'seed-buyer',
+    productId: 'seed-prod-1',
+    paymentProof: '',
+    status: RequestStatus.APPROVED,
+    approvedAt: now - 12 * DAY,
+    createdAt: now - 12 * DAY,
+    isWalletPurchase: true
+  },
+  {
+    id: 'seed-buyer_seed-prod-3',
+    userId: 'seed-buyer',
+    productId: 'seed-prod-3',
+    paymentProof: 'UTR 402918337561',
+    status: RequestStatus.PENDING,
+    approvedAt: null,
+    createdAt: now - 3600000,
+    isWalletPurchase: false
+  }
+];
+
+const transactions: Transaction[] = [
+  { id: 'seed-tx-1', userId: 'seed-buyer', amount: 6499, type: 'deposit', description: 'Wallet Deposit via Secure Gateway', createdAt: now - 13 * DAY },
+  { id: 'seed-tx-2', userId: 'seed-buyer', amount: -1499, type: 'purchase', description: 'Purchased Ledger Pulse Finance Dashboard', createdAt: now - 12 * DAY, referenceId: 'seed-buyer_seed-prod-1' },
+  { id: 'seed-tx-3', userId: 'seed-seller', amount: 1424, type: 'sale', description: 'Sale of Ledger Pulse Finance Dashboard to Byte Runner', createdAt: now - 12 * DAY, referenceId: 'seed-buyer_seed-prod-1' },
+  { id: 'seed-tx-4', userId: 'platform', amount: 75, type: 'fee', description: 'Platform fee on Ledger Pulse Finance Dashboard', createdAt: now - 12 * DAY, referenceId: 'seed-buyer_seed-prod-1' },
+  { id: 'seed-tx-5', userId: 'seed-seller', amount: -1000, type: 'withdrawal', description: 'Withdrawal to novaforge@upi (on hold)', createdAt: now - 2 * DAY, referenceId: 'seed-wd-1' }
+];
+
+const notifications: Notification[] = [
+  { id: 'seed-notif-1', to: 'seed-seller', message: 'Ledger Pulse Finance Dashboard was acquired by Byte Runner.', read: false, createdAt: now - 12 * DAY, productId: 'seed-prod-1' }
+];
+
+const withdrawals: Withdrawal[] = [
+  { id: 'seed-wd-1', userId: 'seed-seller', amount: 1000, payoutDetails: 'novaforge@upi', status: RequestStatus.PENDING, createdAt: now - 2 * DAY, processedAt: null }
+];
+
+const downloads: DownloadEvent[] = [
+  { id: 'seed-dl-1', userId: 'seed-buyer', productId: 'seed-prod-1', productTitle: 'Ledger Pulse Finance Dashboard', createdAt: now - 11 * DAY }
+];
+
+// Two weeks of traffic on the live listings, so the seller workspace charts have something to show
+const productStats: ProductDailyStats[] = ['seed-prod-1', 'seed-prod-2', 'seed-prod-3'].flatMap((productId, n) =>
+  Array.from({ length: 14 }, (_, i) => {
+    const day = dayKey(now - i * DAY);
+    return {
+      id: dailyStatsId(productId, day),
+      productId,
+      sellerId: 'seed-seller',
+      day,
+      views: (i * 7 + n * 5) % 13 + 4 - n,
+      downloads: productId === 'seed-prod-1' && i === 11 ? 1 : 0
+    };
+  })
+);
+
+export const SEED_DATA = { users, products, productAssets, requests, transactions, notifications, withdrawals, downloads, productStats };
@@ -0,0 +1,143 @@
+import { Product, ProductDailyStats, Transaction } from '../types';
+import { csvCell } from './ledger';
+import { currentVersion } from './versioning';
+
+// --- DAYS ---
+
+export const ANALYTICS_RANGES = [7, 30, 90];
+
+const DAY = 86400000;
+
+// Daily buckets are keyed by UTC date
+export const dayKey = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+export const dailyStatsId = (productId: string, day: string): string => `${productId}_${day}`;
+
+// First day of a range that ends today
+export const rangeStart = (days: number, now: number = Date.now()): string => dayKey(now - (days - 1) * DAY);
+
+// --- LISTINGS ---
+
+export type ListingState = 'approved' | 'pending' | 'rejected';
+
+export const listingState = (product: Product): ListingState =>
+  product.approved ? 'approved' : product.rejected ? 'rejected' : 'pending';
+
+// Rows from before the ledger carried productId fall back to their request id, `${buyerUid}_${productId}`
+export const transactionProductId = (t: Transaction): string | null => {
+  if (t.productId) return t.productId;
+  const split = t.referenceId ? t.referenceId.indexOf('_') : -1;
+  return split > 0 ? t.referenceId!.slice(split + 1) : null;
+};
+
+// Sale credits less refund clawbacks, i.e. what the seller actually kept
+const isRevenue = (t: Transaction): boolean => t.type === 'sale' || (t.type === 'refund' && t.amount < 0);
+
+export interface ListingStats {
+  product: Product;
+  state: ListingState;
+  hasPendingUpdate: boolean; // A revision of the live listing is awaiting moderation
+  views: number;
+  sales: number;
+  downloads: number;
+  revenue: number;
+  conversionRate: number; // Sales per view, as a percentage
+}
+
+export interface DailyPoint {
+  day: string;
+  views: number;
+  sales: number;
+  downloads: number;
+  revenue: number;
+}
+
+export type AnalyticsMetric = Exclude<keyof DailyPoint, 'day'>;
+
+export interface SellerAnalytics {
+  days: number;
+  listings: ListingStats[]; // Newest submission first
+  series: DailyPoint[]; // One point per day in the range, oldest first
+  totals: Record<AnalyticsMetric, number>; // Over the range
+  conversionRate: number; // Over the range
+}
+
+const conversion = (sales: number, views: number): number => views > 0 ? Math.round(sales / views * 1000) / 10 : 0;
+
+// --- AGGREGATION ---
+
+// Listing rows use the lifetime counters on each product; the charts and totals only cover the range
+export const buildSellerAnalytics = (
+  products: Product[],
+  stats: ProductDailyStats[],
+  transactions: Transaction[],
+  pendingUpdates: Set<string>,
+  days: number,
+  now: number = Date.now()
+): SellerAnalytics => {
+  const revenueRows = transactions.filter(isRevenue);
+  const revenueByListing = new Map<string, number>();
+  revenueRows.forEach(t => {
+    const id = transactionProductId(t);
+    if (id) revenueByListing.set(id, (revenueByListing.get(id) || 0) + t.amount);
+  });
+
+  const listings = [...products]
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(product => ({
+      product,
+      state: listingState(product),
+      hasPendingUpdate: pendingUpdates.has(product.id),
+      views: product.viewCount,
+      sales: product.salesCount,
+      downloads: product.downloadCount,
+      revenue: revenueByListing.get(product.id) || 0,
+      conversionRate: conversion(product.salesCount, product.viewCount)
+    }));
+
+  const points = new Map<string, DailyPoint>();
+  for (let i = days - 1; i >= 0; i--) {
+    const day = dayKey(now - i * DAY);
+    points.set(day, { day, views: 0, sales: 0, downloads: 0, revenue: 0 });
+  }
+  stats.forEach(s => {
+    const point = points.get(s.day);
+    if (!point) return;
+    point.views += s.views;
+    point.downloads += s.downloads;
+  });
+  revenueRows.forEach(t => {
+    const point = points.get(dayKey(t.createdAt));
+    if (!point) return;
+    point.revenue += t.amount;
+    if (t.type === 'sale') point.sales++;
+  });
+
+  const series = Array.from(points.values());
+  const sum = (metric: AnalyticsMetric) => series.reduce((total, point) => total + point[metric], 0);
+  const totals = { views: sum('views'), sales: sum('sales'), downloads: sum('downloads'), revenue: sum('revenue') };
+  return { days, listings, series, totals, conversionRate: conversion(totals.sales, totals.views) };
+};
+
+// --- EXPORTS ---
+
+export const analyticsToCsv = (analytics: SellerAnalytics): string => {
+  const lines = [
+    ['Listing', 'Status', 'Version', 'Price', 'Views', 'Sales', 'Downloads', 'Conversion %', 'Revenue'],
+    ...analytics.listings.map(l => [
+      l.product.title,
+      l.hasPendingUpdate ? `${l.state} (update pending)` : l.state,
+      currentVersion(l.product),
+      l.product.price,
+      l.views,
+      l.sales,
+      l.downloads,
+      l.conversionRate,
+      l.revenue
+    ]),
+    [],
+    ['Day', 'Views', 'Sales', 'Downloads', 'Revenue'],
+    ...analytics.series.map(p => [p.day, p.views, p.sales, p.downloads, p.revenue])
+  ];
+  return lines.map(line => line.map(csvCell).join(',')).join('\n');
+};
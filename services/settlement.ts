@@ -0,0 +1,157 @@
+import { StoreTransaction, EntityData, increment } from './dataStore';
+import { User, Product } from '../types';
+import { isProActive } from './subscription';
+
+// --- FEE SCHEDULE ---
+
+// From .env.local; firestore.rules recomputes wallet sale proceeds with the defaults (10 and 5), so keep them in step
+export const PLATFORM_FEE_PERCENT = Number(process.env.PLATFORM_FEE_PERCENT);
+export const PRO_FEE_PERCENT = Number(process.env.PRO_FEE_PERCENT);
+
+export const MIN_WITHDRAWAL = 500;
+
+// Buyers can dispute a purchase for DISPUTE_WINDOW_DAYS (in .env.local) after it was approved
+export const DISPUTE_WINDOW = Number(process.env.DISPUTE_WINDOW_DAYS) * 86400000;
+
+// Payee shown to buyers who pay outside the wallet and submit a proof for review
+export const PLATFORM_UPI_ID = 'codastra@upi';
+
+// Ledger owner for commission rows, so buyer debits equal seller credits plus fees
+export const PLATFORM_LEDGER_ID = 'platform';
+
+export interface Settlement {
+  fee: number;
+  sellerCredit: number;
+  savedFee: number; // What a Pro seller kept compared to the standard fee
+}
+
+export const computeSettlement = (price: number, seller: User | null): Settlement => {
+  const standardFee = Math.round(price * PLATFORM_FEE_PERCENT / 100);
+  const fee = seller && isProActive(seller) ? Math.round(price * PRO_FEE_PERCENT / 100) : standardFee;
+  return { fee, sellerCredit: price - fee, savedFee: standardFee - fee };
+};
+
+// --- SALE SETTLEMENT ---
+
+// Write-only: callers must have read `seller` inside the same transaction.
+// `amount` is what the buyer actually paid, when a discount took it below the listing price.
+// `subsidy` is the part of that discount the platform funds (site-wide coupons): the seller is
+// settled as if it had been paid, and the platform's fee row absorbs it, going negative if need be.
+// Wallet purchases pass `checkoutId`, the buyer's purchase row, and leave the seller's balance to creditProceeds.
+// Their sale and fee rows are keyed `${checkoutId}_${productId}_sale` / `_fee`, so the rules allow one of each per line.
+export const settleSale = (
+  tx: StoreTransaction,
+  { seller, product, buyerName, referenceId, checkoutId, amount = product.price, subsidy = 0 }: {
+    seller: User | null;
+    product: Product;
+    buyerName: string;
+    referenceId: string;
+    checkoutId?: string;
+    amount?: number;
+    subsidy?: number;
+  }
+): Settlement => {
+  const settlement = computeSettlement(amount + subsidy, seller);
+  const now = Date.now();
+  const record = (kind: 'sale' | 'fee', row: EntityData<'transactions'>) => checkoutId
+    ? tx.set('transactions', `${checkoutId}_${product.id}_${kind}`, { ...row, checkoutId })
+    : tx.add('transactions', row);
+
+  if (seller) {
+    if (!checkoutId) tx.update('users', seller.uid, { walletBalance: increment(settlement.sellerCredit) });
+    record('sale', {
+      userId: seller.uid,
+      amount: settlement.sellerCredit,
+      type: 'sale',
+      description: `Sale of ${product.title} to ${buyerName}`,
+      createdAt: now,
+      referenceId,
+      productId: product.id,
+      ...(settlement.savedFee > 0 ? { savedFee: settlement.savedFee } : {})
+    });
+  }
+
+  if (settlement.fee !== subsidy || !seller) {
+    record('fee', {
+      userId: PLATFORM_LEDGER_ID,
+      amount: seller ? settlement.fee - subsidy : amount,
+      type: 'fee',
+      description: `Platform fee on ${product.title}${subsidy > 0 ? `, less ₹${subsidy} coupon subsidy` : ''}`,
+      createdAt: now,
+      referenceId,
+      productId: product.id
+    });
+  }
+
+  return settlement;
+};
+
+// Write-only: pays each seller of a wallet checkout once, with the total its purchase row's `credits` sets aside.
+// The security rules only let a buyer raise someone else's balance by exactly that amount, named via lastCredit.
+export const creditProceeds = (tx: StoreTransaction, checkoutId: string, credits: Record<string, number>): void => {
+  Object.entries(credits)
+    .filter(([, credit]) => credit > 0)
+    .forEach(([uid, credit]) => tx.update('users', uid, { walletBalance: increment(credit), lastCredit: checkoutId }));
+};
+
+// --- REFUND REVERSAL ---
+
+// Write-only counterpart of settleSale. The refund is split between seller and platform in the same
+// proportion as the original sale rows, so a Pro discount granted at sale time is honoured on the way back.
+// The seller's vault may go negative if the proceeds were already withdrawn.
+export const reverseSale = (
+  tx: StoreTransaction,
+  { buyerId, sellerId, productId, productTitle, amountPaid, sellerCredit, refundAmount, referenceId }: {
+    buyerId: string;
+    sellerId: string | null;
+    productId: string;
+    productTitle: string;
+    amountPaid: number;
+    sellerCredit: number; // What the matching 'sale' row credited; 0 if the seller was never paid
+    refundAmount: number;
+    referenceId: string;
+  }
+): { sellerDebit: number; feeReversal: number } => {
+  const sellerDebit = amountPaid > 0 ? Math.round(refundAmount * sellerCredit / amountPaid) : 0;
+  const feeReversal = refundAmount - sellerDebit;
+  const now = Date.now();
+
+  tx.update('users', buyerId, { walletBalance: increment(refundAmount) });
+  tx.add('transactions', {
+    userId: buyerId,
+    amount: refundAmount,
+    type: 'refund',
+    description: `Refund for ${productTitle}`,
+    createdAt: now,
+    referenceId,
+    productId
+  });
+
+  if (sellerId && sellerDebit > 0) {
+    tx.update('users', sellerId, { walletBalance: increment(-sellerDebit) });
+    tx.add('transactions', {
+      userId: sellerId,
+      amount: -sellerDebit,
+      type: 'refund',
+      description: `Refund clawback for ${productTitle}`,
+      createdAt: now,
+      referenceId,
+      productId
+    });
+  }
+
+  // Negative when a coupon-subsidised sale is refunded: the seller hands the subsidy back to the platform
+  if (feeReversal !== 0) {
+    tx.add('transactions', {
+      userId: PLATFORM_LEDGER_ID,
+      amount: -feeReversal,
+      type: 'refund',
+      description: `Platform fee reversed on ${productTitle}`,
+      createdAt: now,
+      referenceId,
+      productId
+    });
+  }
+
+  return { sellerDebit, feeReversal };
+};
@@ -0,0 +1,7 @@
+import { DataStore } from './dataStore';
+import { createFirestoreStore } from './firestoreStore';
+import { createLocalStore } from './localStore';
+
+// DATA_BACKEND=local in .env.local runs the app entirely in the browser with seed data.
+// Anything else (or unset) talks to the live Firestore project.
+export const store: DataStore = process.env.DATA_BACKEND === 'local' ? createLocalStore() : createFirestoreStore();
@@ -0,0 +1,57 @@
+import { User, Product, Transaction } from '../types';
+
+// --- TERMS ---
+
+export const PRO_PRICE = 999;
+export const PRO_TERM = 365 * 86400000;
+
+// Owners hear about the upcoming charge (or lapse) this long before the term ends
+export const RENEWAL_NOTICE = 7 * 86400000;
+
+// Benefits survive this long past expiry so a failed renewal can be fixed with a top-up
+export const GRACE_PERIOD = 3 * 86400000;
+
+export type ProState = 'none' | 'active' | 'grace' | 'lapsed';
+
+// Subscriptions predating expiry tracking have no proExpiry and never lapse
+export const proState = (user: User, now: number = Date.now()): ProState => {
+  if (!user.isPro) return 'none';
+  if (!user.proExpiry || user.proExpiry > now) return 'active';
+  return user.proExpiry + GRACE_PERIOD > now ? 'grace' : 'lapsed';
+};
+
+export const isProActive = (user: User, now: number = Date.now()): boolean => {
+  const state = proState(user, now);
+  return state === 'active' || state === 'grace';
+};
+
+// --- METRICS ---
+
+export type ProMetrics = NonNullable<User['proMetrics']>;
+
+export const DEFAULT_PRO_METRICS: ProMetrics = {
+  savedFees: 0,
+  reputationMultiplier: 1,
+  priorityQueueActive: true,
+  vaultAccessLevel: 1
+};
+
+// Lifetime sales needed to reach each vault level, lowest first
+const VAULT_LEVEL_SALES = [0, 10, 50];
+
+// Derived on read, since only the platform may write the user document's Pro fields. savedFees adds up the
+// seller's sale rows, on top of the figure stored before sale rows carried it.
+export const computeProMetrics = (user: User, listings: Product[], ledger: Transaction[], now: number = Date.now()): ProMetrics => {
+  const reviewed = listings.filter(p => p.approved && p.reviewCount > 0);
+  const reviewCount = reviewed.reduce((sum, p) => sum + p.reviewCount, 0);
+  const averageRating = reviewCount ? reviewed.reduce((sum, p) => sum + p.rating * p.reviewCount, 0) / reviewCount : 0;
+  const sales = listings.reduce((sum, p) => sum + (p.salesCount || 0), 0);
+
+  return {
+    savedFees: (user.proMetrics?.savedFees || 0) + ledger.reduce((sum, t) => sum + (t.type === 'sale' ? t.savedFee || 0 : 0), 0),
+    // A quarter point of boost per star above three, so 5.0 sellers rank at 1.5x
+    reputationMultiplier: Math.round((1 + Math.max(0, averageRating - 3) * 0.25) * 100) / 100,
+    priorityQueueActive: isProActive(user, now),
+    vaultAccessLevel: VAULT_LEVEL_SALES.filter(threshold => sales >= threshold).length
+  };
+};
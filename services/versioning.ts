@@ -0,0 +1,34 @@
+import { ChangelogEntry, ListingEdit, Product, VersionBump } from '../types';
+
+// --- VERSIONS ---
+
+export const INITIAL_VERSION = '1.0.0';
+
+const VERSION_PATTERN = /^(\d+)\.(\d+)\.(\d+)$/;
+
+export const currentVersion = (product: Product): string => product.version || INITIAL_VERSION;
+
+// Plain major.minor.patch; a stored value that does not parse starts over from INITIAL_VERSION
+export const bumpVersion = (version: string, bump: VersionBump): string => {
+  const match = VERSION_PATTERN.exec(version) || VERSION_PATTERN.exec(INITIAL_VERSION)!;
+  const [major, minor, patch] = match.slice(1).map(Number);
+  if (bump === 'major') return `${major + 1}.0.0`;
+  if (bump === 'minor') return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+};
+
+export const initialChangelog = (publishedAt: number): ChangelogEntry[] =>
+  [{ version: INITIAL_VERSION, notes: 'Initial release.', publishedAt }];
+
+// --- EDITS ---
+
+const EDITABLE_FIELDS: (keyof ListingEdit)[] = ['title', 'description', 'price', 'previewImage', 'images', 'assetLink'];
+
+// Keeps only the fields that actually differ from the listing and its current asset link
+export const diffListing = (product: Product, assetLink: string | null, edit: Partial<ListingEdit>): Partial<ListingEdit> => {
+  const current: ListingEdit = { ...product, assetLink: assetLink || '' };
+  const changed = EDITABLE_FIELDS.filter(field =>
+    edit[field] !== undefined && JSON.stringify(edit[field]) !== JSON.stringify(current[field])
+  );
+  return Object.fromEntries(changed.map(field => [field, edit[field]])) as Partial<ListingEdit>;
+};
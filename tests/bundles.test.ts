@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { quoteCart } from '../services/bundles';
+import { bundle, product } from './fixtures';
+
+describe('quoteCart', () => {
+  const a = product('a', 1000);
+  const b = product('b', 500);
+  const c = product('c', 200);
+
+  it('prices a cart without bundles at list price', () => {
+    const quote = quoteCart([a, b], []);
+    expect(quote.lines.map(line => line.price)).toEqual([1000, 500]);
+    expect(quote).toMatchObject({ subtotal: 1500, discount: 0, total: 1500 });
+  });
+
+  it('applies a bundle only when every member is in the cart', () => {
+    expect(quoteCart([a], [bundle('ab', ['a', 'b'], 20)]).discount).toBe(0);
+    const quote = quoteCart([a, b, c], [bundle('ab', ['a', 'b'], 20)]);
+    expect(quote.lines.map(line => line.discount)).toEqual([200, 100, 0]);
+    expect(quote.lines[0].bundle?.id).toBe('ab');
+    expect(quote.total).toBe(1400);
+  });
+
+  it('gives an overlapping listing to the bundle that saves the buyer most', () => {
+    // ab saves 300 and bc saves 210, so b counts towards ab and bc is left out
+    const quote = quoteCart([a, b, c], [bundle('bc', ['b', 'c'], 30), bundle('ab', ['a', 'b'], 20)]);
+    expect(quote.lines.map(line => line.bundle?.id)).toEqual(['ab', 'ab', undefined]);
+    expect(quote.discount).toBe(300);
+  });
+
+  it('applies overlapping bundles side by side once their members no longer clash', () => {
+    const d = product('d', 400);
+    const quote = quoteCart([a, b, c, d], [bundle('ab', ['a', 'b'], 20), bundle('bc', ['b', 'c'], 30), bundle('cd', ['c', 'd'], 10)]);
+    expect(quote.lines.map(line => line.bundle?.id)).toEqual(['ab', 'ab', 'cd', 'cd']);
+    expect(quote.discount).toBe(360);
+  });
+
+  it('ignores retired bundles and bundles naming another seller\'s listing', () => {
+    const foreign = product('x', 800, 'other');
+    expect(quoteCart([a, b], [bundle('ab', ['a', 'b'], 20, { active: false })]).discount).toBe(0);
+    expect(quoteCart([a, foreign], [bundle('ax', ['a', 'x'], 20)]).discount).toBe(0);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { quoteCart } from '../services/bundles';
+import { applyCoupon, couponDiscount, couponProblem } from '../services/coupons';
+import { PLATFORM_LEDGER_ID, settleSale } from '../services/settlement';
+import { amounts, coupon, product, recordingTx, user } from './fixtures';
+
+describe('couponDiscount', () => {
+  it('rounds percent coupons and never discounts a listing below the minimum charge', () => {
+    expect(couponDiscount(coupon({ kind: 'percent', value: 15 }), 333)).toBe(50);
+    expect(couponDiscount(coupon({ kind: 'flat', value: 1000 }), 300)).toBe(299);
+  });
+});
+
+describe('couponProblem', () => {
+  it('refuses codes that are inactive, expired or used up', () => {
+    expect(couponProblem(null, 'buyer')).toBe('Unknown coupon code.');
+    expect(couponProblem(coupon({ active: false }), 'buyer')).toBe('Unknown coupon code.');
+    expect(couponProblem(coupon({ expiresAt: 100 }), 'buyer', 100)).toMatch(/expired/);
+    expect(couponProblem(coupon({ maxRedemptions: 3, redemptionCount: 3 }), 'buyer')).toMatch(/fully redeemed/);
+    expect(couponProblem(coupon({ perUserLimit: 1, redeemedBy: { buyer: 1 } }), 'buyer')).toMatch(/already used/);
+    expect(couponProblem(coupon({ perUserLimit: 1, redeemedBy: { buyer: 1 } }), 'stranger')).toBeNull();
+  });
+});
+
+describe('applyCoupon', () => {
+  const cart = quoteCart([product('a', 1000), product('b', 500), product('c', 200, 'other')], []);
+
+  it('discounts only the listings the coupon covers', () => {
+    const quote = applyCoupon(cart, coupon({ scope: 'seller', sellerId: 'other' }), 'buyer');
+    expect(quote.lines.map(line => line.couponDiscount)).toEqual([0, 0, 20]);
+    expect(quote.total).toBe(1680);
+  });
+
+  it('stops at the overall cap, counting one redemption per listing', () => {
+    const quote = applyCoupon(cart, coupon({ maxRedemptions: 5, redemptionCount: 3 }), 'buyer');
+    expect(quote.lines.map(line => line.couponDiscount)).toEqual([100, 50, 0]);
+    expect(quote.couponDiscount).toBe(150);
+  });
+
+  it('stops at what is left of the buyer\'s own limit', () => {
+    const quote = applyCoupon(cart, coupon({ perUserLimit: 2, redeemedBy: { buyer: 1 } }), 'buyer');
+    expect(quote.lines.map(line => line.couponDiscount)).toEqual([100, 0, 0]);
+    expect(() => applyCoupon(cart, coupon({ perUserLimit: 2, redeemedBy: { buyer: 2 } }), 'buyer')).toThrow(/already used/);
+  });
+
+  it('rejects a code that matches nothing in the cart', () => {
+    expect(() => applyCoupon(cart, coupon({ scope: 'product', productId: 'zzz' }), 'buyer')).toThrow(/does not apply/);
+  });
+});
+
+describe('settleSale', () => {
+  it('settles a site-coupon sale at the subsidised price and nets the subsidy out of the fee', () => {
+    const { tx, ledger } = recordingTx();
+    settleSale(tx, { seller: user('seller'), product: product('p1', 1000), buyerName: 'Buyer', referenceId: 'buyer_p1', amount: 800, subsidy: 200 });
+    expect(amounts(ledger())).toEqual({ 'seller:sale': 900, [`${PLATFORM_LEDGER_ID}:fee`]: -100 });
+  });
+});
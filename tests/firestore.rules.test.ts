@@ -0,0 +1,583 @@
+import { readFileSync } from 'fs';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { assertFails, assertSucceeds, initializeTestEnvironment, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { addDoc, collection, deleteDoc, doc, Firestore, getDoc, setDoc, updateDoc, writeBatch } from 'firebase/firestore';
+import type { DataStore } from '../services/dataStore';
+import { createFirestoreStore } from '../services/firestoreStore';
+import { api } from '../services/mockApi';
+
+// Runs against the Firestore emulator: `npm run test:rules`
+
+// The app's own transactions run through a store signed in as whichever test user `signInAs` picked
+const session = vi.hoisted(() => ({ store: null as DataStore | null }));
+vi.mock('../services/store', () => ({
+  store: new Proxy({}, { get: (_, key) => session.store![key as keyof DataStore] })
+}));
+
+let env: RulesTestEnvironment;
+
+const dbAs = (uid?: string) => (uid ? env.authenticatedContext(uid) : env.unauthenticatedContext()).firestore();
+
+const signInAs = (uid: string) => {
+  session.store = createFirestoreStore(dbAs(uid) as unknown as Firestore);
+};
+
+const counters = { salesCount: 0, downloadCount: 0, viewCount: 0, rating: 0, reviewCount: 0, ratingTotal: 0, reviews: [], isPriority: false, popularity: 0 };
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: 'codastra-rules-test',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+  });
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await env.withSecurityRulesDisabled(async (ctx) => {
+    const db = ctx.firestore();
+    await setDoc(doc(db, 'users/admin'), { uid: 'admin', name: 'Admin', role: 'admin', walletBalance: 0, isPro: false });
+    await setDoc(doc(db, 'users/seller'), { uid: 'seller', name: 'Seller', role: 'user', walletBalance: 0, isPro: false });
+    await setDoc(doc(db, 'users/buyer'), { uid: 'buyer', name: 'Buyer', role: 'user', walletBalance: 1000, isPro: false });
+    await setDoc(doc(db, 'users/stranger'), { uid: 'stranger', name: 'Stranger', role: 'user', walletBalance: 1000, isPro: false });
+    await setDoc(doc(db, 'products/p1'), { sellerId: 'seller', approved: true, price: 500, title: 'Node One', category: 'Web', ...counters });
+    await setDoc(doc(db, 'products/p2'), { sellerId: 'seller', approved: true, price: 300, title: 'Node Two', category: 'Web', ...counters });
+    await setDoc(doc(db, 'productAssets/p1'), { productId: 'p1', sellerId: 'seller', link: 'https://example.com/p1', updatedAt: 0 });
+    await setDoc(doc(db, 'requests/buyer_p1'), { userId: 'buyer', productId: 'p1', status: 'approved', isWalletPurchase: true, approvedAt: 1, createdAt: 1 });
+    await setDoc(doc(db, 'requests/stranger_p1'), { userId: 'stranger', productId: 'p1', status: 'pending', isWalletPurchase: false, approvedAt: null, createdAt: 1 });
+  });
+});
+
+describe('productAssets', () => {
+  it('denies logged-out visitors', async () => {
+    await assertFails(getDoc(doc(dbAs(), 'productAssets/p1')));
+  });
+
+  it('denies a buyer whose purchase is still pending', async () => {
+    await assertFails(getDoc(doc(dbAs('stranger'), 'productAssets/p1')));
+  });
+
+  it('allows a buyer only right after a download is logged against their limit', async () => {
+    await assertFails(getDoc(doc(dbAs('buyer'), 'productAssets/p1')));
+    await updateDoc(doc(dbAs('buyer'), 'requests/buyer_p1'), { recentDownloads: [Date.now()] });
+    await assertSucceeds(getDoc(doc(dbAs('buyer'), 'productAssets/p1')));
+  });
+
+  it('allows the seller and admins', async () => {
+    await assertSucceeds(getDoc(doc(dbAs('seller'), 'productAssets/p1')));
+    await assertSucceeds(getDoc(doc(dbAs('admin'), 'productAssets/p1')));
+  });
+
+  it('lets a seller attach a link only to their own listing', async () => {
+    const sellerDb = dbAs('seller');
+    const batch = writeBatch(sellerDb);
+    batch.set(doc(sellerDb, 'products/p3'), { sellerId: 'seller', approved: false, price: 100, title: 'Node Three', category: 'Web', ...counters });
+    batch.set(doc(sellerDb, 'productAssets/p3'), { productId: 'p3', sellerId: 'seller', link: 'https://example.com/p3', updatedAt: 0 });
+    await assertSucceeds(batch.commit());
+
+    await assertFails(setDoc(doc(dbAs('stranger'), 'productAssets/p2'), { productId: 'p2', sellerId: 'stranger', link: 'https://evil.example', updatedAt: 0 }));
+  });
+});
+
+describe('products', () => {
+  it('rejects listings that embed a public delivery link', async () => {
+    await assertFails(setDoc(doc(dbAs('seller'), 'products/leaky'), {
+      sellerId: 'seller', approved: false, price: 100, title: 'Leaky', mediafireLink: 'https://example.com/leak'
+    }));
+  });
+
+  it('keeps a live listing\'s content and price behind moderation', async () => {
+    await assertFails(updateDoc(doc(dbAs('seller'), 'products/p1'), { title: 'Sneaky rename' }));
+    await assertFails(updateDoc(doc(dbAs('seller'), 'products/p1'), { price: 400 }));
+  });
+
+  it('keeps sellers from editing their own listing\'s stats or buying Elite placement', async () => {
+    const sellerDb = dbAs('seller');
+    await assertFails(updateDoc(doc(sellerDb, 'products/p1'), { viewCount: 1000 }));
+    await assertFails(updateDoc(doc(sellerDb, 'products/p1'), { rating: 5, popularity: 0 }));
+    await assertFails(updateDoc(doc(sellerDb, 'products/p1'), { isPriority: true, popularity: 5 }));
+    await assertFails(setDoc(doc(sellerDb, 'products/fresh'), {
+      sellerId: 'seller', approved: false, price: 100, title: 'Fresh', category: 'Web', ...counters, salesCount: 50, popularity: 50
+    }));
+    await assertSucceeds(setDoc(doc(sellerDb, 'products/fresh'), { sellerId: 'seller', approved: false, price: 100, title: 'Fresh', category: 'Web', ...counters }));
+  });
+
+  it('counts a sale or a download only alongside the purchase or download it records', async () => {
+    const strangerDb = dbAs('stranger');
+    await assertFails(updateDoc(doc(strangerDb, 'products/p1'), { salesCount: 1000, popularity: 1000 }));
+    await assertFails(updateDoc(doc(strangerDb, 'products/p1'), { salesCount: 1, popularity: 1 }));
+    const buyerDb = dbAs('buyer');
+    await assertFails(updateDoc(doc(buyerDb, 'products/p1'), { downloadCount: 1 }));
+
+    const batch = writeBatch(buyerDb);
+    batch.update(doc(buyerDb, 'requests/buyer_p1'), { recentDownloads: [Date.now()] });
+    batch.update(doc(buyerDb, 'products/p1'), { downloadCount: 1 });
+    await assertSucceeds(batch.commit());
+  });
+});
+
+describe('reviews', () => {
+  const review = (userId: string, rating: number) => ({ id: `rev-${userId}`, userId, userName: userId, rating, comment: 'Works.', createdAt: 1 });
+
+  beforeEach(async () => {
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      await updateDoc(doc(ctx.firestore(), 'products/p1'), { reviews: [review('stranger', 2)], reviewCount: 1, ratingTotal: 2, rating: 2 });
+    });
+  });
+
+  it('lets a buyer add their own review with the recomputed rating', async () => {
+    await assertSucceeds(updateDoc(doc(dbAs('buyer'), 'products/p1'), {
+      reviews: [review('stranger', 2), review('buyer', 5)], reviewCount: 2, ratingTotal: 7, rating: 3.5
+    }));
+  });
+
+  it('rejects inflated aggregates and edits to other buyers\' reviews', async () => {
+    const buyerDb = dbAs('buyer');
+    await assertFails(updateDoc(doc(buyerDb, 'products/p1'), {
+      reviews: [review('stranger', 2), review('buyer', 5)], reviewCount: 2, ratingTotal: 7, rating: 5
+    }));
+    await assertFails(updateDoc(doc(buyerDb, 'products/p1'), {
+      reviews: [review('buyer', 5)], reviewCount: 1, ratingTotal: 5, rating: 5
+    }));
+    await assertFails(updateDoc(doc(buyerDb, 'products/p1'), {
+      reviews: [review('stranger', 5), review('buyer', 5)], reviewCount: 2, ratingTotal: 10, rating: 5
+    }));
+  });
+});
+
+describe('productRevisions', () => {
+  const revision = { productId: 'p1', productTitle: 'Node One', changes: { title: 'Node One Pro' }, bump: 'minor', version: '1.1.0', notes: 'Renamed.', submittedAt: 1, reviewedAt: null };
+
+  it('lets only the seller file a pending revision', async () => {
+    await assertSucceeds(setDoc(doc(dbAs('seller'), 'productRevisions/p1'), { ...revision, sellerId: 'seller', status: 'pending' }));
+    await assertFails(setDoc(doc(dbAs('stranger'), 'productRevisions/p2'), { ...revision, productId: 'p2', sellerId: 'stranger', status: 'pending' }));
+  });
+
+  it('leaves approving a revision to admins', async () => {
+    await assertFails(setDoc(doc(dbAs('seller'), 'productRevisions/p1'), { ...revision, sellerId: 'seller', status: 'approved' }));
+    await assertSucceeds(setDoc(doc(dbAs('admin'), 'productRevisions/p1'), { ...revision, sellerId: 'seller', status: 'approved' }));
+  });
+});
+
+describe('analyticsEvents', () => {
+  const view = { type: 'view', sessionId: 's1', productId: 'p1', sellerId: 'seller', day: '2026-01-01', createdAt: 1 };
+
+  it('keeps visitors from recording events as someone else or pre-counting them', async () => {
+    await assertSucceeds(setDoc(doc(dbAs(), 'analyticsEvents/p1_2026-01-01_s1'), { ...view, userId: null, aggregated: false }));
+    await assertFails(setDoc(doc(dbAs('stranger'), 'analyticsEvents/p1_2026-01-01_buyer'), { ...view, userId: 'buyer', aggregated: false }));
+    await assertFails(setDoc(doc(dbAs('buyer'), 'analyticsEvents/p1_2026-01-01_buyer'), { ...view, userId: 'buyer', aggregated: true }));
+  });
+
+  it('lets admins record a sale for the buyer and prune counted views', async () => {
+    await assertSucceeds(setDoc(doc(dbAs('admin'), 'analyticsEvents/sale1'), { type: 'purchase', userId: 'buyer', sessionId: null, productId: 'p1', sellerId: 'seller', day: '2026-01-01', createdAt: 1 }));
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      await setDoc(doc(ctx.firestore(), 'analyticsEvents/p1_2026-01-01_s1'), { ...view, userId: null, aggregated: true });
+    });
+    await assertFails(deleteDoc(doc(dbAs('buyer'), 'analyticsEvents/p1_2026-01-01_s1')));
+    await assertSucceeds(deleteDoc(doc(dbAs('admin'), 'analyticsEvents/p1_2026-01-01_s1')));
+  });
+
+  it('leaves folding views into the counters to admins', async () => {
+    await assertFails(updateDoc(doc(dbAs('buyer'), 'products/p1'), { viewCount: 1000 }));
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      await setDoc(doc(ctx.firestore(), 'productStats/p1_2026-01-01'), { productId: 'p1', sellerId: 'seller', day: '2026-01-01', views: 0, downloads: 0 });
+    });
+    const buyerDb = dbAs('buyer');
+    await assertFails(updateDoc(doc(buyerDb, 'productStats/p1_2026-01-01'), { views: 1000 }));
+    await assertFails(updateDoc(doc(buyerDb, 'productStats/p1_2026-01-01'), { downloads: 1 }));
+
+    const batch = writeBatch(buyerDb);
+    batch.update(doc(buyerDb, 'requests/buyer_p1'), { recentDownloads: [Date.now()] });
+    batch.update(doc(buyerDb, 'productStats/p1_2026-01-01'), { downloads: 1 });
+    await assertSucceeds(batch.commit());
+  });
+});
+
+describe('bundles', () => {
+  it('lets sellers bundle only under their own name', async () => {
+    const bundle = { title: 'Starter kit', productIds: ['p1', 'p2'], discountPercent: 10, active: true, createdAt: 1 };
+    await assertSucceeds(setDoc(doc(dbAs('seller'), 'bundles/b1'), { ...bundle, sellerId: 'seller' }));
+    await assertFails(setDoc(doc(dbAs('stranger'), 'bundles/b2'), { ...bundle, sellerId: 'seller' }));
+  });
+
+  it('keeps other users from retiring a seller\'s bundle', async () => {
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      await setDoc(doc(ctx.firestore(), 'bundles/b1'), { sellerId: 'seller', title: 'Starter kit', productIds: ['p1', 'p2'], discountPercent: 10, active: true, createdAt: 1 });
+    });
+    await assertFails(updateDoc(doc(dbAs('stranger'), 'bundles/b1'), { active: false }));
+    await assertSucceeds(updateDoc(doc(dbAs('seller'), 'bundles/b1'), { active: false }));
+  });
+});
+
+describe('coupons', () => {
+  const coupon = { kind: 'percent', value: 10, redemptionCount: 0, redeemedBy: {}, active: true, createdAt: 1 };
+
+  it('keeps site-wide codes to admins', async () => {
+    await assertFails(setDoc(doc(dbAs('seller'), 'coupons/SITE10'), { ...coupon, code: 'SITE10', createdBy: 'seller', scope: 'site' }));
+    await assertSucceeds(setDoc(doc(dbAs('admin'), 'coupons/SITE10'), { ...coupon, code: 'SITE10', createdBy: 'admin', scope: 'site' }));
+  });
+
+  it('lets sellers issue codes only for their own listings', async () => {
+    await assertSucceeds(setDoc(doc(dbAs('seller'), 'coupons/SELL10'), { ...coupon, code: 'SELL10', createdBy: 'seller', scope: 'seller', sellerId: 'seller' }));
+    await assertFails(setDoc(doc(dbAs('stranger'), 'coupons/FAKE10'), { ...coupon, code: 'FAKE10', createdBy: 'stranger', scope: 'seller', sellerId: 'seller' }));
+    await assertSucceeds(setDoc(doc(dbAs('seller'), 'coupons/NODE10'), { ...coupon, code: 'NODE10', createdBy: 'seller', scope: 'product', sellerId: 'seller', productId: 'p1' }));
+    await assertFails(setDoc(doc(dbAs('stranger'), 'coupons/FREE100'), {
+      ...coupon, code: 'FREE100', createdBy: 'stranger', scope: 'product', sellerId: 'stranger', productId: 'p1', value: 100
+    }));
+  });
+
+  it('refuses a checkout discounted by a code minted for someone else\'s listing', async () => {
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      await setDoc(doc(ctx.firestore(), 'coupons/FREE100'), {
+        ...coupon, code: 'FREE100', createdBy: 'stranger', scope: 'product', sellerId: 'stranger', productId: 'p2', kind: 'flat', value: 1000
+      });
+    });
+    const buyerDb = dbAs('stranger');
+    const batch = writeBatch(buyerDb);
+    batch.update(doc(buyerDb, 'users/stranger'), { walletBalance: 999, lastDebit: 'transactions/stranger_1' });
+    batch.set(doc(buyerDb, 'transactions/stranger_1'), {
+      userId: 'stranger', amount: -1, type: 'purchase', description: 'Purchased Node Two', createdAt: 1, referenceId: 'stranger_1',
+      lines: { p2: 1 }, credits: { seller: 1 }, sellers: { p2: 'seller' }, proceeds: { p2: 1 }
+    });
+    batch.update(doc(buyerDb, 'users/seller'), { walletBalance: 1, lastCredit: 'stranger_1' });
+    batch.update(doc(buyerDb, 'coupons/FREE100'), { redemptionCount: 1, redeemedBy: { stranger: 1 } });
+    batch.set(doc(buyerDb, 'requests/stranger_p2'), {
+      userId: 'stranger', productId: 'p2', status: 'approved', isWalletPurchase: true, paymentProof: '', approvedAt: 1, createdAt: 1,
+      amountPaid: 1, checkoutId: 'stranger_1', couponCode: 'FREE100', couponDiscount: 299
+    });
+    await assertFails(batch.commit());
+  });
+});
+
+describe('requests', () => {
+  const approved = { userId: 'stranger', productId: 'p2', status: 'approved', isWalletPurchase: true, paymentProof: '', approvedAt: 1, createdAt: 1 };
+
+  // The writes checkoutCart makes for one listing, paying `debit` for p2 (price 300) and crediting `payee`
+  const checkout = (debit: number, paid: number = debit, payee: string = 'seller', credit: number = paid - Math.round(paid / 10)) => {
+    const buyerDb = dbAs('stranger');
+    const batch = writeBatch(buyerDb);
+    batch.update(doc(buyerDb, 'users/stranger'), { walletBalance: 1000 - debit, lastDebit: 'transactions/stranger_1' });
+    batch.set(doc(buyerDb, 'transactions/stranger_1'), {
+      userId: 'stranger', amount: -paid, type: 'purchase', description: 'Purchased Node Two', createdAt: 1, referenceId: 'stranger_1',
+      lines: { p2: paid }, credits: { [payee]: credit }, sellers: { p2: payee }, proceeds: { p2: credit }
+    });
+    batch.update(doc(buyerDb, `users/${payee}`), { walletBalance: credit, lastCredit: 'stranger_1' });
+    batch.set(doc(buyerDb, 'requests/stranger_p2'), { ...approved, amountPaid: paid, checkoutId: 'stranger_1' });
+    return batch.commit();
+  };
+
+  it('rejects a self-approved purchase without a wallet debit', async () => {
+    await assertFails(setDoc(doc(dbAs('stranger'), 'requests/stranger_p2'), { ...approved, amountPaid: 300 }));
+  });
+
+  it('accepts a wallet checkout that debits exactly the listing price', async () => {
+    await assertSucceeds(checkout(300));
+  });
+
+  it('rejects a ₹1 debit for a ₹300 listing', async () => {
+    await assertFails(checkout(1));
+    await assertFails(checkout(1, 300));
+  });
+
+  it('rejects proceeds other than the seller\'s settlement', async () => {
+    await assertFails(checkout(300, 300, 'seller', 5000));
+    await assertFails(checkout(300, 300, 'seller', 0));
+  });
+
+  it('rejects a checkout that pays someone other than the seller', async () => {
+    await assertFails(checkout(300, 300, 'buyer'));
+  });
+
+  it('rejects a checkout that credits no one', async () => {
+    const buyerDb = dbAs('stranger');
+    const batch = writeBatch(buyerDb);
+    batch.update(doc(buyerDb, 'users/stranger'), { walletBalance: 700, lastDebit: 'transactions/stranger_1' });
+    batch.set(doc(buyerDb, 'transactions/stranger_1'), {
+      userId: 'stranger', amount: -300, type: 'purchase', description: 'Purchased Node Two', createdAt: 1, referenceId: 'stranger_1',
+      lines: { p2: 300 }, credits: {}, sellers: { p2: 'seller' }, proceeds: { p2: 270 }
+    });
+    batch.set(doc(buyerDb, 'requests/stranger_p2'), { ...approved, amountPaid: 300, checkoutId: 'stranger_1' });
+    await assertFails(batch.commit());
+  });
+
+  it('records each line\'s sale and fee rows for the split the purchase row sets aside', async () => {
+    const settle = (sale: number, fee: number) => {
+      const buyerDb = dbAs('stranger');
+      const batch = writeBatch(buyerDb);
+      batch.update(doc(buyerDb, 'users/stranger'), { walletBalance: 700, lastDebit: 'transactions/stranger_1' });
+      batch.set(doc(buyerDb, 'transactions/stranger_1'), {
+        userId: 'stranger', amount: -300, type: 'purchase', description: 'Purchased Node Two', createdAt: 1, referenceId: 'stranger_1',
+        lines: { p2: 300 }, credits: { seller: 270 }, sellers: { p2: 'seller' }, proceeds: { p2: 270 }
+      });
+      batch.update(doc(buyerDb, 'users/seller'), { walletBalance: 270, lastCredit: 'stranger_1' });
+      batch.set(doc(buyerDb, 'requests/stranger_p2'), { ...approved, amountPaid: 300, checkoutId: 'stranger_1' });
+      const row = { description: 'Sale of Node Two', createdAt: 1, referenceId: 'stranger_p2', productId: 'p2', checkoutId: 'stranger_1' };
+      batch.set(doc(buyerDb, 'transactions/stranger_1_p2_sale'), { ...row, userId: 'seller', amount: sale, type: 'sale' });
+      batch.set(doc(buyerDb, 'transactions/stranger_1_p2_fee'), { ...row, userId: 'platform', amount: fee, type: 'fee' });
+      return batch.commit();
+    };
+    await assertFails(settle(5000, 30));
+    await assertFails(settle(270, -5000));
+    await assertSucceeds(settle(270, 30));
+  });
+
+  it('files payment proofs only at the listing price and never reopens a purchase', async () => {
+    const pending = { userId: 'stranger', productId: 'p2', status: 'pending', isWalletPurchase: false, paymentProof: 'UPI ref 1', approvedAt: null, createdAt: 1 };
+    await assertFails(setDoc(doc(dbAs('stranger'), 'requests/stranger_p2'), { ...pending, amountPaid: 5000 }));
+    await assertSucceeds(setDoc(doc(dbAs('stranger'), 'requests/stranger_p2'), { ...pending, amountPaid: 300 }));
+    await assertFails(setDoc(doc(dbAs('buyer'), 'requests/buyer_p1'), { ...pending, userId: 'buyer', productId: 'p1', amountPaid: 500 }));
+  });
+
+  it('hides other buyers\' requests', async () => {
+    await assertFails(getDoc(doc(dbAs('stranger'), 'requests/buyer_p1')));
+  });
+});
+
+describe('users', () => {
+  it('keeps owners from raising their own balance or granting themselves Elite Pro', async () => {
+    await assertFails(updateDoc(doc(dbAs('buyer'), 'users/buyer'), { walletBalance: 1000000 }));
+    await assertFails(updateDoc(doc(dbAs('buyer'), 'users/buyer'), { isPro: true, proExpiry: Date.now() + 86400000 }));
+    await assertFails(updateDoc(doc(dbAs('buyer'), 'users/buyer'), { role: 'admin' }));
+    await assertSucceeds(updateDoc(doc(dbAs('buyer'), 'users/buyer'), { bio: 'Still just a buyer.' }));
+  });
+
+  it('keeps buyers from crediting anyone outside a checkout', async () => {
+    await assertFails(updateDoc(doc(dbAs('buyer'), 'users/stranger'), { walletBalance: 5000 }));
+  });
+
+  it('lets a seller hold funds for a withdrawal only by debiting them', async () => {
+    const buyerDb = dbAs('buyer');
+    const hold = (debit: number) => {
+      const batch = writeBatch(buyerDb);
+      batch.set(doc(buyerDb, 'withdrawals/w1'), { userId: 'buyer', amount: 600, payoutDetails: 'buyer@upi', status: 'pending', createdAt: 1, processedAt: null });
+      batch.update(doc(buyerDb, 'users/buyer'), { walletBalance: 1000 - debit, lastDebit: 'withdrawals/w1' });
+      return batch.commit();
+    };
+    await assertFails(hold(1));
+    await assertSucceeds(hold(600));
+  });
+});
+
+describe('transactions', () => {
+  it('refuses ledger rows that record no checked write', async () => {
+    const strangerDb = dbAs('stranger');
+    const row = { description: 'Forged', createdAt: 1 };
+    await assertFails(setDoc(doc(strangerDb, 'transactions/stranger_deposit'), { ...row, userId: 'stranger', amount: 100000, type: 'deposit' }));
+    await assertFails(setDoc(doc(strangerDb, 'transactions/buyer_refund'), { ...row, userId: 'buyer', amount: 500, type: 'refund' }));
+    await assertFails(setDoc(doc(strangerDb, 'transactions/stranger_9_p1_sale'), {
+      ...row, userId: 'stranger', amount: 5000, type: 'sale', referenceId: 'stranger_p1', productId: 'p1', checkoutId: 'stranger_9'
+    }));
+    await assertFails(setDoc(doc(strangerDb, 'transactions/stranger_pro_1'), { ...row, userId: 'stranger', amount: -999, type: 'subscription' }));
+  });
+
+  it('records a withdrawal hold only beside the withdrawal it debits', async () => {
+    const buyerDb = dbAs('buyer');
+    const hold = (amount: number) => {
+      const batch = writeBatch(buyerDb);
+      batch.set(doc(buyerDb, 'withdrawals/w1'), { userId: 'buyer', amount: 600, payoutDetails: 'buyer@upi', status: 'pending', createdAt: 1, processedAt: null });
+      batch.update(doc(buyerDb, 'users/buyer'), { walletBalance: 400, lastDebit: 'withdrawals/w1' });
+      batch.set(doc(buyerDb, 'transactions/buyer_withdrawal_w1'), {
+        userId: 'buyer', amount, type: 'withdrawal', description: 'Withdrawal to buyer@upi (on hold)', createdAt: 1, referenceId: 'w1'
+      });
+      return batch.commit();
+    };
+    await assertFails(hold(600));
+    await assertSucceeds(hold(-600));
+    await assertFails(setDoc(doc(buyerDb, 'transactions/buyer_withdrawal_w1b'), {
+      userId: 'buyer', amount: 600, type: 'withdrawal', description: 'Withdrawal reversed', createdAt: 1, referenceId: 'w1'
+    }));
+  });
+});
+
+describe('disputes', () => {
+  const dispute = (patch: Record<string, unknown> = {}) => ({
+    productId: 'p1', productTitle: 'Node One', buyerId: 'buyer', buyerName: 'Buyer', sellerId: 'seller', amountPaid: 500,
+    reason: 'The archive is missing the server code.', evidence: '', status: 'open', createdAt: Date.now(), respondedAt: null, resolvedAt: null,
+    ...patch
+  });
+  const purchasedAt = async (approvedAt: number) => {
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      await updateDoc(doc(ctx.firestore(), 'requests/buyer_p1'), { approvedAt, amountPaid: 500 });
+    });
+  };
+
+  it('pins the refund and clawback to the purchase', async () => {
+    await purchasedAt(Date.now());
+    const buyerDb = dbAs('buyer');
+    await assertFails(setDoc(doc(buyerDb, 'disputes/buyer_p1'), dispute({ amountPaid: 50000 })));
+    await assertFails(setDoc(doc(buyerDb, 'disputes/buyer_p1'), dispute({ sellerId: 'stranger' })));
+    await assertSucceeds(setDoc(doc(buyerDb, 'disputes/buyer_p1'), dispute()));
+  });
+
+  it('closes once the dispute window has passed', async () => {
+    await purchasedAt(Date.now() - 8 * 86400000);
+    await assertFails(setDoc(doc(dbAs('buyer'), 'disputes/buyer_p1'), dispute()));
+  });
+});
+
+describe('downloads', () => {
+  it('lets an approved buyer log a download against their purchase', async () => {
+    const buyerDb = dbAs('buyer');
+    await assertSucceeds(updateDoc(doc(buyerDb, 'requests/buyer_p1'), { recentDownloads: [Date.now()] }));
+    await assertSucceeds(addDoc(collection(buyerDb, 'downloads'), { userId: 'buyer', productId: 'p1', productTitle: 'Node One', createdAt: Date.now() }));
+  });
+
+  it('keeps buyers from clearing or back-dating their download log', async () => {
+    const now = Date.now();
+    const full = [now - 5000, now - 4000, now - 3000, now - 2000, now - 1000];
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      await updateDoc(doc(ctx.firestore(), 'requests/buyer_p1'), { recentDownloads: full });
+    });
+    const buyerDb = dbAs('buyer');
+    await assertFails(updateDoc(doc(buyerDb, 'requests/buyer_p1'), { recentDownloads: [] }));
+    await assertFails(updateDoc(doc(buyerDb, 'requests/buyer_p1'), { recentDownloads: [...full.slice(1), now] }));
+    await assertFails(updateDoc(doc(buyerDb, 'requests/buyer_p1'), { recentDownloads: [...full, now] }));
+  });
+
+  it('refuses download events for unapproved purchases', async () => {
+    await assertFails(addDoc(collection(dbAs('stranger'), 'downloads'), { userId: 'stranger', productId: 'p1', productTitle: 'Node One', createdAt: Date.now() }));
+  });
+});
+
+// The same calls the UI makes, so a rule that denies reading a document that does not exist yet shows up here
+describe('emailOutbox', () => {
+  const message = {
+    userId: 'seller', template: 'product-sold', productId: 'p2', vars: { productTitle: 'Node Two', buyer: 'Stranger', credit: '₹270' },
+    status: 'queued', createdAt: 1, sentAt: null
+  };
+
+  // The writes checkoutCart makes for p2, queueing `mail` beside them
+  const sale = (mail: Record<string, unknown>) => {
+    const strangerDb = dbAs('stranger');
+    const batch = writeBatch(strangerDb);
+    batch.update(doc(strangerDb, 'users/stranger'), { walletBalance: 700, lastDebit: 'transactions/stranger_1' });
+    batch.set(doc(strangerDb, 'transactions/stranger_1'), {
+      userId: 'stranger', amount: -300, type: 'purchase', description: 'Purchased Node Two', createdAt: 1, referenceId: 'stranger_1',
+      lines: { p2: 300 }, credits: { seller: 270 }, sellers: { p2: 'seller' }, proceeds: { p2: 270 }
+    });
+    batch.update(doc(strangerDb, 'users/seller'), { walletBalance: 270, lastCredit: 'stranger_1' });
+    batch.set(doc(strangerDb, 'requests/stranger_p2'), {
+      userId: 'stranger', productId: 'p2', status: 'approved', isWalletPurchase: true, paymentProof: '', approvedAt: 1, createdAt: 1,
+      amountPaid: 300, checkoutId: 'stranger_1'
+    });
+    batch.set(doc(collection(strangerDb, 'emailOutbox')), mail);
+    return batch.commit();
+  };
+
+  it('queues a sale message only beside the sale it reports', async () => {
+    await assertFails(addDoc(collection(dbAs('stranger'), 'emailOutbox'), message));
+    await assertFails(sale({ ...message, vars: { ...message.vars, credit: '₹1000000' } }));
+    await assertFails(sale({ ...message, userId: 'buyer' }));
+    await assertSucceeds(sale(message));
+  });
+
+  it('queues a review message only beside the buyer\'s new review', async () => {
+    const buyerDb = dbAs('buyer');
+    const review = { id: 'rev-buyer', userId: 'buyer', userName: 'Buyer', rating: 5, comment: 'Works.', createdAt: 1 };
+    const mail = { ...message, template: 'review-received', productId: 'p1', vars: { productTitle: 'Node One', reviewer: 'Buyer', rating: '5', comment: 'Works.' } };
+    const reviewed = (vars: Record<string, string>) => {
+      const batch = writeBatch(buyerDb);
+      batch.update(doc(buyerDb, 'products/p1'), { reviews: [review], reviewCount: 1, ratingTotal: 5, rating: 5 });
+      batch.set(doc(collection(buyerDb, 'emailOutbox')), { ...mail, vars });
+      return batch.commit();
+    };
+    await assertFails(addDoc(collection(buyerDb, 'emailOutbox'), mail));
+    await assertFails(reviewed({ ...mail.vars, comment: 'Visit spam.example.com' }));
+    await assertSucceeds(reviewed(mail.vars));
+  });
+
+  it('queues only a recipient, a template and short variables', async () => {
+    await assertFails(sale({ ...message, to: 'victim@example.com', subject: 'Hi', text: 'Spam' }));
+    await assertFails(sale({ ...message, template: 'payment-verified' }));
+    await assertFails(sale({ ...message, vars: { ...message.vars, buyer: 'x'.repeat(5000) } }));
+  });
+});
+
+describe('notifications', () => {
+  const note = { to: 'seller', message: 'Buyer audited Node One: 5/5.', read: false, createdAt: 1, productId: 'p1' };
+
+  it('lets users notify a seller only beside the review, purchase or dispute it reports', async () => {
+    const buyerDb = dbAs('buyer');
+    await assertFails(addDoc(collection(buyerDb, 'notifications'), note));
+    await assertFails(addDoc(collection(dbAs('stranger'), 'notifications'), { ...note, to: 'buyer', message: 'Your vault was frozen.' }));
+    const batch = writeBatch(buyerDb);
+    batch.update(doc(buyerDb, 'products/p1'), {
+      reviews: [{ id: 'rev-buyer', userId: 'buyer', userName: 'Buyer', rating: 5, comment: 'Works.', createdAt: 1 }], reviewCount: 1, ratingTotal: 5, rating: 5
+    });
+    batch.set(doc(collection(buyerDb, 'notifications')), note);
+    await assertSucceeds(batch.commit());
+  });
+
+  it('keeps a user\'s own notifications to the known keys and a short message', async () => {
+    const buyerDb = dbAs('buyer');
+    const own = { ...note, to: 'buyer', message: 'Elite Pro renewed.' };
+    await assertSucceeds(addDoc(collection(buyerDb, 'notifications'), own));
+    await assertFails(addDoc(collection(buyerDb, 'notifications'), { ...own, read: true }));
+    await assertFails(addDoc(collection(buyerDb, 'notifications'), { ...own, link: 'https://example.com' }));
+    await assertFails(addDoc(collection(buyerDb, 'notifications'), { ...own, message: 'x'.repeat(5000) }));
+  });
+});
+
+describe('app transactions', () => {
+  it('buys a listing from the wallet', async () => {
+    signInAs('stranger');
+    expect(await api.getPurchaseRequest('stranger', 'p2')).toBeNull();
+    const request = await api.createRequest('stranger', 'p2', undefined, true);
+    expect(request.status).toBe('approved');
+    expect((await api.getSellerData('stranger'))?.walletBalance).toBe(700);
+  });
+
+  it('files a pending request with a payment proof', async () => {
+    signInAs('stranger');
+    const request = await api.createRequest('stranger', 'p2', 'UPI ref 12345');
+    expect(request.status).toBe('pending');
+  });
+
+  it('checks out a cart with one debit', async () => {
+    signInAs('stranger');
+    await api.addToCart('stranger', 'p2');
+    expect((await api.getCartQuote('stranger')).total).toBe(300);
+    const { requests, total } = await api.checkoutCart('stranger');
+    expect(requests.map(r => r.productId)).toEqual(['p2']);
+    expect(total).toBe(300);
+  });
+
+  it('pays for Elite Pro and holds a withdrawal from the wallet', async () => {
+    signInAs('buyer');
+    expect((await api.upgradeToPro('buyer'))?.isPro).toBe(true);
+    signInAs('stranger');
+    expect((await api.requestWithdrawal('stranger', 600, 'stranger@upi')).status).toBe('pending');
+  });
+
+  it('opens a top-up order', async () => {
+    signInAs('buyer');
+    const order = await api.createTopUpOrder('buyer', 500, 'key-1');
+    expect(order.status).toBe('pending');
+  });
+
+  it('looks up a listing\'s revision before one is filed', async () => {
+    signInAs('seller');
+    expect(await api.getProductRevision('p1')).toBeNull();
+  });
+
+  it('downloads a purchase through the metered path only', async () => {
+    signInAs('stranger');
+    await expect(api.getDownloadLink('stranger', 'p1')).rejects.toThrow();
+    signInAs('buyer');
+    expect(await api.getDownloadLink('buyer', 'p1')).toBe('https://example.com/p1');
+    expect(await api.downloadProduct('buyer', 'p1')).toBe('https://example.com/p1');
+    expect((await api.getPurchaseRequest('buyer', 'p1'))?.recentDownloads).toHaveLength(2);
+  });
+
+  it('opens a dispute on a recent purchase', async () => {
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      await updateDoc(doc(ctx.firestore(), 'requests/buyer_p1'), { approvedAt: Date.now(), amountPaid: 500 });
+    });
+    signInAs('buyer');
+    const dispute = await api.openDispute('buyer', 'p1', 'The archive is missing the server code.', '');
+    expect(dispute.status).toBe('open');
+  });
+});
@@ -0,0 +1,50 @@
+import { Bundle, Coupon, Product, Role, User } from '../types';
+import { CollectionName, EntityData, StoreTransaction } from '../services/dataStore';
+
+// Shared factories for the unit tests; each fills in a valid entity and takes the fields a test cares about
+
+export const product = (id: string, price: number, sellerId = 'seller'): Product => ({
+  id, title: id, description: '', price, previewImage: '', images: [], approved: true, sellerId, sellerName: sellerId,
+  category: 'Web', tags: [], createdAt: 0, rating: 0, reviewCount: 0, salesCount: 0, viewCount: 0, downloadCount: 0,
+  lastUpdate: 0, reviews: [], popularity: 0
+});
+
+export const user = (uid: string, patch: Partial<User> = {}): User => ({
+  uid, name: uid, email: `${uid}@example.com`, role: Role.USER, joinedAt: 0, wishlist: [], savedFilters: [],
+  walletBalance: 0, reputation: 0, isPro: false,
+  notificationSettings: { emailNotifyApproval: false, emailNotifyReview: false, emailNotifyPurchase: false }, ...patch
+});
+
+export const coupon = (patch: Partial<Coupon> = {}): Coupon => ({
+  id: 'SAVE', code: 'SAVE', createdBy: 'admin', scope: 'site', kind: 'percent', value: 10,
+  redemptionCount: 0, redeemedBy: {}, active: true, createdAt: 0, ...patch
+});
+
+export const bundle = (id: string, productIds: string[], discountPercent: number, patch: Partial<Bundle> = {}): Bundle => ({
+  id, sellerId: 'seller', title: id, productIds, discountPercent, active: true, createdAt: 0, ...patch
+});
+
+// Write-only helpers never read, so a transaction that only records their writes is enough
+export const recordingTx = () => {
+  const rows: { [K in CollectionName]?: (EntityData<K> & { id: string })[] } = {};
+  const updates: { col: CollectionName; id: string; patch: object }[] = [];
+  const record = <K extends CollectionName>(col: K, id: string, data: EntityData<K>) => {
+    (rows[col] ??= []).push({ ...data, id });
+  };
+  const tx: StoreTransaction = {
+    get: async () => null,
+    set: (col, id, data) => record(col, id, data),
+    update: (col, id, patch) => { updates.push({ col, id, patch }); },
+    add: (col, data) => {
+      const id = `row${(rows[col]?.length || 0) + 1}`;
+      record(col, id, data);
+      return id;
+    },
+    delete: () => {}
+  };
+  return { tx, updates, ledger: () => rows.transactions || [] };
+};
+
+// Ledger rows keyed `<userId>:<type>`, for comparing a settlement's amounts at a glance
+export const amounts = (rows: EntityData<'transactions'>[]) =>
+  Object.fromEntries(rows.map(row => [`${row.userId}:${row.type}`, row.amount]));
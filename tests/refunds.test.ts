@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { PLATFORM_LEDGER_ID, reverseSale } from '../services/settlement';
+import { amounts, recordingTx } from './fixtures';
+
+describe('reverseSale', () => {
+  const refund = (refundAmount: number, sellerCredit: number, amountPaid = 1000) => {
+    const { tx, updates, ledger } = recordingTx();
+    const result = reverseSale(tx, {
+      buyerId: 'buyer', sellerId: 'seller', productId: 'p1', productTitle: 'Node One',
+      amountPaid, sellerCredit, refundAmount, referenceId: 'buyer_p1'
+    });
+    return { result, updates, rows: ledger() };
+  };
+
+  it('refunds in the same proportion as the original sale', () => {
+    const { result, rows } = refund(1000, 900);
+    expect(result).toEqual({ sellerDebit: 900, feeReversal: 100 });
+    expect(amounts(rows)).toEqual({ 'buyer:refund': 1000, 'seller:refund': -900, [`${PLATFORM_LEDGER_ID}:refund`]: -100 });
+  });
+
+  it('scales a partial refund and keeps a Pro seller\'s lower fee', () => {
+    expect(refund(500, 900).result).toEqual({ sellerDebit: 450, feeReversal: 50 });
+    expect(refund(500, 950).result).toEqual({ sellerDebit: 475, feeReversal: 25 });
+  });
+
+  it('has the seller hand a coupon subsidy back to the platform', () => {
+    // Paid 800 after a 200 site coupon; the seller was credited 900
+    const { result, rows } = refund(800, 900, 800);
+    expect(result).toEqual({ sellerDebit: 900, feeReversal: -100 });
+    expect(amounts(rows)[`${PLATFORM_LEDGER_ID}:refund`]).toBe(100);
+  });
+
+  it('refunds the buyer without a clawback when the seller was never paid', () => {
+    const { result, updates } = refund(1000, 0);
+    expect(result).toEqual({ sellerDebit: 0, feeReversal: 1000 });
+    expect(updates.map(update => update.id)).toEqual(['buyer']);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { PLATFORM_LEDGER_ID, computeSettlement, creditProceeds, settleSale } from '../services/settlement';
+import { amounts, product, recordingTx, user } from './fixtures';
+
+const seller = user('seller');
+const listing = product('p1', 1000);
+
+describe('computeSettlement', () => {
+  it('takes the standard fee from regular sellers and the reduced fee from active Pro sellers', () => {
+    expect(computeSettlement(1000, seller)).toEqual({ fee: 100, sellerCredit: 900, savedFee: 0 });
+    expect(computeSettlement(1000, user('seller', { isPro: true, proExpiry: Date.now() + 86400000 }))).toEqual({ fee: 50, sellerCredit: 950, savedFee: 50 });
+    expect(computeSettlement(1000, user('seller', { isPro: true, proExpiry: 1 }))).toEqual({ fee: 100, sellerCredit: 900, savedFee: 0 });
+  });
+});
+
+describe('settleSale', () => {
+  it('splits a sale into a seller credit and a platform fee', () => {
+    const { tx, updates, ledger } = recordingTx();
+    settleSale(tx, { seller, product: listing, buyerName: 'Buyer', referenceId: 'buyer_p1' });
+    expect(amounts(ledger())).toEqual({ 'seller:sale': 900, [`${PLATFORM_LEDGER_ID}:fee`]: 100 });
+    expect(updates).toEqual([{ col: 'users', id: 'seller', patch: { walletBalance: { __op: 'increment', by: 900 } } }]);
+  });
+
+  it('leaves the seller balance to creditProceeds on a wallet checkout', () => {
+    const { tx, updates, ledger } = recordingTx();
+    settleSale(tx, { seller, product: listing, buyerName: 'Buyer', referenceId: 'buyer_p1', checkoutId: 'buyer_1' });
+    expect(updates).toEqual([]);
+    expect(amounts(ledger())['seller:sale']).toBe(900);
+    expect(ledger().map(row => row.id)).toEqual(['buyer_1_p1_sale', 'buyer_1_p1_fee']);
+
+    creditProceeds(tx, 'buyer_1', { seller: 900, other: 0 });
+    expect(updates).toEqual([{ col: 'users', id: 'seller', patch: { walletBalance: { __op: 'increment', by: 900 }, lastCredit: 'buyer_1' } }]);
+  });
+
+  it('books the whole amount to the platform when the seller is gone', () => {
+    const { tx, ledger } = recordingTx();
+    settleSale(tx, { seller: null, product: listing, buyerName: 'Buyer', referenceId: 'buyer_p1', amount: 700 });
+    expect(amounts(ledger())).toEqual({ [`${PLATFORM_LEDGER_ID}:fee`]: 700 });
+  });
+});
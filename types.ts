@@ -7,13 +7,50 @@ export enum RequestStatus {
   PENDING = "pending",
   APPROVED = "approved",
   REJECTED = "rejected",
+  REFUNDED = "refunded", // Fully refunded after a dispute; download access is gone
 }
 
-export interface SavedFilter {
+export enum DisputeStatus {
+  OPEN = "open",
+  RESPONDED = "responded",
+  REFUNDED = "refunded",
+  PARTIALLY_REFUNDED = "partially_refunded",
+  DENIED = "denied",
+}
+
+// Narrowing applied on top of search and category in Explore; unset fields do not filter
+export interface ProductFacets {
+  minPrice?: number; // Inclusive, in rupees
+  maxPrice?: number; // Inclusive
+  minRating?: number;
+  tags?: string[]; // A listing must carry every selected tag
+  updatedWithinDays?: number;
+  eliteOnly?: boolean;
+}
+
+export interface ProductQuery extends ProductFacets {
+  searchTerm?: string;
+  category?: string;
+  sortBy?: string;
+}
+
+export interface SavedFilter extends ProductFacets {
   id: string;
   label: string;
   searchTerm: string;
   category: string;
+  sortBy?: string;
+  alertsEnabled?: boolean; // Notify the owner when a newly approved listing matches
+}
+
+// Mirror of an alert-enabled SavedFilter, so approvals can find every watcher with one query
+export interface SearchAlert {
+  id: string; // `${userId}_${filterId}`
+  userId: string;
+  filterId: string;
+  filter: SavedFilter;
+  active: boolean; // Cleared when alerts are switched off or the macro is deleted
+  updatedAt: number;
 }
 
 export interface NotificationSettings {
@@ -30,14 +67,19 @@ export interface User {
   role: Role;
   joinedAt: number;
   wishlist: string[];
+  cart?: string[]; // Product ids awaiting checkout, in the order they were added
   savedFilters: SavedFilter[];
   walletBalance: number;
+  lastDebit?: string; // What the latest wallet debit paid for: 'transactions/…', 'withdrawals/…' or 'pro/<expiry>'
+  lastCredit?: string; // Purchase row (transactions id) behind the latest sale proceeds credited here
   avatar?: string;
   reputation: number;
   isPro: boolean;
   proExpiry?: number;
+  proAutoRenew?: boolean; // Charge the wallet for the next term when proExpiry passes
+  proNotice?: { kind: 'renewal' | 'grace'; expiry: number }; // Last lifecycle notice, so each is sent once per term
   notificationSettings: NotificationSettings;
-  // Enhanced Pro Metrics
+  // Snapshot from before metrics were derived on read; only its savedFees still counts (see computeProMetrics)
   proMetrics?: {
     savedFees: number;
     reputationMultiplier: number;
@@ -50,9 +92,51 @@ export interface Transaction {
   id: string;
   userId: string;
   amount: number;
-  type: 'deposit' | 'purchase' | 'withdrawal' | 'subscription';
+  type: 'deposit' | 'purchase' | 'withdrawal' | 'subscription' | 'sale' | 'fee' | 'refund';
   description: string;
   createdAt: number;
+  referenceId?: string; // Request, cart checkout or withdrawal this entry settles
+  productId?: string; // Listing a sale, fee or refund row is for
+  checkoutId?: string; // Sale and fee rows of a wallet purchase: the buyer's purchase row
+  couponCode?: string; // On purchase rows paid with a coupon
+  couponDiscount?: number;
+  lines?: Record<string, number>; // Wallet purchase rows: what was paid for each listing id
+  credits?: Record<string, number>; // Wallet purchase rows: proceeds credited to each seller uid
+  sellers?: Record<string, string>; // Wallet purchase rows: seller uid of each listing id
+  proceeds?: Record<string, number>; // Wallet purchase rows: per listing id, what its sale credits the seller
+  subsidies?: Record<string, number>; // Wallet purchase rows: per listing id, coupon discount funded by the platform rather than the seller
+  savedFee?: number; // Sale rows: what a Pro seller kept compared to the standard fee
+}
+
+export interface Withdrawal {
+  id: string;
+  userId: string;
+  amount: number;
+  payoutDetails: string; // UPI ID or bank reference supplied by the seller
+  status: RequestStatus;
+  createdAt: number;
+  processedAt: number | null;
+  note?: string;
+}
+
+// One per purchase: the id matches the `${buyerUid}_${productId}` request it disputes
+export interface Dispute {
+  id: string;
+  productId: string;
+  productTitle: string;
+  buyerId: string;
+  buyerName: string;
+  sellerId: string;
+  amountPaid: number;
+  reason: string;
+  evidence: string; // Notes, links or an inline screenshot data URL
+  status: DisputeStatus;
+  createdAt: number;
+  sellerResponse?: string;
+  respondedAt: number | null;
+  resolvedAt: number | null;
+  refundAmount?: number;
+  resolutionNote?: string;
 }
 
 export interface Review {
@@ -62,6 +146,7 @@ export interface Review {
   rating: number;
   comment: string;
   createdAt: number;
+  updatedAt?: number;
 }
 
 export interface Product {
@@ -71,8 +156,8 @@ export interface Product {
   price: number;
   previewImage: string;
   images: string[];
-  mediafireLink: string;
   approved: boolean;
+  rejected?: boolean;
   sellerId: string;
   sellerName: string;
   category: string;
@@ -80,12 +165,129 @@ export interface Product {
   createdAt: number;
   rating: number;
   reviewCount: number;
+  ratingTotal?: number; // Sum of the review ratings; written with every review change, backfilled by Rebuild Rankings
   salesCount: number;
   viewCount: number;
   downloadCount: number;
   lastUpdate: number;
   reviews: Review[];
   isPriority?: boolean; // Pro users' products
+  popularity: number; // Stored popularityScore (services/ranking.ts) so the Popular sort can use an index
+  version?: string; // Semantic version of the live listing; older listings count as 1.0.0
+  changelog?: ChangelogEntry[]; // Newest first
+}
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export interface ChangelogEntry {
+  version: string;
+  notes: string;
+  publishedAt: number;
+}
+
+// What a seller can change after submitting; the asset link is stored on ProductAsset, never the listing
+export type ListingEdit = Pick<Product, 'title' | 'description' | 'price' | 'previewImage' | 'images'> & { assetLink: string };
+
+export type RevisionStatus = 'pending' | 'approved' | 'rejected';
+
+// An edit to a live listing, held for moderation while the current version stays up.
+// Keyed by the product id, so a listing has one revision at a time and resubmitting replaces it.
+export interface ProductRevision {
+  id: string; // Same as the product id
+  productId: string;
+  sellerId: string;
+  productTitle: string; // Live title when the revision was filed
+  changes: Partial<ListingEdit>; // Only the fields that differ from the live listing
+  bump: VersionBump;
+  version: string; // What it publishes as
+  notes: string; // Changelog entry
+  status: RevisionStatus;
+  submittedAt: number;
+  reviewedAt: number | null;
+}
+
+// A seller's discount on buying several of their own listings together
+export interface Bundle {
+  id: string;
+  sellerId: string;
+  title: string;
+  productIds: string[]; // Every one must be in the cart for the discount to apply
+  discountPercent: number;
+  active: boolean;
+  createdAt: number;
+}
+
+export type CouponScope = 'product' | 'seller' | 'site';
+
+// Keyed by its normalised code. Product and seller coupons come out of the seller's proceeds;
+// site-wide coupons are admin-only and funded by the platform fee.
+export interface Coupon {
+  id: string;
+  code: string;
+  createdBy: string;
+  scope: CouponScope;
+  sellerId?: string; // Whose listings a 'product' or 'seller' coupon discounts
+  productId?: string; // 'product' scope only
+  kind: 'percent' | 'flat'; // Percent off, or flat rupees off each eligible listing
+  value: number;
+  maxRedemptions?: number;
+  perUserLimit?: number;
+  expiresAt?: number;
+  redemptionCount: number;
+  redeemedBy: Record<string, number>; // Redemptions per buyer uid, for perUserLimit
+  active: boolean;
+  createdAt: number;
+}
+
+export interface CouponRedemption {
+  id: string;
+  couponId: string;
+  code: string;
+  issuedBy: string; // The coupon's creator, whose report this row feeds
+  userId: string;
+  userName: string;
+  productId: string;
+  productTitle: string;
+  requestId: string;
+  discount: number;
+  createdAt: number;
+}
+
+export type AnalyticsEventType = 'view' | 'search' | 'wishlist' | 'purchase' | 'download';
+
+// Raw usage signal (services/analytics.ts). Listing counters are folded in from these in batches.
+export interface AnalyticsEvent {
+  id: string; // Views are keyed `${productId}_${day}_${visitor}`, so a visitor counts once a day
+  type: AnalyticsEventType;
+  sessionId: string | null; // Browser session that raised it; null when recorded during moderation
+  userId: string | null;
+  productId?: string;
+  sellerId?: string;
+  query?: string; // Searches only
+  resultCount?: number;
+  day: string; // YYYY-MM-DD, UTC
+  createdAt: number;
+  aggregated?: boolean; // Views only: whether viewCount and productStats include it yet
+}
+
+// One listing's views and downloads on one UTC day, for the seller workspace charts.
+// Keyed `${productId}_${day}`; sales and revenue come from the ledger instead.
+export interface ProductDailyStats {
+  id: string;
+  productId: string;
+  sellerId: string;
+  day: string; // YYYY-MM-DD
+  views: number;
+  downloads: number;
+}
+
+// Delivery link kept apart from the public listing; readable only by confirmed buyers, the seller and admins
+export interface ProductAsset {
+  id: string; // Same as the product id
+  productId: string;
+  sellerId: string;
+  link: string;
+  updatedAt: number;
 }
 
 export interface Request {
@@ -97,6 +299,21 @@ export interface Request {
   approvedAt: number | null;
   createdAt: number;
   isWalletPurchase: boolean;
+  amountPaid?: number; // Price at purchase time; older requests fall back to the listing price
+  checkoutId?: string; // Purchase row (transactions id) that paid for it; a cart checkout shares one across listings
+  bundleId?: string; // Seller bundle that discounted this purchase at checkout
+  bundleDiscount?: number; // What that bundle took off the listing price
+  couponCode?: string;
+  couponDiscount?: number; // What the coupon took off, after any bundle discount
+  recentDownloads?: number[]; // Timestamps inside the current rate-limit window
+}
+
+export interface DownloadEvent {
+  id: string;
+  userId: string;
+  productId: string;
+  productTitle: string;
+  createdAt: number;
 }
 
 export interface Notification {
@@ -105,8 +322,41 @@ export interface Notification {
   message: string;
   read: boolean;
   createdAt: number;
+  productId?: string; // Listing the notification opens when clicked
+}
+
+export type PaymentOrderStatus = 'pending' | 'paid' | 'failed' | 'refunded';
+
+// A wallet top-up, credited only once the gateway's signed webhook confirms it
+export interface PaymentOrder {
+  id: string;
+  userId: string;
+  amount: number;
+  provider: string;
+  providerOrderId: string;
+  idempotencyKey: string;
+  status: PaymentOrderStatus;
+  createdAt: number;
+  paidAt: number | null;
+  failureReason?: string;
+}
+
+export type EmailTemplate = 'listing-approved' | 'listing-rejected' | 'payment-verified' | 'payment-rejected' | 'review-received' | 'product-sold';
+
+// Queued by whoever triggers the event; the delivery worker looks up the address and renders the template
+export interface EmailMessage {
+  id: string;
+  userId: string; // Recipient
+  template: EmailTemplate;
+  vars: Record<string, string>;
+  productId?: string; // Listing the message is about
+  status: 'queued' | 'sending' | 'sent' | 'skipped' | 'failed'; // skipped: no address, or opted out since queueing
+  createdAt: number;
+  sentAt: number | null;
+  error?: string;
 }
 
 export type PurchasedProduct = Product & {
   purchaseStatus: RequestStatus;
+  approvedAt: number | null;
 };
\ No newline at end of file
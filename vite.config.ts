@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.DATA_BACKEND': JSON.stringify(env.DATA_BACKEND || 'firestore'),
+        'process.env.PLATFORM_FEE_PERCENT': JSON.stringify(env.PLATFORM_FEE_PERCENT || '10'),
+        'process.env.PRO_FEE_PERCENT': JSON.stringify(env.PRO_FEE_PERCENT || '5'),
+        'process.env.DISPUTE_WINDOW_DAYS': JSON.stringify(env.DISPUTE_WINDOW_DAYS || '7'),
+        'process.env.PAYMENT_PROVIDER': JSON.stringify(env.PAYMENT_PROVIDER || 'sandbox')
       },
       resolve: {
         alias: {